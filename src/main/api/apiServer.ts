@@ -4,6 +4,8 @@
 import express, { Express } from 'express';
 import { Server } from 'http';
 import { DatabaseService } from '../database/service';
+import { getApprovalQueue } from '../tts/approvalQueue';
+import { getTTSQueue } from '../tts/ttsQueue';
 import { EventEmitter } from 'events';
 
 export class ApiServer extends EventEmitter {
@@ -46,6 +48,43 @@ export class ApiServer extends EventEmitter {
         });
       }
     });
+
+    // Recently spoken messages, newest first
+    this.app.get('/tts/history', (_req, res) => {
+      res.json({ success: true, history: getTTSQueue().getHistory().reverse() });
+    });
+
+    // Queue a spoken message again, reusing its synthesized audio
+    this.app.post('/tts/history/:id/replay', (req, res) => {
+      if (!getTTSQueue().replayById(req.params.id)) {
+        res.status(404).json({ success: false, error: 'Message is no longer in the history' });
+        return;
+      }
+      res.json({ success: true });
+    });
+
+    // Messages held for moderator approval
+    this.app.get('/tts/held', (_req, res) => {
+      res.json({ success: true, held: getApprovalQueue().getHeld() });
+    });
+
+    // Approve a held message; an optional JSON "text" replaces what is read
+    this.app.post('/tts/held/:id/approve', (req, res) => {
+      const text = typeof req.body?.text === 'string' ? req.body.text : undefined;
+      if (!getApprovalQueue().approve(req.params.id, text)) {
+        res.status(404).json({ success: false, error: 'Message is no longer waiting for approval' });
+        return;
+      }
+      res.json({ success: true });
+    });
+
+    this.app.post('/tts/held/:id/reject', (req, res) => {
+      if (!getApprovalQueue().reject(req.params.id)) {
+        res.status(404).json({ success: false, error: 'Message is no longer waiting for approval' });
+        return;
+      }
+      res.json({ success: true });
+    });
   }
 
   async start(): Promise<void> {
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { ArgumentSpec, formatUsage, parseArguments, parseDuration } from './argumentParser';
+
+describe('parseDuration', () => {
+  it('reads bare numbers in the given unit', () => {
+    expect(parseDuration('90')).toBe(90);
+    expect(parseDuration('5', 'minutes')).toBe(300);
+  });
+
+  it('reads hour, minute and second suffixes', () => {
+    expect(parseDuration('10m')).toBe(600);
+    expect(parseDuration('1h30m')).toBe(5400);
+    expect(parseDuration('2H5S')).toBe(7205);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseDuration('')).toBeNull();
+    expect(parseDuration('10x')).toBeNull();
+    expect(parseDuration('m10')).toBeNull();
+  });
+});
+
+describe('formatUsage', () => {
+  it('marks optional arguments and prefixes usernames with @', () => {
+    const specs: ArgumentSpec[] = [
+      { name: 'username', type: 'username' },
+      { name: 'duration', type: 'duration', optional: true },
+      { name: 'voice', type: 'voice', label: 'voice name' }
+    ];
+    expect(formatUsage(specs)).toBe('<@username> [duration] <voice name>');
+  });
+});
+
+describe('parseArguments', () => {
+  const specs: ArgumentSpec[] = [
+    { name: 'username', type: 'username' },
+    { name: 'pitch', type: 'number', min: 0.5, max: 2, optional: true }
+  ];
+
+  it('parses usernames and numbers', () => {
+    const result = parseArguments(specs, ['@Alice_99', '1.5']);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.args.string('username')).toBe('alice_99');
+    expect(result.args.number('pitch')).toBe(1.5);
+  });
+
+  it('skips missing optional arguments', () => {
+    const result = parseArguments(specs, ['alice']);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.args.has('pitch')).toBe(false);
+    expect(result.args.number('pitch', 1)).toBe(1);
+  });
+
+  it('reports missing required arguments by label', () => {
+    expect(parseArguments(specs, [])).toEqual({ success: false, error: 'Missing username' });
+  });
+
+  it('reports values out of range', () => {
+    expect(parseArguments(specs, ['alice', '3'])).toEqual({
+      success: false,
+      error: 'Pitch must be a number between 0.5 and 2'
+    });
+  });
+
+  it('rejects non-integers for integer arguments', () => {
+    const result = parseArguments([{ name: 'count', type: 'integer', min: 1 }], ['1.5']);
+    expect(result).toEqual({ success: false, error: 'Count must be a whole number of at least 1' });
+  });
+
+  it('reports invalid durations with an example', () => {
+    const result = parseArguments([{ name: 'duration', type: 'duration', unit: 'minutes' }], ['soon']);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toBe('Duration must be a duration like 30 (minutes), 10m or 2h');
+  });
+
+  it('gives voice and text arguments the rest of the message', () => {
+    const result = parseArguments(
+      [{ name: 'username', type: 'username' }, { name: 'voice', type: 'voice' }],
+      ['alice', 'Microsoft', 'David', 'Desktop']
+    );
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.args.string('voice')).toBe('Microsoft David Desktop');
+  });
+});
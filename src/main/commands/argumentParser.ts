@@ -0,0 +1,159 @@
+// Command Argument Parser
+// Declarative argument specs shared by command parsing, usage strings and ~help
+
+export type ArgumentType = 'username' | 'integer' | 'number' | 'duration' | 'voice' | 'text';
+
+export interface ArgumentSpec {
+  name: string;
+  type: ArgumentType;
+  optional?: boolean;
+  min?: number;                     // integer/number: inclusive range; duration: in seconds
+  max?: number;
+  unit?: 'seconds' | 'minutes';     // duration: what a bare number means (default seconds)
+  label?: string;                   // Shown in usage instead of the name
+}
+
+export type ParseResult =
+  | { success: true; args: ParsedArguments }
+  | { success: false; error: string };
+
+const DURATION_PATTERN = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/;
+
+/**
+ * Parsed argument values, plus the raw words for commands that need them
+ */
+export class ParsedArguments {
+  constructor(
+    private values: Map<string, string | number>,
+    readonly raw: string[]
+  ) {}
+
+  has(name: string): boolean {
+    return this.values.has(name);
+  }
+
+  string(name: string): string {
+    const value = this.values.get(name);
+    return value === undefined ? '' : String(value);
+  }
+
+  /** Numbers, and durations in seconds */
+  number(name: string, fallback: number = 0): number {
+    const value = this.values.get(name);
+    return typeof value === 'number' ? value : fallback;
+  }
+}
+
+/**
+ * Build the usage string for a spec, e.g. "@username [duration]"
+ */
+export function formatUsage(specs: ArgumentSpec[]): string {
+  return specs.map(spec => {
+    const label = spec.label || (spec.type === 'username' ? `@${spec.name}` : spec.name);
+    return spec.optional ? `[${label}]` : `<${label}>`;
+  }).join(' ');
+}
+
+/**
+ * Parse a duration like "90", "10m", "2h" or "1h30m" into seconds
+ */
+export function parseDuration(value: string, unit: 'seconds' | 'minutes' = 'seconds'): number | null {
+  const text = value.toLowerCase();
+  if (/^\d+$/.test(text)) {
+    const amount = parseInt(text);
+    return unit === 'minutes' ? amount * 60 : amount;
+  }
+
+  const match = text.match(DURATION_PATTERN);
+  if (!match || !text) return null;
+  const [, hours, minutes, seconds] = match;
+  return (parseInt(hours || '0') * 3600) + (parseInt(minutes || '0') * 60) + parseInt(seconds || '0');
+}
+
+/**
+ * Parse raw chat arguments against a spec. Errors are short sentences without usage;
+ * the caller appends the usage line.
+ */
+export function parseArguments(specs: ArgumentSpec[], raw: string[]): ParseResult {
+  const values = new Map<string, string | number>();
+  let index = 0;
+
+  for (const spec of specs) {
+    // Voice names and free text take the rest of the message
+    const consumesRest = spec.type === 'voice' || spec.type === 'text';
+    const value = consumesRest ? raw.slice(index).join(' ').trim() : raw[index];
+
+    if (value === undefined || value === '') {
+      if (spec.optional) continue;
+      return { success: false, error: `Missing ${spec.label || spec.name}` };
+    }
+
+    const parsed = parseArgument(spec, value);
+    if ('error' in parsed) {
+      return { success: false, error: parsed.error };
+    }
+    values.set(spec.name, parsed.value);
+    index = consumesRest ? raw.length : index + 1;
+  }
+
+  return { success: true, args: new ParsedArguments(values, raw) };
+}
+
+/**
+ * Parse a single value against a spec
+ */
+export function parseArgument(spec: ArgumentSpec, value: string): { value: string | number } | { error: string } {
+  const label = spec.label || spec.name;
+
+  switch (spec.type) {
+    case 'username': {
+      const username = value.replace(/^@/, '').toLowerCase();
+      if (!/^[a-z0-9_]+$/.test(username)) {
+        return { error: `"${value}" is not a valid username` };
+      }
+      return { value: username };
+    }
+
+    case 'integer':
+    case 'number': {
+      const pattern = spec.type === 'integer' ? /^-?\d+$/ : /^-?\d+(\.\d+)?$|^-?\.\d+$/;
+      const number = pattern.test(value) ? parseFloat(value) : NaN;
+      const kind = spec.type === 'integer' ? 'a whole number' : 'a number';
+      if (isNaN(number) || !inRange(number, spec)) {
+        return { error: `${capitalize(label)} must be ${kind}${describeRange(spec)}` };
+      }
+      return { value: number };
+    }
+
+    case 'duration': {
+      const seconds = parseDuration(value, spec.unit);
+      if (seconds === null || !inRange(seconds, spec)) {
+        const example = spec.unit === 'minutes' ? '30 (minutes), 10m or 2h' : '30 (seconds), 10m or 2h';
+        return { error: `${capitalize(label)} must be a duration like ${example}${describeRange(spec, true)}` };
+      }
+      return { value: seconds };
+    }
+
+    case 'voice':
+    case 'text':
+      return { value };
+  }
+}
+
+function inRange(value: number, spec: ArgumentSpec): boolean {
+  if (spec.min !== undefined && value < spec.min) return false;
+  if (spec.max !== undefined && value > spec.max) return false;
+  return true;
+}
+
+function describeRange(spec: ArgumentSpec, asDuration: boolean = false): string {
+  const format = (value: number) => asDuration ? `${value}s` : String(value);
+  if (spec.min !== undefined && spec.max !== undefined) return ` between ${format(spec.min)} and ${format(spec.max)}`;
+  if (spec.min !== undefined) return ` of at least ${format(spec.min)}`;
+  if (spec.max !== undefined) return ` of at most ${format(spec.max)}`;
+  return '';
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
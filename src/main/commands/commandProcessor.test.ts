@@ -0,0 +1,551 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  settings: new Map<string, string>(),
+  preferences: new Map<string, Record<string, any>>(),
+  voices: [] as Record<string, any>[],
+  viewers: new Map<string, { id: string; username: string }>(),
+  lockedVoices: new Set<string>(),
+  writes: [] as { sql: string; args: unknown[] }[],
+  getStreamStartedAt: vi.fn(async () => null as string | null),
+  queue: { add: vi.fn(), clear: vi.fn(), skip: vi.fn(), pause: vi.fn(), resume: vi.fn(), replay: vi.fn(), getHistory: vi.fn(),
+    getQueue: vi.fn(), isPaused: vi.fn(), estimateWaitSeconds: vi.fn(), estimateDrainSeconds: vi.fn()
+  }
+}));
+
+vi.mock('../database/service', () => ({
+  DatabaseService: {
+    getSetting: vi.fn((key: string) => mocks.settings.get(key) ?? null),
+    setSetting: vi.fn((key: string, value: string) => { mocks.settings.set(key, value); }),
+    getVoicePreference: vi.fn((viewerId: string) => mocks.preferences.get(viewerId) ?? null),
+    deleteVoicePreference: vi.fn((viewerId: string) => mocks.preferences.delete(viewerId)),
+    getViewerByUsername: vi.fn((username: string) => mocks.viewers.get(username) ?? null),
+    isVoiceLocked: vi.fn((viewerId: string) => mocks.lockedVoices.has(viewerId)),
+    setVoiceLock: vi.fn((viewerId: string, locked: boolean) => {
+      if (locked) mocks.lockedVoices.add(viewerId);
+      else mocks.lockedVoices.delete(viewerId);
+    })
+  }
+}));
+vi.mock('../database/connection', () => ({
+  getDatabase: () => ({
+    prepare: fakeStatement,
+    transaction: (fn: (...args: any[]) => void) => fn
+  })
+}));
+vi.mock('../twitch/twitchApiService', () => ({
+  getTwitchApiService: () => ({ getStreamStartedAt: mocks.getStreamStartedAt })
+}));
+vi.mock('../tts/ttsQueue', () => ({
+  getTTSQueue: () => mocks.queue
+}));
+vi.mock('../api/apiServer', () => ({
+  getApiServer: () => ({ broadcast: vi.fn() })
+}));
+
+import { CommandProcessor, CommandContext } from './commandProcessor';
+import { CommandService, ChatCommandRow } from '../database/commandService';
+
+// Enough of better-sqlite3 for the handlers under test: reads come from the mocks, writes are recorded
+function fakeStatement(sql: string) {
+  return {
+    get: (key: string) => {
+      if (sql.includes('FROM viewer_voice_preferences')) return mocks.preferences.get(key);
+      if (sql.includes('FROM tts_voices')) {
+        return mocks.voices.find(voice => [voice.name, voice.voice_id].some(name => name.toLowerCase() === key.toLowerCase()));
+      }
+      return undefined;
+    },
+    all: () => [],
+    run: (...args: unknown[]) => {
+      if (sql.includes('INSERT OR IGNORE INTO viewer_voice_preferences')) {
+        const [viewerId, voiceId, provider] = args as string[];
+        if (mocks.preferences.has(viewerId)) return { changes: 0 };
+        mocks.preferences.set(viewerId, { voice_id: voiceId, provider, pitch: 1, speed: 1, volume: 1 });
+      }
+      mocks.writes.push({ sql, args });
+      return { changes: 1 };
+    }
+  };
+}
+
+function context(message: string, overrides: Partial<CommandContext> = {}): CommandContext {
+  return {
+    username: 'alice',
+    displayName: 'Alice',
+    viewerId: 'viewer-alice',
+    isModerator: false,
+    isBroadcaster: false,
+    isVip: false,
+    isSubscriber: false,
+    message,
+    channel: 'streamer',
+    ...overrides
+  };
+}
+
+let rows: ChatCommandRow[] = [];
+
+function commandRow(name: string, overrides: Partial<ChatCommandRow> = {}): void {
+  rows.push({
+    id: rows.length + 1,
+    command_name: name,
+    command_prefix: '~',
+    aliases: null,
+    description: null,
+    enabled: 1,
+    permission_level: 'viewer',
+    rate_limit_seconds: 0,
+    cooldown_mode: 'user',
+    response_mode: 'public',
+    custom_response: null,
+    usage_count: 0,
+    last_used_at: null,
+    created_at: '',
+    updated_at: '',
+    ...overrides
+  });
+}
+
+function customCommand(name: string, response: string, overrides: Partial<ChatCommandRow> = {}): void {
+  commandRow(name, { custom_response: response, ...overrides });
+}
+
+describe('CommandProcessor', () => {
+  let processor: CommandProcessor | undefined;
+  let insertUsage: ReturnType<typeof vi.fn>;
+
+  // Commands are read from chat_commands when the processor is created, on the first run
+  const run = (message: string, overrides: Partial<CommandContext> = {}) =>
+    (processor ??= new CommandProcessor()).processMessage(context(message, overrides));
+
+  beforeEach(() => {
+    processor = undefined;
+    mocks.settings.clear();
+    mocks.preferences.clear();
+    mocks.voices = [];
+    mocks.writes = [];
+    mocks.viewers.clear();
+    mocks.lockedVoices.clear();
+    rows = [];
+    Object.values(mocks.queue).forEach(fn => fn.mockReset());
+    mocks.queue.getHistory.mockReturnValue([]);
+    mocks.queue.getQueue.mockReturnValue([]);
+    mocks.queue.isPaused.mockReturnValue(false);
+    vi.spyOn(CommandService, 'getAllCommands').mockImplementation(() => rows);
+    insertUsage = vi.fn();
+    vi.spyOn(CommandService, 'insertUsage').mockImplementation(insertUsage);
+  });
+
+  afterEach(() => {
+    processor?.destroy();
+    vi.useRealTimers();
+  });
+
+  it('ignores messages without the command prefix and unknown commands', async () => {
+    expect(await run('hello there')).toBeNull();
+    expect(await run('~nosuchcommand')).toBeNull();
+  });
+
+  describe('routing', () => {
+    it('runs a command through any of its aliases', async () => {
+      commandRow('hello', { aliases: 'hi, Hey' });
+
+      expect((await run('~hey'))?.response).toBe('Hello, Alice! 👋');
+      expect((await run('~HI'))?.response).toBe('Hello, Alice! 👋');
+    });
+
+    it('gives canonical names precedence over another command\'s alias', async () => {
+      customCommand('hug', 'hugs all round', { aliases: 'hello' });
+
+      expect((await run('~hello'))?.response).toBe('Hello, Alice! 👋');
+    });
+
+    it('only answers to the command\'s own prefix', async () => {
+      commandRow('hello', { command_prefix: '!' });
+
+      expect(await run('~hello')).toBeNull();
+      expect((await run('!hello'))?.response).toBe('Hello, Alice! 👋');
+    });
+  });
+
+  describe('permissions', () => {
+    it('uses the permission level stored for a built-in command', async () => {
+      commandRow('hello', { permission_level: 'moderator' });
+
+      expect(await run('~hello')).toMatchObject({ success: false, error: expect.stringContaining('requires: moderator') });
+      expect((await run('~hello', { isModerator: true }))?.success).toBe(true);
+      expect((await run('~hello', { isBroadcaster: true }))?.success).toBe(true);
+    });
+
+    it('keeps broadcaster-only commands from moderators', async () => {
+      commandRow('hello', { permission_level: 'broadcaster' });
+
+      expect((await run('~hello', { isModerator: true }))?.success).toBe(false);
+    });
+
+    it('tags results with the command\'s response mode, successful or not', async () => {
+      commandRow('hello', { response_mode: 'whisper', permission_level: 'moderator' });
+
+      expect(await run('~hello')).toMatchObject({ success: false, responseMode: 'whisper' });
+      expect(await run('~hello', { isModerator: true })).toMatchObject({ success: true, responseMode: 'whisper' });
+    });
+
+    it('refuses commands switched off in chat_commands', async () => {
+      commandRow('hello', { enabled: 0 });
+
+      expect(await run('~hello')).toMatchObject({ success: false, error: 'Command is disabled' });
+    });
+  });
+
+  describe('cooldowns', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('holds a per-viewer cooldown for the command\'s rate limit', async () => {
+      commandRow('hello', { rate_limit_seconds: 30 });
+
+      expect((await run('~hello'))?.success).toBe(true);
+      expect(await run('~hello')).toMatchObject({ success: false, error: 'Command on cooldown. Wait 30 seconds.' });
+      expect((await run('~hello', { viewerId: 'viewer-bob' }))?.success).toBe(true);
+
+      vi.advanceTimersByTime(30_000);
+      expect((await run('~hello'))?.success).toBe(true);
+    });
+
+    it('shares a global cooldown between viewers', async () => {
+      commandRow('hello', { rate_limit_seconds: 30, cooldown_mode: 'global' });
+
+      await run('~hello');
+      vi.advanceTimersByTime(10_000);
+      expect((await run('~hello', { viewerId: 'viewer-bob' }))?.error).toBe('Command on cooldown. Wait 20 seconds.');
+    });
+
+    it('only starts the cooldown when the command succeeds', async () => {
+      commandRow('setvoicevolume', { rate_limit_seconds: 30 });
+      const error = 'Volume must be a number between 0.1 and 1. Usage: ~setvoicevolume <volume>';
+
+      expect(await run('~setvoicevolume 5')).toMatchObject({ success: false, error });
+      expect(await run('~setvoicevolume 5')).toMatchObject({ success: false, error });
+    });
+
+    it('lets moderators and the broadcaster skip the cooldown', async () => {
+      commandRow('hello', { rate_limit_seconds: 30, cooldown_mode: 'global' });
+
+      await run('~hello');
+      expect((await run('~hello', { isModerator: true }))?.success).toBe(true);
+      expect((await run('~hello', { isBroadcaster: true }))?.success).toBe(true);
+    });
+  });
+
+  describe('usage recording', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    const recorded = () => insertUsage.mock.calls.flatMap(([records]) => records);
+
+    it('writes the outcome of each run in one batch on the flush interval', async () => {
+      commandRow('hello', { rate_limit_seconds: 30 });
+      customCommand('secret', 'mods only', { permission_level: 'moderator' });
+      customCommand('off', 'never', { enabled: 0 });
+
+      await run('~hello');
+      await run('~hello');
+      await run('~secret');
+      await run('~off');
+      expect(insertUsage).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(5_000);
+      expect(insertUsage).toHaveBeenCalledTimes(1);
+      expect(recorded().map(record => [record.command_name, record.outcome])).toEqual([
+        ['hello', 'success'],
+        ['hello', 'cooldown'],
+        ['secret', 'permission_denied'],
+        ['off', 'disabled']
+      ]);
+      expect(recorded()[1]).toMatchObject({ viewer_id: 'viewer-alice', username: 'alice', error_message: 'Command on cooldown. Wait 30 seconds.' });
+    });
+
+    it('records failed runs as invalid and skips unknown commands', async () => {
+      customCommand('empty', '');
+      await run('~empty');
+      await run('~nosuchcommand');
+
+      processor!.destroy();
+      expect(recorded().map(record => record.outcome)).toEqual(['invalid']);
+    });
+
+    it('keeps going when a batch cannot be written', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      insertUsage.mockImplementationOnce(() => { throw new Error('database is locked'); });
+
+      await run('~hello');
+      vi.advanceTimersByTime(5_000);
+      await run('~hello');
+      vi.advanceTimersByTime(5_000);
+      expect(insertUsage).toHaveBeenCalledTimes(2);
+      expect(insertUsage.mock.calls[1][0]).toHaveLength(1);
+    });
+  });
+
+  describe('queue commands', () => {
+    const mod = { isModerator: true };
+
+    it('tells a viewer their place in the queue and roughly how long until it plays', async () => {
+      mocks.queue.getQueue.mockReturnValue([
+        { id: '1', viewerId: 'viewer-carol', status: 'playing' },
+        { id: '2', viewerId: 'viewer-bob', status: 'pending' },
+        { id: '3', viewerId: 'viewer-alice', status: 'pending' }
+      ]);
+      mocks.queue.estimateWaitSeconds.mockReturnValue(9);
+      mocks.queue.estimateDrainSeconds.mockReturnValue(12);
+
+      expect((await run('~queue'))?.response).toBe('@Alice Your message is #2 of 2, about 9s to wait');
+      expect(mocks.queue.estimateWaitSeconds).toHaveBeenCalledWith(2);
+      expect((await run('~queue', { viewerId: 'viewer-dave', displayName: 'Dave' }))?.response)
+        .toBe('@Dave You have no messages queued. 2 waiting, about 12s to clear');
+    });
+
+    it('mentions when the queue is paused', async () => {
+      mocks.queue.isPaused.mockReturnValue(true);
+
+      expect((await run('~queue'))?.response).toBe('@Alice The TTS queue is empty (TTS is paused)');
+    });
+
+    it('refuses playback commands that would do nothing', async () => {
+      expect(await run('~skip', mod)).toMatchObject({ success: false, error: 'Nothing is being read right now' });
+      expect(await run('~resume', mod)).toMatchObject({ success: false, error: 'TTS is not paused' });
+      expect(await run('~replay', mod)).toMatchObject({ success: false, error: 'No messages to replay' });
+
+      mocks.queue.isPaused.mockReturnValue(true);
+      expect(await run('~pause', mod)).toMatchObject({ success: false, error: 'TTS is already paused' });
+    });
+
+    it('checks the replay count', async () => {
+      mocks.queue.getHistory.mockReturnValue([{ id: '1' }, { id: '2' }, { id: '3' }]);
+
+      const error = 'Count must be a whole number between 1 and 5. Usage: ~replay [count]';
+      expect(await run('~replay 6', mod)).toMatchObject({ success: false, error });
+      expect(await run('~replay two', mod)).toMatchObject({ success: false, error });
+    });
+
+    it('keeps playback control to moderators', async () => {
+      expect((await run('~skip'))?.error).toContain('requires: moderator');
+    });
+
+    it('controls the TTS queue', async () => {
+      mocks.queue.getQueue.mockReturnValue([{ id: '1', viewerId: 'viewer-bob', status: 'playing' }]);
+      mocks.queue.getHistory.mockReturnValue([{ id: '1' }, { id: '2' }, { id: '3' }, { id: '4' }]);
+
+      await run('~skip', mod);
+      await run('~pause', mod);
+      await run('~replay 2', mod);
+      await run('~clearqueue', mod);
+
+      expect(mocks.queue.skip).toHaveBeenCalled();
+      expect(mocks.queue.pause).toHaveBeenCalled();
+      expect(mocks.queue.replay).toHaveBeenCalledWith(2);
+      expect(mocks.queue.clear).toHaveBeenCalled();
+    });
+
+    it('lists the last spoken messages, newest first', async () => {
+      expect(await run('~history', mod)).toMatchObject({ success: false, error: 'No messages have been spoken yet' });
+
+      mocks.queue.getHistory.mockReturnValue([
+        { id: '1', username: 'bob', text: 'bob said first', body: 'first' },
+        { id: '2', username: 'carol', text: 'second' },
+        { id: '3', username: 'dave', text: 'x'.repeat(70) }
+      ]);
+      expect((await run('~history 2', mod))?.response)
+        .toBe(`Last spoken: 1. dave: ${'x'.repeat(60)}… | 2. carol: second`);
+    });
+  });
+
+  describe('voice commands', () => {
+    beforeEach(() => {
+      mocks.voices = [
+        { voice_id: 'en-GB-Standard-A', name: 'Amelia', provider: 'google', is_available: 1 },
+        { voice_id: 'Brian', name: 'Brian', provider: 'webspeech', is_available: 1 }
+      ];
+      mocks.settings.set('tts_default_voice', 'Brian');
+    });
+
+    it('shows the channel default when the viewer has no voice of their own', async () => {
+      expect((await run('~myvoice'))?.response)
+        .toBe('@Alice You\'re using the channel default voice (Brian). Use ~setvoice <name> to pick your own.');
+    });
+
+    it('shows the viewer\'s voice and prosody', async () => {
+      mocks.preferences.set('viewer-alice', { voice_id: 'en-GB-Standard-A', provider: 'google', pitch: 1.2, speed: 0.9, volume: 0.5 });
+
+      expect((await run('~myvoice'))?.response)
+        .toBe('@Alice Voice: Amelia (google) | Pitch: 1.2 | Speed: 0.9x | Volume: 50%');
+    });
+
+    it('checks the volume range before saving', async () => {
+      expect(await run('~setvoicevolume 1.5')).toMatchObject({ success: false, error: 'Volume must be a number between 0.1 and 1. Usage: ~setvoicevolume <volume>' });
+      expect(await run('~setvoicevolume', { viewerId: 'viewer-bob' })).toMatchObject({ success: false, error: 'Missing volume. Usage: ~setvoicevolume <volume>' });
+      expect(mocks.writes).toEqual([]);
+    });
+
+    it('updates the volume of an existing preference', async () => {
+      mocks.preferences.set('viewer-alice', { voice_id: 'Brian', provider: 'webspeech', pitch: 1, speed: 1, volume: 1 });
+
+      expect((await run('~setvoicevolume 0.4'))?.response).toBe('@Alice Voice volume set to: 40%');
+      expect(mocks.writes).toHaveLength(1);
+      expect(mocks.writes[0].sql).toContain('UPDATE viewer_voice_preferences');
+      expect(mocks.writes[0].args).toEqual([0.4, 'viewer-alice']);
+    });
+
+    it('starts a new preference on the default voice and its provider', async () => {
+      mocks.settings.set('tts_default_voice', 'en-GB-Standard-A');
+
+      expect((await run('~setvoicespeed 1.5'))?.response).toBe('@Alice Voice speed set to: 1.5x');
+      expect(mocks.writes.map(write => write.args)).toEqual([
+        ['viewer-alice', 'en-GB-Standard-A', 'google'],
+        [1.5, 'viewer-alice']
+      ]);
+    });
+
+    it('resets to the channel default only when the viewer has a voice', async () => {
+      mocks.preferences.set('viewer-alice', { voice_id: 'Brian', provider: 'webspeech' });
+
+      expect((await run('~resetvoice'))?.response).toBe('@Alice Voice reset to the channel default');
+      expect(await run('~resetvoice', { viewerId: 'viewer-bob' }))
+        .toMatchObject({ success: false, error: 'You are already using the channel default voice' });
+    });
+
+    it('only previews voices the channel can play', async () => {
+      expect((await run('~previewvoice Nobody'))?.error).toBe('Voice "nobody" not found. Use ~voices to see available voices.');
+      expect(await run('~previewvoice amelia', { viewerId: 'viewer-bob' }))
+        .toMatchObject({ success: false, error: 'Amelia is not available on this channel' });
+
+      mocks.settings.set('tts_enabled', 'false');
+      expect(await run('~previewvoice brian', { viewerId: 'viewer-carol' }))
+        .toMatchObject({ success: false, error: 'TTS is currently muted' });
+    });
+  });
+
+  describe('moderator voice commands', () => {
+    const mod = { isModerator: true, username: 'modname' };
+
+    beforeEach(() => {
+      mocks.voices = [{ voice_id: 'en-GB-Standard-A', name: 'Amelia', provider: 'google', is_available: 1 }];
+      mocks.viewers.set('bob', { id: 'viewer-bob', username: 'bob' });
+    });
+
+    it('sets another viewer\'s voice and prosody', async () => {
+      const result = await run('~setvoicefor @Bob amelia pitch=1.5 volume=0.5', mod);
+
+      expect(result?.response).toBe('@bob TTS updated by a moderator: voice Amelia, pitch 1.5, volume 50%');
+      const update = mocks.writes.find(write => write.sql.includes('UPDATE viewer_voice_preferences'));
+      expect(update?.args).toEqual(['en-GB-Standard-A', 'google', 1.5, null, 0.5, 'viewer-bob']);
+    });
+
+    it('checks the target and the prosody values', async () => {
+      expect(await run('~setvoicefor @nobody amelia', mod)).toMatchObject({ success: false, error: 'User nobody not found' });
+      expect(await run('~setvoicefor @bob speed=3', mod)).toMatchObject({ success: false, error: 'Speed must be a number between 0.5 and 2' });
+      expect((await run('~setvoicefor @bob', mod))?.error).toContain('Usage: ~setvoicefor @username');
+      expect(mocks.writes).toEqual([]);
+    });
+
+    it('stops a locked viewer changing their own voice until unlocked', async () => {
+      mocks.viewers.set('alice', { id: 'viewer-alice', username: 'alice' });
+      mocks.preferences.set('viewer-alice', { voice_id: 'Brian', provider: 'webspeech' });
+
+      expect((await run('~lockvoice @alice', mod))?.response).toBe('@alice TTS voice has been locked by a moderator');
+      expect(await run('~setvoicevolume 0.5')).toMatchObject({ success: false, error: 'Your voice has been locked by a moderator' });
+      expect(await run('~resetvoice', { viewerId: 'viewer-alice' }))
+        .toMatchObject({ success: false, error: 'Your voice has been locked by a moderator' });
+
+      expect((await run('~unlockvoice @alice', mod))?.response).toBe('@alice TTS voice has been unlocked');
+      expect(await run('~unlockvoice @alice', mod)).toMatchObject({ success: false, error: 'alice\'s voice is not locked' });
+    });
+
+    it('keeps the lock when resetting a locked viewer', async () => {
+      mocks.preferences.set('viewer-bob', { voice_id: 'en-GB-Standard-A', provider: 'google' });
+      mocks.lockedVoices.add('viewer-bob');
+
+      await run('~resetvoicefor @bob', mod);
+      expect(mocks.preferences.has('viewer-bob')).toBe(true);
+      expect(mocks.writes.at(-1)?.sql).toContain('UPDATE viewer_voice_preferences');
+
+      mocks.lockedVoices.clear();
+      await run('~resetvoicefor @bob', mod);
+      expect(mocks.preferences.has('viewer-bob')).toBe(false);
+    });
+
+    it('is for moderators only', async () => {
+      expect((await run('~lockvoice @bob'))?.error).toContain('requires: moderator');
+    });
+  });
+
+  describe('help', () => {
+    it('lists only the enabled commands the viewer may use', async () => {
+      commandRow('hello', { enabled: 0 });
+
+      const response = (await run('~help'))?.response || '';
+      expect(response).toMatch(/^@Alice Commands: .*~setvoice,.* \| ~help <command> for details$/);
+      expect(response).not.toContain('~hello');
+      expect(response).not.toContain('~skip');
+      expect((await run('~help', { isModerator: true, viewerId: 'viewer-mod' }))?.response).toContain('~skip');
+    });
+
+    it('shows one command\'s usage, found by name, trigger or alias', async () => {
+      commandRow('setvoice', { aliases: 'voice' });
+
+      const expected = '@Alice ~setvoice <voice_name> (also ~voice) - Set your TTS voice (case-insensitive)';
+      expect((await run('~help setvoice'))?.response).toBe(expected);
+      expect((await run('~help ~voice', { viewerId: 'viewer-bob', displayName: 'Alice' }))?.response).toBe(expected);
+    });
+
+    it('does not describe commands the viewer cannot use', async () => {
+      expect(await run('~help skip')).toMatchObject({
+        success: false,
+        error: 'Unknown command "skip". Use ~help to list commands.'
+      });
+    });
+  });
+
+  describe('custom commands', () => {
+    it('renders the response template with the caller, arguments and use count', async () => {
+      customCommand('hug', '{user} hugs {arg1}! ({count} hugs so far)', { usage_count: 6 });
+
+      const result = await run('~HUG bob');
+      expect(result).toMatchObject({ success: true, response: 'Alice hugs bob! (7 hugs so far)' });
+      expect((await run('~hug carol'))?.response).toBe('Alice hugs carol! (8 hugs so far)');
+    });
+
+    it('fills {uptime} from the stream start time', async () => {
+      customCommand('uptime', 'Live for {uptime}');
+      mocks.getStreamStartedAt.mockResolvedValueOnce(new Date(Date.now() - 90 * 60_000).toISOString());
+
+      const result = await run('~uptime');
+      expect(result?.response).toBe('Live for 1h 30m');
+    });
+
+    it('lets built-in commands take precedence over a custom command of the same name', async () => {
+      customCommand('hello', 'custom hello');
+
+      const result = await run('~hello');
+      expect(result?.response).toBe('Hello, Alice! 👋');
+    });
+
+    it('refuses disabled custom commands', async () => {
+      customCommand('hug', '{user} hugs {arg1}', { enabled: 0 });
+
+      const result = await run('~hug bob');
+      expect(result).toMatchObject({ success: false, error: 'Command is disabled' });
+    });
+
+    it('checks the command permission level', async () => {
+      customCommand('secret', 'mods only', { permission_level: 'moderator' });
+
+      expect((await run('~secret'))?.success).toBe(false);
+      expect(await run('~secret', { isModerator: true }))
+        .toMatchObject({ success: true, response: 'mods only' });
+    });
+  });
+});
@@ -4,6 +4,15 @@
 import { DatabaseService } from '../database/service';
 import { getDatabase } from '../database/connection';
 import { getApiServer } from '../api/apiServer';
+import {
+  CommandService, ChatCommandRow, CommandPermission, CommandOutcome, CommandUsageRecord, ResponseMode,
+  DEFAULT_COMMAND_PREFIX
+} from '../database/commandService';
+import { getTwitchApiService } from '../twitch/twitchApiService';
+import { getTTSQueue } from '../tts/ttsQueue';
+import { CooldownTracker, CooldownMode } from './cooldownTracker';
+import { getTemplatePlaceholders, renderTemplate, formatDuration, TemplateValues } from './responseTemplate';
+import { ArgumentSpec, ParsedArguments, formatUsage, parseArguments, parseArgument } from './argumentParser';
 
 export interface CommandContext {
   username: string;
@@ -21,6 +30,7 @@ export interface CommandResult {
   success: boolean;
   response?: string;
   error?: string;
+  responseMode?: ResponseMode; // How the command's row says to deliver the reply
 }
 
 interface TTSVoiceRow {
@@ -37,16 +47,65 @@ interface TTSVoiceRow {
   created_at: string;
 }
 
+export interface CommandInfo {
+  name: string;
+  prefix: string;
+  aliases: string[];
+  permission: CommandPermission;
+  rateLimit: number; // seconds
+  cooldownMode: CooldownMode;
+  responseMode: ResponseMode;
+  enabled: boolean;
+  description: string;
+  usage: string; // Arguments only, e.g. "<voice_name>"
+  isCustom: boolean;
+  customResponse?: string;
+  usageCount: number;
+}
+
+interface ResolvedCommand extends CommandInfo {
+  args: ArgumentSpec[];
+  handler: (context: CommandContext, args: ParsedArguments) => Promise<CommandResult>;
+}
+
+const USAGE_FLUSH_INTERVAL_MS = 5000;
+const MAX_REPLAY_COUNT = 5;
+const HISTORY_PREVIEW_LENGTH = 60; // Characters of each message ~history shows
+const MAX_SPOKEN_NAME_LENGTH = 30;
+const SPOKEN_NAME_PATTERN = /^[\p{L}\p{N} .'-]+$/u;
+const VOICE_LOCKED_ERROR = 'Your voice has been locked by a moderator';
+const MAX_HELP_LENGTH = 450; // Twitch messages are capped at 500 characters
+
+// Argument specs shared by several commands
+const USERNAME_ARG: ArgumentSpec = { name: 'username', type: 'username' };
+const VOICE_ARG: ArgumentSpec = { name: 'voice_name', type: 'voice' };
+const PITCH_ARG: ArgumentSpec = { name: 'pitch', type: 'number', min: 0, max: 2 };
+const SPEED_ARG: ArgumentSpec = { name: 'speed', type: 'number', min: 0.5, max: 2 };
+const VOLUME_ARG: ArgumentSpec = { name: 'volume', type: 'number', min: 0.1, max: 1 };
+
 export class CommandProcessor {
   private commands: Map<string, CommandHandler> = new Map();
-  private commandPrefix = '~';
+  private registry: ResolvedCommand[] = [];
+  private triggers: Map<string, ResolvedCommand> = new Map(); // "<prefix><name or alias>" -> command
+  private prefixes: string[] = [DEFAULT_COMMAND_PREFIX];
+  private cooldowns: CooldownTracker;
+  private usageQueue: CommandUsageRecord[] = [];
+  private usageFlushInterval: NodeJS.Timeout | null = null;
 
   constructor() {
+    this.cooldowns = new CooldownTracker(DatabaseService.getSetting('command_cooldowns_persist') !== 'false');
     this.registerCommands();
+    this.reloadCommands();
+
+    // Batch command_usage writes instead of one insert per command
+    this.usageFlushInterval = setInterval(() => {
+      this.flushUsage();
+    }, USAGE_FLUSH_INTERVAL_MS);
   }
 
   /**
-   * Register all available commands
+   * Register all built-in command handlers.
+   * Permission and rate limit here are fallbacks; chat_commands rows take precedence.
    */
   private registerCommands(): void {
     // Viewer commands
@@ -54,91 +113,340 @@ export class CommandProcessor {
       name: 'hello',
       permission: 'viewer',
       handler: this.handleHello.bind(this),
-      rateLimit: 5
+      rateLimit: 5,
+      description: 'Greet the user',
+      args: []
     });
 
     this.commands.set('voices', {
       name: 'voices',
       permission: 'viewer',
       handler: this.handleVoices.bind(this),
-      rateLimit: 10
+      rateLimit: 10,
+      description: 'Show available TTS voices',
+      args: []
     });
 
     this.commands.set('setvoice', {
       name: 'setvoice',
       permission: 'viewer',
       handler: this.handleSetVoice.bind(this),
-      rateLimit: 5
+      rateLimit: 5,
+      description: 'Set your TTS voice (case-insensitive)',
+      args: [VOICE_ARG]
     });
 
     this.commands.set('setvoicepitch', {
       name: 'setvoicepitch',
       permission: 'viewer',
       handler: this.handleSetVoicePitch.bind(this),
-      rateLimit: 5
+      rateLimit: 5,
+      description: 'Set your voice pitch',
+      args: [PITCH_ARG]
     });
 
     this.commands.set('setvoicespeed', {
       name: 'setvoicespeed',
       permission: 'viewer',
       handler: this.handleSetVoiceSpeed.bind(this),
-      rateLimit: 5
+      rateLimit: 5,
+      description: 'Set your voice speed',
+      args: [SPEED_ARG]
+    });
+
+    this.commands.set('setvoicevolume', {
+      name: 'setvoicevolume',
+      permission: 'viewer',
+      handler: this.handleSetVoiceVolume.bind(this),
+      rateLimit: 5,
+      description: 'Set your voice volume',
+      args: [VOLUME_ARG]
+    });
+
+    this.commands.set('myvoice', {
+      name: 'myvoice',
+      permission: 'viewer',
+      handler: this.handleMyVoice.bind(this),
+      rateLimit: 5,
+      description: 'Show your current voice settings',
+      args: []
+    });
+
+    this.commands.set('resetvoice', {
+      name: 'resetvoice',
+      permission: 'viewer',
+      handler: this.handleResetVoice.bind(this),
+      rateLimit: 5,
+      description: 'Go back to the channel default voice',
+      args: []
+    });
+
+    this.commands.set('sayname', {
+      name: 'sayname',
+      permission: 'viewer',
+      handler: this.handleSayName.bind(this),
+      rateLimit: 10,
+      description: 'Set how TTS says your name (no name to reset)',
+      args: [{ name: 'name', type: 'text', optional: true }]
+    });
+
+    this.commands.set('previewvoice', {
+      name: 'previewvoice',
+      permission: 'viewer',
+      handler: this.handlePreviewVoice.bind(this),
+      rateLimit: 30,
+      description: 'Hear a voice without switching to it',
+      args: [VOICE_ARG]
     });
 
     // Moderator commands
+    this.commands.set('setvoicefor', {
+      name: 'setvoicefor',
+      permission: 'moderator',
+      handler: this.handleSetVoiceFor.bind(this),
+      rateLimit: 0,
+      description: 'Set another viewer\'s voice and prosody',
+      args: [USERNAME_ARG, { name: 'settings', type: 'text' }],
+      usage: '@username [voice_name] [pitch=<0 to 2>] [speed=<0.5 to 2.0>] [volume=<0.1 to 1.0>]'
+    });
+
+    this.commands.set('resetvoicefor', {
+      name: 'resetvoicefor',
+      permission: 'moderator',
+      handler: this.handleResetVoiceFor.bind(this),
+      rateLimit: 0,
+      description: 'Reset another viewer to the channel default voice',
+      args: [USERNAME_ARG]
+    });
+
+    this.commands.set('lockvoice', {
+      name: 'lockvoice',
+      permission: 'moderator',
+      handler: this.handleLockVoice.bind(this),
+      rateLimit: 0,
+      description: 'Stop a viewer from changing their voice',
+      args: [USERNAME_ARG]
+    });
+
+    this.commands.set('unlockvoice', {
+      name: 'unlockvoice',
+      permission: 'moderator',
+      handler: this.handleUnlockVoice.bind(this),
+      rateLimit: 0,
+      description: 'Let a viewer change their voice again',
+      args: [USERNAME_ARG]
+    });
+
     this.commands.set('mutevoice', {
       name: 'mutevoice',
       permission: 'moderator',
       handler: this.handleMuteVoice.bind(this),
-      rateLimit: 0
+      rateLimit: 0,
+      description: 'Mute a user from TTS',
+      args: [USERNAME_ARG, { name: 'duration', type: 'duration', unit: 'minutes', optional: true }]
     });
 
     this.commands.set('unmutevoice', {
       name: 'unmutevoice',
       permission: 'moderator',
       handler: this.handleUnmuteVoice.bind(this),
-      rateLimit: 0
+      rateLimit: 0,
+      description: 'Unmute a user from TTS',
+      args: [USERNAME_ARG]
     });
 
     this.commands.set('cooldownvoice', {
       name: 'cooldownvoice',
       permission: 'moderator',
       handler: this.handleCooldownVoice.bind(this),
-      rateLimit: 0
+      rateLimit: 0,
+      description: 'Apply TTS cooldown to a user',
+      args: [
+        USERNAME_ARG,
+        { name: 'gap', type: 'duration', min: 1 },
+        { name: 'duration', type: 'duration', unit: 'minutes', optional: true }
+      ]
     });
 
     this.commands.set('uncooldownvoice', {
       name: 'uncooldownvoice',
       permission: 'moderator',
       handler: this.handleUncooldownVoice.bind(this),
-      rateLimit: 0
-    });
-    this.commands.set('uncooldownvoice', {
-      name: 'uncooldownvoice',
-      permission: 'moderator',
-      handler: this.handleUncooldownVoice.bind(this),
-      rateLimit: 0
+      rateLimit: 0,
+      description: 'Remove TTS cooldown from a user',
+      args: [USERNAME_ARG]
     });
+
     this.commands.set('mutetts', {
       name: 'mutetts',
       permission: 'moderator',
       handler: this.handleMuteTTS.bind(this),
-      rateLimit: 0
+      rateLimit: 0,
+      description: 'Disable all TTS globally',
+      args: []
     });
 
     this.commands.set('unmutetts', {
       name: 'unmutetts',
       permission: 'moderator',
       handler: this.handleUnmuteTTS.bind(this),
-      rateLimit: 0
+      rateLimit: 0,
+      description: 'Enable all TTS globally',
+      args: []
     });
 
     this.commands.set('clearqueue', {
       name: 'clearqueue',
       permission: 'moderator',
       handler: this.handleClearQueue.bind(this),
-      rateLimit: 0
+      rateLimit: 0,
+      description: 'Clear the TTS queue',
+      args: []
+    });
+
+    this.commands.set('skip', {
+      name: 'skip',
+      permission: 'moderator',
+      handler: this.handleSkip.bind(this),
+      rateLimit: 0,
+      description: 'Skip the message currently being read',
+      args: []
+    });
+
+    this.commands.set('pause', {
+      name: 'pause',
+      permission: 'moderator',
+      handler: this.handlePause.bind(this),
+      rateLimit: 0,
+      description: 'Pause TTS playback',
+      args: []
+    });
+
+    this.commands.set('resume', {
+      name: 'resume',
+      permission: 'moderator',
+      handler: this.handleResume.bind(this),
+      rateLimit: 0,
+      description: 'Resume TTS playback',
+      args: []
     });
+
+    this.commands.set('replay', {
+      name: 'replay',
+      permission: 'moderator',
+      handler: this.handleReplay.bind(this),
+      rateLimit: 0,
+      description: 'Replay the last spoken messages',
+      args: [{ name: 'count', type: 'integer', min: 1, max: MAX_REPLAY_COUNT, optional: true }]
+    });
+
+    this.commands.set('history', {
+      name: 'history',
+      permission: 'moderator',
+      handler: this.handleHistory.bind(this),
+      rateLimit: 0,
+      description: 'List the last spoken messages',
+      args: [{ name: 'count', type: 'integer', min: 1, max: MAX_REPLAY_COUNT, optional: true }]
+    });
+
+    this.commands.set('queue', {
+      name: 'queue',
+      permission: 'viewer',
+      handler: this.handleQueue.bind(this),
+      rateLimit: 10,
+      description: 'Show your position in the TTS queue',
+      args: []
+    });
+
+    this.commands.set('help', {
+      name: 'help',
+      permission: 'viewer',
+      handler: this.handleHelp.bind(this),
+      rateLimit: 5,
+      description: 'List the commands you can use, or show how to use one',
+      args: [{ name: 'command', type: 'text', optional: true }]
+    });
+  }
+
+  /**
+   * Rebuild the command registry from chat_commands.
+   * Call after any change to prefixes, aliases, permissions or custom commands.
+   */
+  reloadCommands(): void {
+    // Write pending usage first so usage counts below are current
+    this.flushUsage();
+
+    const rows = CommandService.getAllCommands();
+    const rowsByName = new Map(rows.map(row => [row.command_name, row]));
+    const registry: ResolvedCommand[] = [];
+
+    for (const builtIn of this.commands.values()) {
+      const row = rowsByName.get(builtIn.name);
+      registry.push({
+        name: builtIn.name,
+        prefix: row?.command_prefix || DEFAULT_COMMAND_PREFIX,
+        aliases: CommandService.parseAliases(row?.aliases ?? null),
+        permission: row?.permission_level || builtIn.permission,
+        rateLimit: row ? row.rate_limit_seconds || 0 : builtIn.rateLimit,
+        cooldownMode: row?.cooldown_mode || 'user',
+        responseMode: row?.response_mode || 'public',
+        enabled: row ? row.enabled === 1 : true,
+        description: builtIn.description,
+        usage: builtIn.usage || formatUsage(builtIn.args),
+        args: builtIn.args,
+        isCustom: false,
+        usageCount: row?.usage_count || 0,
+        handler: builtIn.handler
+      });
+    }
+
+    for (const row of rows) {
+      if (row.custom_response === null || this.commands.has(row.command_name)) continue;
+      registry.push({
+        name: row.command_name,
+        prefix: row.command_prefix || DEFAULT_COMMAND_PREFIX,
+        aliases: CommandService.parseAliases(row.aliases),
+        permission: row.permission_level,
+        rateLimit: row.rate_limit_seconds || 0,
+        cooldownMode: row.cooldown_mode || 'user',
+        responseMode: row.response_mode || 'public',
+        enabled: row.enabled === 1,
+        description: row.description || '',
+        usage: '',
+        args: [],
+        isCustom: true,
+        customResponse: row.custom_response,
+        usageCount: row.usage_count || 0,
+        handler: (context, args) => this.handleCustomCommand(row, context, args)
+      });
+    }
+
+    // Canonical names win over aliases when both claim the same trigger
+    const triggers = new Map<string, ResolvedCommand>();
+    for (const command of registry) {
+      triggers.set(command.prefix + command.name, command);
+    }
+    for (const command of registry) {
+      for (const alias of command.aliases) {
+        const trigger = command.prefix + alias;
+        if (!triggers.has(trigger)) {
+          triggers.set(trigger, command);
+        }
+      }
+    }
+
+    this.registry = registry;
+    this.triggers = triggers;
+    // Longest first so "!!" is matched before "!"
+    this.prefixes = Array.from(new Set(registry.map(c => c.prefix))).sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Check whether a chat message uses any configured command prefix
+   */
+  isCommandMessage(message: string): boolean {
+    const trimmed = message.trim();
+    return this.prefixes.some(prefix => trimmed.startsWith(prefix));
   }
 
   /**
@@ -147,73 +455,178 @@ export class CommandProcessor {
   async processMessage(context: CommandContext): Promise<CommandResult | null> {
     const message = context.message.trim();
     
-    // Check if message starts with command prefix
-    if (!message.startsWith(this.commandPrefix)) {
+    // Check if message starts with a command prefix
+    if (!this.isCommandMessage(message)) {
       return null; // Not a command
     }
 
-    // Parse command and arguments
-    const parts = message.slice(1).split(/\s+/);
-    const commandName = parts[0].toLowerCase();
+    // Parse command trigger (prefix + name or alias) and arguments
+    const parts = message.split(/\s+/);
+    const trigger = parts[0].toLowerCase();
     const args = parts.slice(1);
 
     // Get command handler
-    const command = this.commands.get(commandName);
+    const command = this.triggers.get(trigger);
     if (!command) {
       return null; // Unknown command
     }
+    const commandName = command.name;
 
     // Check if command is enabled
-    const enabled = await DatabaseService.getSetting(`command_${commandName}_enabled`);
-    if (enabled === 'false') {
-      return { success: false, error: 'Command is disabled' };
+    if (!command.enabled) {
+      return this.recordOutcome(command, context, 'disabled', { success: false, error: 'Command is disabled' });
     }
 
     // Check permissions
     if (!this.hasPermission(context, command.permission)) {
-      return { 
+      return this.recordOutcome(command, context, 'permission_denied', { 
         success: false, 
         error: `You don't have permission to use this command (requires: ${command.permission})` 
-      };
+      });
     }
 
-    // Check rate limit
+    // Check rate limit (moderators and the broadcaster are exempt)
     if (command.rateLimit > 0 && !context.isModerator && !context.isBroadcaster) {
-      const lastUsed = await DatabaseService.getSetting(`command_${commandName}_lastused_${context.viewerId}`);
-      if (lastUsed) {
-        const timeSince = Date.now() - new Date(lastUsed).getTime();
-        if (timeSince < command.rateLimit * 1000) {
-          const remaining = Math.ceil((command.rateLimit * 1000 - timeSince) / 1000);
-          return { 
-            success: false, 
-            error: `Command on cooldown. Wait ${remaining} seconds.` 
-          };
-        }
+      const remaining = this.cooldowns.getRemainingSeconds(
+        commandName, context.viewerId, command.rateLimit, command.cooldownMode
+      );
+      if (remaining > 0) {
+        return this.recordOutcome(command, context, 'cooldown', { 
+          success: false, 
+          error: `Command on cooldown. Wait ${remaining} seconds.` 
+        });
       }
     }
 
+    // Parse arguments against the command's spec
+    const parsed = parseArguments(command.args, args);
+    if (!parsed.success) {
+      return this.recordOutcome(command, context, 'invalid', {
+        success: false,
+        error: `${parsed.error}. Usage: ${this.formatUsageLine(command)}`
+      });
+    }
+
     // Execute command
     try {
-      const result = await command.handler(context, args);
+      const result = await command.handler(context, parsed.args);
       
-      // Update last used timestamp
-      if (command.rateLimit > 0) {
-        await DatabaseService.setSetting(
-          `command_${commandName}_lastused_${context.viewerId}`, 
-          new Date().toISOString()
-        );
+      // Only a successful run starts the cooldown, so a typo can be corrected straight away
+      if (result.success) {
+        if (command.rateLimit > 0) {
+          this.cooldowns.record(commandName, context.viewerId, command.cooldownMode);
+        }
+        command.usageCount++;
       }
-
-      return result;
+      return this.recordOutcome(command, context, result.success ? 'success' : 'invalid', result);
     } catch (error) {
       console.error(`Command ${commandName} error:`, error);
-      return { 
+      return this.recordOutcome(command, context, 'error', { 
         success: false, 
         error: error instanceof Error ? error.message : 'Command failed' 
-      };
+      });
+    }
+  }
+
+  /**
+   * Queue a command_usage record and tag the result with the command's response mode
+   */
+  private recordOutcome(
+    command: ResolvedCommand,
+    context: CommandContext,
+    outcome: CommandOutcome,
+    result: CommandResult
+  ): CommandResult {
+    this.usageQueue.push({
+      command_name: command.name,
+      viewer_id: context.viewerId,
+      username: context.username,
+      outcome,
+      error_message: result.success ? undefined : result.error,
+      timestamp: new Date().toISOString()
+    });
+    return { ...result, responseMode: command.responseMode };
+  }
+
+  /**
+   * Write queued command_usage records to the database
+   */
+  flushUsage(): void {
+    if (this.usageQueue.length === 0) return;
+
+    const records = [...this.usageQueue];
+    this.usageQueue = [];
+
+    try {
+      CommandService.insertUsage(records);
+    } catch (error) {
+      console.error('Failed to flush command usage:', error);
     }
   }
 
+  /**
+   * Enable or disable persisting cooldowns across restarts
+   */
+  setCooldownPersistence(persistent: boolean): void {
+    this.cooldowns.setPersistent(persistent);
+  }
+
+  /**
+   * Flush pending cooldowns and usage, and stop timers
+   */
+  destroy(): void {
+    this.flushUsage();
+    if (this.usageFlushInterval) {
+      clearInterval(this.usageFlushInterval);
+      this.usageFlushInterval = null;
+    }
+    this.cooldowns.destroy();
+  }
+
+  /**
+   * Get all commands with their effective settings (for the Commands page)
+   */
+  getCommandList(): CommandInfo[] {
+    return this.registry.map(({ handler, args, ...info }) => ({ ...info, aliases: [...info.aliases] }));
+  }
+
+  /**
+   * Check if a name belongs to a built-in command
+   */
+  isBuiltInCommand(commandName: string): boolean {
+    return this.commands.has(commandName.toLowerCase());
+  }
+
+  /**
+   * Find another command that already answers to one of the given triggers.
+   * Returns that command's name, or null if there is no conflict.
+   */
+  findTriggerConflict(commandName: string, prefix: string, names: string[]): string | null {
+    for (const name of names) {
+      const owner = this.triggers.get(prefix + name.toLowerCase());
+      if (owner && owner.name !== commandName.toLowerCase()) {
+        return owner.name;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Format a command with its arguments, e.g. "~setvoice <voice_name>"
+   */
+  private formatUsageLine(command: CommandInfo): string {
+    const trigger = command.prefix + command.name;
+    return command.usage ? `${trigger} ${command.usage}` : trigger;
+  }
+
+  /**
+   * Format a command as it is typed in chat, e.g. "~setvoice"
+   */
+  private formatCommand(commandName: string): string {
+    const command = this.registry.find(c => c.name === commandName);
+    return `${command?.prefix || DEFAULT_COMMAND_PREFIX}${commandName}`;
+  }
+
   /**
    * Check if user has permission for command
    */
@@ -224,14 +637,101 @@ export class CommandProcessor {
     return false;
   }
 
+  /**
+   * Get the channel default voice and its provider
+   */
+  private async getDefaultVoice(): Promise<{ voiceId: string; provider: string }> {
+    const voiceId = await DatabaseService.getSetting('tts_default_voice') || 'default';
+    const db = getDatabase();
+    const voice = db.prepare(`
+      SELECT provider FROM tts_voices WHERE voice_id = ? LIMIT 1
+    `).get(voiceId) as { provider: string } | undefined;
+    return { voiceId, provider: voice?.provider || 'webspeech' };
+  }
+
+  /**
+   * Create a viewer_voice_preferences row on the channel default voice if none exists
+   */
+  private async ensureVoicePreference(viewerId: string): Promise<void> {
+    const defaultVoice = await this.getDefaultVoice();
+    const db = getDatabase();
+    db.prepare(`
+      INSERT OR IGNORE INTO viewer_voice_preferences (viewer_id, voice_id, provider, pitch, speed, volume)
+      VALUES (?, ?, ?, 1.0, 1.0, 1.0)
+    `).run(viewerId, defaultVoice.voiceId, defaultVoice.provider);
+  }
+
+  /**
+   * Find an available voice by name (case-insensitive)
+   */
+  private findVoiceByName(voiceName: string): TTSVoiceRow | undefined {
+    const db = getDatabase();
+    return db.prepare(`
+      SELECT * FROM tts_voices 
+      WHERE LOWER(name) = ? AND is_available = 1 
+      LIMIT 1
+    `).get(voiceName.toLowerCase()) as TTSVoiceRow | undefined;
+  }
+
+  /**
+   * Get a readable name for the viewer's TTS voice (falls back to the channel default)
+   */
+  private async getVoiceDisplayName(viewerId: string): Promise<string> {
+    const preference = DatabaseService.getVoicePreference(viewerId);
+    const voiceId = preference?.voice_id || await DatabaseService.getSetting('tts_default_voice');
+    if (!voiceId) return 'default';
+
+    const db = getDatabase();
+    const voice = db.prepare(`
+      SELECT name FROM tts_voices WHERE LOWER(voice_id) = ? LIMIT 1
+    `).get(voiceId.toLowerCase()) as { name: string } | undefined;
+    return voice?.name || voiceId;
+  }
+
   // ============================================================================
   // COMMAND HANDLERS
   // ============================================================================
 
+  /**
+   * Custom text command - render the stored response template
+   */
+  private async handleCustomCommand(row: ChatCommandRow, context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const template = row.custom_response || '';
+    const placeholders = getTemplatePlaceholders(template);
+    // Counted before the run is recorded, so include this use
+    const count = (this.registry.find(c => c.name === row.command_name)?.usageCount || 0) + 1;
+
+    const values: TemplateValues = {
+      user: context.displayName,
+      channel: context.channel,
+      args: args.raw.join(' '),
+      count: count.toString()
+    };
+    args.raw.forEach((arg, index) => {
+      values[`arg${index + 1}`] = arg;
+    });
+
+    if (placeholders.has('voice')) {
+      values.voice = await this.getVoiceDisplayName(context.viewerId);
+    }
+    if (placeholders.has('uptime')) {
+      const startedAt = await getTwitchApiService().getStreamStartedAt();
+      values.uptime = startedAt ? formatDuration(Date.now() - new Date(startedAt).getTime()) : 'offline';
+    }
+
+    const response = renderTemplate(template, values);
+    if (!response) {
+      return { success: false, error: 'Command has no response configured' };
+    }
+
+    return { success: true, response };
+  }
+
+
   /**
    * ~hello - Greet the user
    */
-  private async handleHello(context: CommandContext, args: string[]): Promise<CommandResult> {
+  private async handleHello(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
     return {
       success: true,
       response: `Hello, ${context.displayName}! 👋`
@@ -241,7 +741,7 @@ export class CommandProcessor {
   /**
    * ~voices - Show voices link
    */
-  private async handleVoices(context: CommandContext, args: string[]): Promise<CommandResult> {
+  private async handleVoices(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
     const db = getDatabase();
     const voiceCount = db.prepare('SELECT COUNT(*) as count FROM tts_voices WHERE is_available = 1').get() as { count: number };
     
@@ -257,33 +757,27 @@ export class CommandProcessor {
     
     return {
       success: true,
-      response: `${voiceCount.count} voices available. Examples: ${voiceNames}... Use ~setvoice <name> to choose.`
+      response: `${voiceCount.count} voices available. Examples: ${voiceNames}... Use ${this.formatCommand('setvoice')} <name> to choose.`
     };
   }
 
   /**
    * ~setvoice <voiceName> - Set user's TTS voice
    */
-  private async handleSetVoice(context: CommandContext, args: string[]): Promise<CommandResult> {
-    if (args.length === 0) {
-      return { success: false, error: 'Usage: ~setvoice <voice_name>' };
+  private async handleSetVoice(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    if (DatabaseService.isVoiceLocked(context.viewerId)) {
+      return { success: false, error: VOICE_LOCKED_ERROR };
     }
 
-    const voiceName = args.join(' ').toLowerCase();
-    
-    // Find voice in database (case-insensitive)
-    const db = getDatabase();
-    const voice = db.prepare(`
-      SELECT * FROM tts_voices 
-      WHERE LOWER(name) = ? AND is_available = 1 
-      LIMIT 1
-    `).get(voiceName) as TTSVoiceRow | undefined;
+    const voiceName = args.string('voice_name').toLowerCase();
+    const voice = this.findVoiceByName(voiceName);
 
     if (!voice) {
-      return { success: false, error: `Voice "${voiceName}" not found. Use ~voices to see available voices.` };
+      return { success: false, error: `Voice "${voiceName}" not found. Use ${this.formatCommand('voices')} to see available voices.` };
     }
 
     // Save voice preference
+    const db = getDatabase();
     db.prepare(`
       INSERT INTO viewer_voice_preferences (viewer_id, voice_id, provider, pitch, speed, volume)
       VALUES (?, ?, ?, 1.0, 1.0, 1.0)
@@ -302,99 +796,328 @@ export class CommandProcessor {
   /**
    * ~setvoicepitch <value> - Set user's voice pitch (0 to 2)
    */
-  private async handleSetVoicePitch(context: CommandContext, args: string[]): Promise<CommandResult> {
-    if (args.length === 0) {
-      return { success: false, error: 'Usage: ~setvoicepitch <0 to 2>' };
+  private async handleSetVoicePitch(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    if (DatabaseService.isVoiceLocked(context.viewerId)) {
+      return { success: false, error: VOICE_LOCKED_ERROR };
     }
 
-    const pitch = parseFloat(args[0]);
-    if (isNaN(pitch) || pitch < 0 || pitch > 2) {
-      return { success: false, error: 'Pitch must be between 0 and 2' };
+    const pitch = args.number('pitch');
+
+    // Start from the channel default voice (with its real provider) if the viewer has no preference yet
+    await this.ensureVoicePreference(context.viewerId);
+    getDatabase().prepare(`
+      UPDATE viewer_voice_preferences 
+      SET pitch = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE viewer_id = ?
+    `).run(pitch, context.viewerId);
+
+    return {
+      success: true,
+      response: `@${context.displayName} Voice pitch set to: ${pitch}`
+    };
+  }
+
+  /**
+   * ~setvoicespeed <value> - Set user's voice speed (0.5 to 2.0)
+   */
+  private async handleSetVoiceSpeed(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    if (DatabaseService.isVoiceLocked(context.viewerId)) {
+      return { success: false, error: VOICE_LOCKED_ERROR };
     }
 
+    const speed = args.number('speed');
+
+    // Start from the channel default voice (with its real provider) if the viewer has no preference yet
+    await this.ensureVoicePreference(context.viewerId);
+    getDatabase().prepare(`
+      UPDATE viewer_voice_preferences 
+      SET speed = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE viewer_id = ?
+    `).run(speed, context.viewerId);
+
+    return {
+      success: true,
+      response: `@${context.displayName} Voice speed set to: ${speed}x`
+    };
+  }
+
+  /**
+   * ~setvoicevolume <value> - Set user's voice volume (0.1 to 1.0)
+   */
+  private async handleSetVoiceVolume(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    if (DatabaseService.isVoiceLocked(context.viewerId)) {
+      return { success: false, error: VOICE_LOCKED_ERROR };
+    }
+
+    const volume = args.number('volume');
+
+    // Start from the channel default voice (with its real provider) if the viewer has no preference yet
+    await this.ensureVoicePreference(context.viewerId);
+    getDatabase().prepare(`
+      UPDATE viewer_voice_preferences 
+      SET volume = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE viewer_id = ?
+    `).run(volume, context.viewerId);
+
+    return {
+      success: true,
+      response: `@${context.displayName} Voice volume set to: ${Math.round(volume * 100)}%`
+    };
+  }
+
+  /**
+   * ~myvoice - Show the user's voice, provider and prosody
+   */
+  private async handleMyVoice(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
     const db = getDatabase();
-    
-    // Get or create preference
-    const existing = db.prepare(`
+    const preference = db.prepare(`
       SELECT * FROM viewer_voice_preferences WHERE viewer_id = ?
-    `).get(context.viewerId);
+    `).get(context.viewerId) as { voice_id: string; provider: string; pitch: number; speed: number; volume: number } | undefined;
+    const voiceName = await this.getVoiceDisplayName(context.viewerId);
+
+    if (!preference) {
+      return {
+        success: true,
+        response: `@${context.displayName} You're using the channel default voice (${voiceName}). ` +
+          `Use ${this.formatCommand('setvoice')} <name> to pick your own.`
+      };
+    }
 
-    if (existing) {
-      db.prepare(`
-        UPDATE viewer_voice_preferences 
-        SET pitch = ?, updated_at = CURRENT_TIMESTAMP
-        WHERE viewer_id = ?
-      `).run(pitch, context.viewerId);
-    } else {
-      // Create with default voice
-      const defaultVoice = await DatabaseService.getSetting('tts_default_voice');
-      db.prepare(`
-        INSERT INTO viewer_voice_preferences (viewer_id, voice_id, provider, pitch, speed, volume)
-        VALUES (?, ?, 'webspeech', ?, 1.0, 1.0)
-      `).run(context.viewerId, defaultVoice || 'default', pitch);
+    return {
+      success: true,
+      response: `@${context.displayName} Voice: ${voiceName} (${preference.provider}) | ` +
+        `Pitch: ${preference.pitch ?? 1} | Speed: ${preference.speed ?? 1}x | ` +
+        `Volume: ${Math.round((preference.volume ?? 1) * 100)}%`
+    };
+  }
+
+  /**
+   * ~resetvoice - Remove the user's voice preference
+   */
+  private async handleResetVoice(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    if (DatabaseService.isVoiceLocked(context.viewerId)) {
+      return { success: false, error: VOICE_LOCKED_ERROR };
+    }
+
+    if (!DatabaseService.deleteVoicePreference(context.viewerId)) {
+      return { success: false, error: 'You are already using the channel default voice' };
     }
 
     return {
       success: true,
-      response: `@${context.displayName} Voice pitch set to: ${pitch}`
+      response: `@${context.displayName} Voice reset to the channel default`
     };
   }
 
   /**
-   * ~setvoicespeed <value> - Set user's voice speed (0.5 to 2.0)
+   * ~sayname [name] - Set how TTS announces the user, or reset it with no name
    */
-  private async handleSetVoiceSpeed(context: CommandContext, args: string[]): Promise<CommandResult> {
-    if (args.length === 0) {
-      return { success: false, error: 'Usage: ~setvoicespeed <0.5 to 2.0>' };
+  private async handleSayName(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    if (!args.has('name')) {
+      DatabaseService.setViewerSpokenName(context.viewerId, null);
+      return { success: true, response: `@${context.displayName} TTS will say your name normally again` };
+    }
+
+    const name = args.string('name').replace(/\s+/g, ' ');
+    if (name.length > MAX_SPOKEN_NAME_LENGTH) {
+      return { success: false, error: `Names can be at most ${MAX_SPOKEN_NAME_LENGTH} characters` };
+    }
+    if (!SPOKEN_NAME_PATTERN.test(name)) {
+      return { success: false, error: 'Names can only use letters, numbers, spaces, periods, apostrophes and hyphens' };
     }
 
-    const speed = parseFloat(args[0]);
-    if (isNaN(speed) || speed < 0.5 || speed > 2.0) {
-      return { success: false, error: 'Speed must be between 0.5 and 2.0' };
+    if (!DatabaseService.setViewerSpokenName(context.viewerId, name)) {
+      return { success: false, error: 'Could not find you in the viewer list, try again after chatting' };
     }
+    return { success: true, response: `@${context.displayName} TTS will now call you "${name}"` };
+  }
 
+  /**
+   * ~previewvoice <voiceName> - Queue a sample line without changing the user's voice
+   */
+  private async handlePreviewVoice(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const voiceName = args.string('voice_name').toLowerCase();
+    const voice = this.findVoiceByName(voiceName);
+    if (!voice) {
+      return { success: false, error: `Voice "${voiceName}" not found. Use ${this.formatCommand('voices')} to see available voices.` };
+    }
+
+    if (await DatabaseService.getSetting('tts_enabled') === 'false') {
+      return { success: false, error: 'TTS is currently muted' };
+    }
+    if (voice.provider !== 'webspeech' && await DatabaseService.getSetting(`tts_${voice.provider}_enabled`) !== 'true') {
+      return { success: false, error: `${voice.name} is not available on this channel` };
+    }
+
+    // Keep the viewer's own pitch, speed and volume so the preview is representative
     const db = getDatabase();
-    
-    // Get or create preference
-    const existing = db.prepare(`
-      SELECT * FROM viewer_voice_preferences WHERE viewer_id = ?
-    `).get(context.viewerId);
+    const preference = db.prepare(`
+      SELECT pitch, speed, volume FROM viewer_voice_preferences WHERE viewer_id = ?
+    `).get(context.viewerId) as { pitch: number; speed: number; volume: number } | undefined;
+
+    getTTSQueue().add({
+      id: `preview-${context.viewerId}-${Date.now()}`,
+      text: `Hi ${context.displayName}, this is ${voice.name}.`,
+      voiceId: voice.voice_id,
+      provider: voice.provider,
+      pitch: preference?.pitch,
+      speed: preference?.speed,
+      volume: preference?.volume,
+      viewerId: context.viewerId,
+      username: context.displayName
+    });
 
-    if (existing) {
+    return {
+      success: true,
+      response: `@${context.displayName} Queued a preview of ${voice.name}`
+    };
+  }
+
+  /**
+   * ~setvoicefor @username [voiceName] [pitch=x] [speed=x] [volume=x] - Set another user's voice
+   */
+  private async handleSetVoiceFor(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const targetUsername = args.string('username');
+    const viewer = DatabaseService.getViewerByUsername(targetUsername);
+    if (!viewer) {
+      return { success: false, error: `User ${targetUsername} not found` };
+    }
+
+    // Split "key=value" prosody options from the (possibly multi-word) voice name
+    const prosodySpecs: Record<string, ArgumentSpec> = { pitch: PITCH_ARG, speed: SPEED_ARG, volume: VOLUME_ARG };
+    const options: Record<string, number> = {};
+    const nameParts: string[] = [];
+    for (const word of args.string('settings').split(/\s+/)) {
+      const match = word.toLowerCase().match(/^(pitch|speed|volume)=(.*)$/);
+      if (!match) {
+        nameParts.push(word);
+        continue;
+      }
+      const parsed = parseArgument(prosodySpecs[match[1]], match[2]);
+      if ('error' in parsed) {
+        return { success: false, error: parsed.error };
+      }
+      options[match[1]] = parsed.value as number;
+    }
+
+    let voice: TTSVoiceRow | undefined;
+    if (nameParts.length > 0) {
+      const voiceName = nameParts.join(' ').toLowerCase();
+      voice = this.findVoiceByName(voiceName);
+      if (!voice) {
+        return { success: false, error: `Voice "${voiceName}" not found. Use ${this.formatCommand('voices')} to see available voices.` };
+      }
+    }
+
+    await this.ensureVoicePreference(viewer.id);
+    const db = getDatabase();
+    db.prepare(`
+      UPDATE viewer_voice_preferences
+      SET voice_id = COALESCE(?, voice_id),
+          provider = COALESCE(?, provider),
+          pitch = COALESCE(?, pitch),
+          speed = COALESCE(?, speed),
+          volume = COALESCE(?, volume),
+          updated_at = CURRENT_TIMESTAMP
+      WHERE viewer_id = ?
+    `).run(
+      voice?.voice_id ?? null,
+      voice?.provider ?? null,
+      options.pitch ?? null,
+      options.speed ?? null,
+      options.volume ?? null,
+      viewer.id
+    );
+
+    const changes = [
+      voice ? `voice ${voice.name}` : null,
+      'pitch' in options ? `pitch ${options.pitch}` : null,
+      'speed' in options ? `speed ${options.speed}x` : null,
+      'volume' in options ? `volume ${Math.round(options.volume * 100)}%` : null
+    ].filter(Boolean);
+
+    return {
+      success: true,
+      response: `@${targetUsername} TTS updated by a moderator: ${changes.join(', ')}`
+    };
+  }
+
+  /**
+   * ~resetvoicefor @username - Reset another user to the channel default voice
+   */
+  private async handleResetVoiceFor(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const targetUsername = args.string('username');
+    const viewer = DatabaseService.getViewerByUsername(targetUsername);
+    if (!viewer) {
+      return { success: false, error: `User ${targetUsername} not found` };
+    }
+
+    if (DatabaseService.isVoiceLocked(viewer.id)) {
+      // Keep the row (and the lock) but put it back on the defaults
+      const defaultVoice = await this.getDefaultVoice();
+      const db = getDatabase();
       db.prepare(`
-        UPDATE viewer_voice_preferences 
-        SET speed = ?, updated_at = CURRENT_TIMESTAMP
+        UPDATE viewer_voice_preferences
+        SET voice_id = ?, provider = ?, pitch = 1.0, speed = 1.0, volume = 1.0, updated_at = CURRENT_TIMESTAMP
         WHERE viewer_id = ?
-      `).run(speed, context.viewerId);
+      `).run(defaultVoice.voiceId, defaultVoice.provider, viewer.id);
     } else {
-      const defaultVoice = await DatabaseService.getSetting('tts_default_voice');
-      db.prepare(`
-        INSERT INTO viewer_voice_preferences (viewer_id, voice_id, provider, pitch, speed, volume)
-        VALUES (?, ?, 'webspeech', 1.0, ?, 1.0)
-      `).run(context.viewerId, defaultVoice || 'default', speed);
+      DatabaseService.deleteVoicePreference(viewer.id);
     }
 
     return {
       success: true,
-      response: `@${context.displayName} Voice speed set to: ${speed}x`
+      response: `@${targetUsername} TTS voice has been reset to the channel default`
     };
   }
 
   /**
-   * ~mutevoice @username <minutes> - Mute a user's TTS
+   * ~lockvoice @username - Stop a user from changing their voice
    */
-  private async handleMuteVoice(context: CommandContext, args: string[]): Promise<CommandResult> {
-    if (args.length < 1) {
-      return { success: false, error: 'Usage: ~mutevoice @username [minutes] (0 = permanent)' };
+  private async handleLockVoice(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const targetUsername = args.string('username');
+    const viewer = DatabaseService.getViewerByUsername(targetUsername);
+    if (!viewer) {
+      return { success: false, error: `User ${targetUsername} not found` };
     }
 
-    const targetUsername = args[0].replace('@', '').toLowerCase();
-    const duration = args.length > 1 ? parseInt(args[1]) : 0;
+    await this.ensureVoicePreference(viewer.id);
+    DatabaseService.setVoiceLock(viewer.id, true, context.username);
+
+    return {
+      success: true,
+      response: `@${targetUsername} TTS voice has been locked by a moderator`
+    };
+  }
 
-    if (args.length > 1 && (isNaN(duration) || duration < 0)) {
-      return { success: false, error: 'Duration must be a positive number or 0 for permanent' };
+  /**
+   * ~unlockvoice @username - Let a user change their voice again
+   */
+  private async handleUnlockVoice(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const targetUsername = args.string('username');
+    const viewer = DatabaseService.getViewerByUsername(targetUsername);
+    if (!viewer) {
+      return { success: false, error: `User ${targetUsername} not found` };
+    }
+
+    if (!DatabaseService.isVoiceLocked(viewer.id)) {
+      return { success: false, error: `${targetUsername}'s voice is not locked` };
     }
 
+    DatabaseService.setVoiceLock(viewer.id, false, null);
+    return {
+      success: true,
+      response: `@${targetUsername} TTS voice has been unlocked`
+    };
+  }
+
+  /**
+   * ~mutevoice @username <minutes> - Mute a user's TTS
+   */
+  private async handleMuteVoice(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const targetUsername = args.string('username');
+    const durationSeconds = args.number('duration'); // 0 = permanent
+
     // Find viewer
     const viewer = DatabaseService.getViewerByUsername(targetUsername);
     if (!viewer) {
@@ -403,8 +1126,8 @@ export class CommandProcessor {
 
     const db = getDatabase();
     const now = new Date().toISOString();
-    const expiresAt = duration > 0 
-      ? new Date(Date.now() + duration * 60 * 1000).toISOString()
+    const expiresAt = durationSeconds > 0 
+      ? new Date(Date.now() + durationSeconds * 1000).toISOString()
       : null;
 
     db.prepare(`
@@ -417,10 +1140,10 @@ export class CommandProcessor {
         muted_at = excluded.muted_at,
         mute_expires_at = excluded.mute_expires_at,
         updated_at = CURRENT_TIMESTAMP
-    `).run(viewer.id, duration > 0 ? duration : null, now, expiresAt);
+    `).run(viewer.id, durationSeconds > 0 ? Math.ceil(durationSeconds / 60) : null, now, expiresAt);
 
-    const responseMsg = duration > 0
-      ? `@${targetUsername} has been muted from TTS for ${duration} minutes`
+    const responseMsg = durationSeconds > 0
+      ? `@${targetUsername} has been muted from TTS for ${formatDuration(durationSeconds * 1000)}`
       : `@${targetUsername} has been permanently muted from TTS`;
 
     return { success: true, response: responseMsg };
@@ -429,12 +1152,8 @@ export class CommandProcessor {
   /**
    * ~unmutevoice @username - Unmute a user's TTS
    */
-  private async handleUnmuteVoice(context: CommandContext, args: string[]): Promise<CommandResult> {
-    if (args.length < 1) {
-      return { success: false, error: 'Usage: ~unmutevoice @username' };
-    }
-
-    const targetUsername = args[0].replace('@', '').toLowerCase();
+  private async handleUnmuteVoice(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const targetUsername = args.string('username');
     
     const viewer = DatabaseService.getViewerByUsername(targetUsername);
     if (!viewer) {
@@ -461,12 +1180,8 @@ export class CommandProcessor {
   /**
    * ~uncooldownvoice @username - Remove TTS cooldown
    */
-  private async handleUncooldownVoice(context: CommandContext, args: string[]): Promise<CommandResult> {
-    if (args.length < 1) {
-      return { success: false, error: 'Usage: ~uncooldownvoice @username' };
-    }
-
-    const targetUsername = args[0].replace('@', '').toLowerCase();
+  private async handleUncooldownVoice(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const targetUsername = args.string('username');
     
     const viewer = DatabaseService.getViewerByUsername(targetUsername);
     if (!viewer) {
@@ -491,22 +1206,10 @@ export class CommandProcessor {
   /**
    * ~cooldownvoice @username <seconds> <minutes> - Apply TTS cooldown
    */
-  private async handleCooldownVoice(context: CommandContext, args: string[]): Promise<CommandResult> {
-    if (args.length < 2) {
-      return { success: false, error: 'Usage: ~cooldownvoice @username <seconds> [minutes] (0 minutes = permanent)' };
-    }
-
-    const targetUsername = args[0].replace('@', '').toLowerCase();
-    const gap = parseInt(args[1]);
-    const duration = args.length > 2 ? parseInt(args[2]) : 0;
-
-    if (isNaN(gap) || gap < 0) {
-      return { success: false, error: 'Cooldown gap must be a positive number' };
-    }
-
-    if (args.length > 2 && (isNaN(duration) || duration < 0)) {
-      return { success: false, error: 'Duration must be a positive number or 0 for permanent' };
-    }
+  private async handleCooldownVoice(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const targetUsername = args.string('username');
+    const gap = args.number('gap');
+    const durationSeconds = args.number('duration'); // 0 = permanent
 
     const viewer = DatabaseService.getViewerByUsername(targetUsername);
     if (!viewer) {
@@ -515,8 +1218,8 @@ export class CommandProcessor {
 
     const db = getDatabase();
     const now = new Date().toISOString();
-    const expiresAt = duration > 0
-      ? new Date(Date.now() + duration * 60 * 1000).toISOString()
+    const expiresAt = durationSeconds > 0
+      ? new Date(Date.now() + durationSeconds * 1000).toISOString()
       : null;
 
     db.prepare(`
@@ -531,9 +1234,9 @@ export class CommandProcessor {
         cooldown_set_at = excluded.cooldown_set_at,
         cooldown_expires_at = excluded.cooldown_expires_at,
         updated_at = CURRENT_TIMESTAMP
-    `).run(viewer.id, gap, duration > 0 ? duration : null, now, expiresAt);
+    `).run(viewer.id, gap, durationSeconds > 0 ? Math.ceil(durationSeconds / 60) : null, now, expiresAt);
 
-    const durationMsg = duration > 0 ? ` for ${duration} minutes` : ' permanently';
+    const durationMsg = durationSeconds > 0 ? ` for ${formatDuration(durationSeconds * 1000)}` : ' permanently';
     return {
       success: true,
       response: `@${targetUsername} now has a ${gap}s TTS cooldown${durationMsg}`
@@ -543,7 +1246,7 @@ export class CommandProcessor {
   /**
    * ~mutetts - Disable all TTS globally
    */
-  private async handleMuteTTS(context: CommandContext, args: string[]): Promise<CommandResult> {
+  private async handleMuteTTS(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
     await DatabaseService.setSetting('tts_enabled', 'false');
     
     // Notify renderer of status change
@@ -559,7 +1262,7 @@ export class CommandProcessor {
   /**
    * ~unmutetts - Enable all TTS globally
    */
-  private async handleUnmuteTTS(context: CommandContext, args: string[]): Promise<CommandResult> {
+  private async handleUnmuteTTS(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
     await DatabaseService.setSetting('tts_enabled', 'true');
     
     // Notify renderer of status change
@@ -575,23 +1278,183 @@ export class CommandProcessor {
   /**
    * ~clearqueue - Clear the TTS queue
    */
-  private async handleClearQueue(context: CommandContext, args: string[]): Promise<CommandResult> {
-    // Send IPC event to renderer to clear queue
-    const { BrowserWindow } = require('electron');
-    const mainWindow = BrowserWindow.getAllWindows()[0];
-    if (mainWindow) {
-      mainWindow.webContents.send('tts:clearQueue');
-    }
+  private async handleClearQueue(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    getTTSQueue().clear();
     return {
       success: true,
       response: 'TTS queue has been cleared'
     };
   }
+
+  /**
+   * ~skip - Skip the current TTS message
+   */
+  private async handleSkip(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const playing = getTTSQueue().getQueue().find(item => item.status === 'playing');
+    if (!playing) {
+      return { success: false, error: 'Nothing is being read right now' };
+    }
+
+    getTTSQueue().skip();
+    return {
+      success: true,
+      response: playing.username ? `Skipped ${playing.username}'s message` : 'Skipped the current message'
+    };
+  }
+
+  /**
+   * ~pause - Pause TTS playback
+   */
+  private async handlePause(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    if (getTTSQueue().isPaused()) {
+      return { success: false, error: 'TTS is already paused' };
+    }
+
+    getTTSQueue().pause();
+    return {
+      success: true,
+      response: `TTS paused. Use ${this.formatCommand('resume')} to continue.`
+    };
+  }
+
+  /**
+   * ~resume - Resume TTS playback
+   */
+  private async handleResume(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    if (!getTTSQueue().isPaused()) {
+      return { success: false, error: 'TTS is not paused' };
+    }
+
+    getTTSQueue().resume();
+    return {
+      success: true,
+      response: 'TTS resumed'
+    };
+  }
+
+  /**
+   * ~replay [count] - Replay the last N spoken messages
+   */
+  private async handleReplay(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const count = args.number('count', 1);
+
+    const available = getTTSQueue().getHistory().length;
+    if (available === 0) {
+      return { success: false, error: 'No messages to replay' };
+    }
+
+    const replayed = Math.min(count, available);
+    getTTSQueue().replay(replayed);
+    return {
+      success: true,
+      response: replayed === 1 ? 'Replaying the last message' : `Replaying the last ${replayed} messages`
+    };
+  }
+
+  /**
+   * ~history [count] - List the last N spoken messages, newest first (numbered as ~replay counts them)
+   */
+  private async handleHistory(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const count = args.number('count', 3);
+
+    const entries = getTTSQueue().getHistory().slice(-count).reverse();
+    if (entries.length === 0) {
+      return { success: false, error: 'No messages have been spoken yet' };
+    }
+
+    const list = entries.map((entry, index) => {
+      const body = entry.body ?? entry.text;
+      const preview = body.length > HISTORY_PREVIEW_LENGTH ? `${body.slice(0, HISTORY_PREVIEW_LENGTH)}…` : body;
+      return `${index + 1}. ${entry.username || 'unknown'}: ${preview}`;
+    });
+    return { success: true, response: `Last spoken: ${list.join(' | ')}` };
+  }
+
+  /**
+   * ~queue - Show the viewer's queue position and estimated wait
+   */
+  private async handleQueue(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const queue = getTTSQueue();
+    const items = queue.getQueue();
+    const pending = items.filter(item => item.status === 'pending');
+    const pausedNote = queue.isPaused() ? ' (TTS is paused)' : '';
+
+    const index = items.findIndex(item => item.status === 'pending' && item.viewerId === context.viewerId);
+    if (index === -1) {
+      if (pending.length === 0) {
+        return { success: true, response: `@${context.displayName} The TTS queue is empty${pausedNote}` };
+      }
+      return {
+        success: true,
+        response: `@${context.displayName} You have no messages queued. ${pending.length} waiting, ` +
+          `about ${formatDuration(queue.estimateDrainSeconds() * 1000)} to clear${pausedNote}`
+      };
+    }
+
+    const position = pending.findIndex(item => item === items[index]) + 1;
+    return {
+      success: true,
+      response: `@${context.displayName} Your message is #${position} of ${pending.length}, ` +
+        `about ${formatDuration(queue.estimateWaitSeconds(index) * 1000)} to wait${pausedNote}`
+    };
+  }
+
+  /**
+   * ~help [command] - List usable commands, or show one command's usage
+   */
+  private async handleHelp(context: CommandContext, args: ParsedArguments): Promise<CommandResult> {
+    const available = this.registry.filter(command =>
+      command.enabled && this.hasPermission(context, command.permission)
+    );
+
+    if (args.has('command')) {
+      // Accept "setvoice", "~setvoice" or an alias
+      const name = args.string('command').toLowerCase().split(/\s+/)[0].replace(/^[^a-z0-9_]+/, '');
+      const command = available.find(c => c.name === name || c.aliases.includes(name));
+      if (!command) {
+        return { success: false, error: `Unknown command "${name}". Use ${this.formatCommand('help')} to list commands.` };
+      }
+
+      const aliases = command.aliases.length > 0
+        ? ` (also ${command.aliases.map(a => command.prefix + a).join(', ')})`
+        : '';
+      const description = command.description ? ` - ${command.description}` : '';
+      return {
+        success: true,
+        response: `@${context.displayName} ${this.formatUsageLine(command)}${aliases}${description}`
+      };
+    }
+
+    const names = available.map(c => c.prefix + c.name);
+    const footer = ` | ${this.formatCommand('help')} <command> for details`;
+    let list = names.join(', ');
+    if (list.length + footer.length > MAX_HELP_LENGTH) {
+      list = list.slice(0, MAX_HELP_LENGTH - footer.length - 1).replace(/,[^,]*$/, '') + '…';
+    }
+
+    return {
+      success: true,
+      response: `@${context.displayName} Commands: ${list}${footer}`
+    };
+  }
 }
 
 interface CommandHandler {
   name: string;
-  permission: 'viewer' | 'moderator' | 'broadcaster';
-  handler: (context: CommandContext, args: string[]) => Promise<CommandResult>;
+  permission: CommandPermission;
+  handler: (context: CommandContext, args: ParsedArguments) => Promise<CommandResult>;
   rateLimit: number; // seconds
+  description: string;
+  args: ArgumentSpec[];
+  usage?: string; // Overrides the usage generated from args
+}
+
+// Singleton instance
+let commandProcessor: CommandProcessor | null = null;
+
+export function getCommandProcessor(): CommandProcessor {
+  if (!commandProcessor) {
+    commandProcessor = new CommandProcessor();
+  }
+  return commandProcessor;
 }
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../database/connection', () => ({ getDatabase: vi.fn() }));
+
+import { CooldownTracker } from './cooldownTracker';
+
+describe('CooldownTracker', () => {
+  let tracker: CooldownTracker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    tracker = new CooldownTracker(false);
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    vi.useRealTimers();
+  });
+
+  it('is ready until the command is recorded', () => {
+    expect(tracker.getRemainingSeconds('hello', 'viewer-1', 10, 'user')).toBe(0);
+
+    tracker.record('hello', 'viewer-1', 'user');
+    expect(tracker.getRemainingSeconds('hello', 'viewer-1', 10, 'user')).toBe(10);
+  });
+
+  it('counts down and rounds up partial seconds', () => {
+    tracker.record('hello', 'viewer-1', 'user');
+
+    vi.advanceTimersByTime(3_500);
+    expect(tracker.getRemainingSeconds('hello', 'viewer-1', 10, 'user')).toBe(7);
+
+    vi.advanceTimersByTime(6_500);
+    expect(tracker.getRemainingSeconds('hello', 'viewer-1', 10, 'user')).toBe(0);
+  });
+
+  it('keeps user cooldowns per viewer', () => {
+    tracker.record('hello', 'viewer-1', 'user');
+    expect(tracker.getRemainingSeconds('hello', 'viewer-2', 10, 'user')).toBe(0);
+  });
+
+  it('shares global cooldowns between viewers', () => {
+    tracker.record('hello', 'viewer-1', 'global');
+    expect(tracker.getRemainingSeconds('hello', 'viewer-2', 10, 'global')).toBe(10);
+  });
+});
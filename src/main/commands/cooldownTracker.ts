@@ -0,0 +1,155 @@
+// Command Cooldown Tracker
+// Keeps command last-used times in memory, optionally mirrored to command_cooldowns
+
+import { getDatabase } from '../database/connection';
+
+export type CooldownMode = 'user' | 'global';
+
+interface CooldownEntry {
+  commandName: string;
+  scope: string; // Viewer ID, or GLOBAL_SCOPE
+  lastUsedAt: number;
+}
+
+const GLOBAL_SCOPE = '*';
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_ENTRY_AGE_MS = 24 * 60 * 60 * 1000; // Longer than any sensible command cooldown
+
+export class CooldownTracker {
+  private entries: Map<string, CooldownEntry> = new Map();
+  private dirty: Set<string> = new Set();
+  private persistent = false;
+  private flushInterval: NodeJS.Timeout | null = null;
+
+  constructor(persistent: boolean) {
+    this.setPersistent(persistent);
+
+    // Prune (and persist, if enabled) every few seconds
+    this.flushInterval = setInterval(() => {
+      this.flush();
+    }, FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Seconds until the command can be used again (0 = ready)
+   */
+  getRemainingSeconds(commandName: string, viewerId: string, rateLimitSeconds: number, mode: CooldownMode): number {
+    const entry = this.entries.get(this.getKey(commandName, this.getScope(viewerId, mode)));
+    if (!entry) return 0;
+
+    const remainingMs = rateLimitSeconds * 1000 - (Date.now() - entry.lastUsedAt);
+    return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+  }
+
+  /**
+   * Record a command use, starting its cooldown
+   */
+  record(commandName: string, viewerId: string, mode: CooldownMode): void {
+    const scope = this.getScope(viewerId, mode);
+    const key = this.getKey(commandName, scope);
+    this.entries.set(key, { commandName, scope, lastUsedAt: Date.now() });
+
+    if (this.persistent) {
+      this.dirty.add(key);
+    }
+  }
+
+  /**
+   * Enable or disable mirroring cooldowns to the command_cooldowns table
+   */
+  setPersistent(persistent: boolean): void {
+    if (persistent === this.persistent) return;
+    this.persistent = persistent;
+
+    if (persistent) {
+      this.loadFromDatabase();
+      // Entries recorded while in-memory only should be written too
+      for (const key of this.entries.keys()) {
+        this.dirty.add(key);
+      }
+    } else {
+      this.dirty.clear();
+      getDatabase().prepare('DELETE FROM command_cooldowns').run();
+    }
+  }
+
+  /**
+   * Write pending cooldowns to the database and prune expired ones
+   */
+  flush(): void {
+    this.pruneExpired();
+    if (!this.persistent) return;
+
+    const db = getDatabase();
+    const upsertStmt = db.prepare(`
+      INSERT INTO command_cooldowns (command_name, scope, last_used_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(command_name, scope) DO UPDATE SET last_used_at = excluded.last_used_at
+    `);
+    const cutoff = new Date(Date.now() - MAX_ENTRY_AGE_MS).toISOString();
+
+    const writeAll = db.transaction((keys: string[]) => {
+      for (const key of keys) {
+        const entry = this.entries.get(key);
+        if (entry) {
+          upsertStmt.run(entry.commandName, entry.scope, new Date(entry.lastUsedAt).toISOString());
+        }
+      }
+      db.prepare('DELETE FROM command_cooldowns WHERE last_used_at < ?').run(cutoff);
+    });
+
+    try {
+      writeAll(Array.from(this.dirty));
+      this.dirty.clear();
+    } catch (error) {
+      console.error('Failed to flush command cooldowns:', error);
+    }
+  }
+
+  /**
+   * Flush and stop the background timer
+   */
+  destroy(): void {
+    this.flush();
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+  }
+
+  private loadFromDatabase(): void {
+    const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+    const rows = getDatabase().prepare('SELECT * FROM command_cooldowns').all() as {
+      command_name: string;
+      scope: string;
+      last_used_at: string;
+    }[];
+
+    for (const row of rows) {
+      const lastUsedAt = new Date(row.last_used_at).getTime();
+      const key = this.getKey(row.command_name, row.scope);
+      const existing = this.entries.get(key);
+      if (lastUsedAt > cutoff && (!existing || existing.lastUsedAt < lastUsedAt)) {
+        this.entries.set(key, { commandName: row.command_name, scope: row.scope, lastUsedAt });
+      }
+    }
+  }
+
+  private pruneExpired(): void {
+    const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.lastUsedAt < cutoff) {
+        this.entries.delete(key);
+        this.dirty.delete(key);
+      }
+    }
+  }
+
+  private getScope(viewerId: string, mode: CooldownMode): string {
+    return mode === 'global' ? GLOBAL_SCOPE : viewerId;
+  }
+
+  private getKey(commandName: string, scope: string): string {
+    return `${commandName}:${scope}`;
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { getTemplatePlaceholders, renderTemplate, formatDuration } from './responseTemplate';
+
+describe('renderTemplate', () => {
+  it('fills placeholders case-insensitively', () => {
+    expect(renderTemplate('Hi {User}, welcome to {channel}!', { user: 'Alice', channel: 'bob' }))
+      .toBe('Hi Alice, welcome to bob!');
+  });
+
+  it('drops missing {argN} and leaves other unknown placeholders alone', () => {
+    expect(renderTemplate('{arg1} hugs {arg2} {unknown}', { arg1: 'alice' })).toBe('alice hugs {unknown}');
+  });
+
+  it('collapses the gaps left by empty values', () => {
+    expect(renderTemplate('  {arg1}  shouts {arg2}  ', {})).toBe('shouts');
+  });
+});
+
+describe('getTemplatePlaceholders', () => {
+  it('lists each placeholder once, lowercased', () => {
+    expect([...getTemplatePlaceholders('{User} {user} {count} {arg1}')]).toEqual(['user', 'count', 'arg1']);
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats seconds, minutes and hours', () => {
+    expect(formatDuration(42_000)).toBe('42s');
+    expect(formatDuration(15 * 60_000 + 5_000)).toBe('15m');
+    expect(formatDuration(2 * 3_600_000 + 15 * 60_000)).toBe('2h 15m');
+  });
+
+  it('treats negative durations as zero', () => {
+    expect(formatDuration(-500)).toBe('0s');
+  });
+});
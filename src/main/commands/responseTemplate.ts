@@ -0,0 +1,57 @@
+// Response Templates
+// Placeholder substitution for custom text command responses
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Supported placeholders (shown on the Commands page)
+ *   {user}     - Display name of the viewer who ran the command
+ *   {channel}  - Channel name
+ *   {args}     - Everything after the command name
+ *   {arg1}...  - Individual arguments (empty if missing)
+ *   {count}    - Number of times the command has been used
+ *   {voice}    - The viewer's current TTS voice
+ *   {uptime}   - How long the stream has been live
+ */
+export type TemplateValues = Record<string, string>;
+
+/**
+ * Get the set of placeholder names used in a template
+ */
+export function getTemplatePlaceholders(template: string): Set<string> {
+  const names = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1].toLowerCase());
+  }
+  return names;
+}
+
+/**
+ * Replace placeholders with values. {argN} resolves to an empty string when
+ * the argument is missing; any other unknown placeholder is left untouched.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template
+    .replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+      const key = name.toLowerCase();
+      if (key in values) return values[key];
+      if (/^arg\d+$/.test(key)) return '';
+      return match;
+    })
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Format a duration in milliseconds as "2h 15m" / "15m" / "42s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${seconds}s`;
+}
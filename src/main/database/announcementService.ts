@@ -0,0 +1,98 @@
+import { getDatabase } from './connection';
+
+export interface ChatAnnouncementRow {
+  id: number;
+  message: string;
+  interval_minutes: number;
+  min_chat_messages: number;
+  enabled: number;
+  last_sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AnnouncementInput {
+  id?: number;                      // Omit to create a new announcement
+  message: string;
+  interval_minutes: number;
+  min_chat_messages: number;
+  enabled: boolean;
+}
+
+export class AnnouncementService {
+  /**
+   * Get every announcement, oldest first
+   */
+  static getAllAnnouncements(): ChatAnnouncementRow[] {
+    const db = getDatabase();
+    return db.prepare('SELECT * FROM chat_announcements ORDER BY id').all() as ChatAnnouncementRow[];
+  }
+
+  /**
+   * Get a single announcement
+   */
+  static getAnnouncement(id: number): ChatAnnouncementRow | null {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM chat_announcements WHERE id = ?').get(id);
+    return (row as ChatAnnouncementRow) || null;
+  }
+
+  /**
+   * Create or update an announcement, returning its ID
+   */
+  static saveAnnouncement(announcement: AnnouncementInput): number {
+    const db = getDatabase();
+
+    if (announcement.id) {
+      db.prepare(`
+        UPDATE chat_announcements
+        SET message = ?, interval_minutes = ?, min_chat_messages = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(
+        announcement.message,
+        announcement.interval_minutes,
+        announcement.min_chat_messages,
+        announcement.enabled ? 1 : 0,
+        announcement.id
+      );
+      return announcement.id;
+    }
+
+    const result = db.prepare(`
+      INSERT INTO chat_announcements (message, interval_minutes, min_chat_messages, enabled)
+      VALUES (?, ?, ?, ?)
+    `).run(
+      announcement.message,
+      announcement.interval_minutes,
+      announcement.min_chat_messages,
+      announcement.enabled ? 1 : 0
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Enable or disable an announcement
+   */
+  static setEnabled(id: number, enabled: boolean): void {
+    const db = getDatabase();
+    db.prepare(`
+      UPDATE chat_announcements SET enabled = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(enabled ? 1 : 0, id);
+  }
+
+  /**
+   * Record when an announcement was last posted to chat
+   */
+  static markSent(id: number, sentAt: string): void {
+    const db = getDatabase();
+    db.prepare('UPDATE chat_announcements SET last_sent_at = ? WHERE id = ?').run(sentAt, id);
+  }
+
+  /**
+   * Delete an announcement
+   */
+  static deleteAnnouncement(id: number): void {
+    const db = getDatabase();
+    db.prepare('DELETE FROM chat_announcements WHERE id = ?').run(id);
+  }
+}
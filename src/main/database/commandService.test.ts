@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  inserted: [] as unknown[][],
+  counted: [] as unknown[][]
+}));
+
+// Enough of better-sqlite3 for insertUsage; usage by unknown viewers fails the foreign key
+vi.mock('./connection', () => ({
+  getDatabase: () => ({
+    prepare: (sql: string) => ({
+      run: (...args: unknown[]) => {
+        if (sql.includes('INSERT INTO command_usage')) {
+          if (args[1] === 'viewer-unknown') throw new Error('FOREIGN KEY constraint failed');
+          mocks.inserted.push(args);
+        } else {
+          mocks.counted.push(args);
+        }
+      }
+    }),
+    transaction: (fn: (...args: any[]) => void) => fn
+  })
+}));
+
+import { CommandService, CommandUsageRecord } from './commandService';
+
+function record(viewerId: string, overrides: Partial<CommandUsageRecord> = {}): CommandUsageRecord {
+  return {
+    command_name: 'hello',
+    viewer_id: viewerId,
+    username: 'Alice',
+    outcome: 'success',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('CommandService.insertUsage', () => {
+  beforeEach(() => {
+    mocks.inserted = [];
+    mocks.counted = [];
+  });
+
+  it('stores every record and counts only successful runs', () => {
+    CommandService.insertUsage([
+      record('viewer-alice'),
+      record('viewer-alice', { outcome: 'cooldown', error_message: 'Command on cooldown. Wait 30 seconds.' })
+    ]);
+
+    expect(mocks.inserted).toEqual([
+      ['hello', 'viewer-alice', 'alice', 1, 'success', null, '2026-01-01T00:00:00.000Z'],
+      ['hello', 'viewer-alice', 'alice', 0, 'cooldown', 'Command on cooldown. Wait 30 seconds.', '2026-01-01T00:00:00.000Z']
+    ]);
+    expect(mocks.counted).toEqual([['2026-01-01T00:00:00.000Z', 'hello']]);
+  });
+
+  it('skips only the record that fails, keeping the rest of the batch', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    CommandService.insertUsage([record('viewer-alice'), record('viewer-unknown'), record('viewer-bob')]);
+
+    expect(mocks.inserted.map(args => args[1])).toEqual(['viewer-alice', 'viewer-bob']);
+    expect(mocks.counted).toHaveLength(2);
+  });
+});
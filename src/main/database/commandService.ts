@@ -0,0 +1,273 @@
+import { getDatabase } from './connection';
+import { CooldownMode } from '../commands/cooldownTracker';
+
+export type CommandPermission = 'viewer' | 'moderator' | 'broadcaster';
+
+export type ResponseMode = 'public' | 'reply' | 'whisper';
+
+export interface ChatCommandRow {
+  id: number;
+  command_name: string;
+  command_prefix: string;
+  description: string | null;
+  enabled: number;
+  permission_level: CommandPermission;
+  rate_limit_seconds: number;
+  cooldown_mode: CooldownMode;
+  response_mode: ResponseMode;
+  custom_response: string | null;
+  aliases: string | null;           // Comma-separated, without prefix
+  usage_count: number;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommandSettingsInput {
+  command_prefix: string;
+  aliases: string[];
+  permission_level: CommandPermission;
+  rate_limit_seconds: number;
+  cooldown_mode: CooldownMode;
+  response_mode: ResponseMode;
+  enabled: boolean;
+}
+
+export interface CustomCommandInput extends CommandSettingsInput {
+  command_name: string;
+  description?: string;
+  custom_response: string;
+}
+
+export type CommandOutcome = 'success' | 'invalid' | 'error' | 'permission_denied' | 'cooldown' | 'disabled';
+
+export interface CommandUsageRecord {
+  command_name: string;
+  viewer_id: string;
+  username: string;
+  outcome: CommandOutcome;
+  error_message?: string;
+  timestamp: string;
+}
+
+export interface CommandAnalytics {
+  dailyUsage: { date: string; total: number; failures: number }[];
+  commands: {
+    command_name: string;
+    total: number;
+    failures: number;
+    last_used_at: string | null;
+    top_users: { username: string; count: number }[];
+  }[];
+  recentFailures: {
+    command_name: string;
+    username: string;
+    outcome: CommandOutcome;
+    error_message: string | null;
+    timestamp: string;
+  }[];
+}
+
+export const DEFAULT_COMMAND_PREFIX = '~';
+
+export class CommandService {
+  /**
+   * Get every command row (built-in and custom)
+   */
+  static getAllCommands(): ChatCommandRow[] {
+    const db = getDatabase();
+    return db.prepare('SELECT * FROM chat_commands ORDER BY command_name').all() as ChatCommandRow[];
+  }
+
+  /**
+   * Create or update a custom text command
+   */
+  static saveCustomCommand(command: CustomCommandInput): void {
+    const db = getDatabase();
+    db.prepare(`
+      INSERT INTO chat_commands (
+        command_name, command_prefix, aliases, description, enabled,
+        permission_level, rate_limit_seconds, cooldown_mode, response_mode, custom_response
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(command_name) DO UPDATE SET
+        command_prefix = excluded.command_prefix,
+        aliases = excluded.aliases,
+        description = excluded.description,
+        enabled = excluded.enabled,
+        permission_level = excluded.permission_level,
+        rate_limit_seconds = excluded.rate_limit_seconds,
+        cooldown_mode = excluded.cooldown_mode,
+        response_mode = excluded.response_mode,
+        custom_response = excluded.custom_response,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(
+      command.command_name.toLowerCase(),
+      command.command_prefix || DEFAULT_COMMAND_PREFIX,
+      this.formatAliases(command.aliases),
+      command.description || null,
+      command.enabled ? 1 : 0,
+      command.permission_level,
+      command.rate_limit_seconds,
+      command.cooldown_mode,
+      command.response_mode,
+      command.custom_response
+    );
+  }
+
+  /**
+   * Update prefix, aliases, permission, rate limit, response mode and enabled state for any command
+   */
+  static updateCommandSettings(commandName: string, settings: CommandSettingsInput): void {
+    const db = getDatabase();
+    db.prepare(`
+      INSERT INTO chat_commands (
+        command_name, command_prefix, aliases, enabled, permission_level, rate_limit_seconds, cooldown_mode, response_mode
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(command_name) DO UPDATE SET
+        command_prefix = excluded.command_prefix,
+        aliases = excluded.aliases,
+        enabled = excluded.enabled,
+        permission_level = excluded.permission_level,
+        rate_limit_seconds = excluded.rate_limit_seconds,
+        cooldown_mode = excluded.cooldown_mode,
+        response_mode = excluded.response_mode,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(
+      commandName.toLowerCase(),
+      settings.command_prefix || DEFAULT_COMMAND_PREFIX,
+      this.formatAliases(settings.aliases),
+      settings.enabled ? 1 : 0,
+      settings.permission_level,
+      settings.rate_limit_seconds,
+      settings.cooldown_mode,
+      settings.response_mode
+    );
+  }
+
+  /**
+   * Set the same prefix on every command
+   */
+  static setPrefixForAll(prefix: string): void {
+    const db = getDatabase();
+    db.prepare('UPDATE chat_commands SET command_prefix = ?, updated_at = CURRENT_TIMESTAMP').run(prefix);
+  }
+
+  /**
+   * Parse the stored comma-separated alias list
+   */
+  static parseAliases(aliases: string | null): string[] {
+    if (!aliases) return [];
+    return aliases.split(',').map(a => a.trim().toLowerCase()).filter(a => a);
+  }
+
+  private static formatAliases(aliases: string[]): string | null {
+    const cleaned = Array.from(new Set(aliases.map(a => a.trim().toLowerCase()).filter(a => a)));
+    return cleaned.length > 0 ? cleaned.join(',') : null;
+  }
+
+  /**
+   * Delete a custom text command (built-in rows are never deleted)
+   */
+  static deleteCustomCommand(commandName: string): void {
+    const db = getDatabase();
+    db.prepare(`
+      DELETE FROM chat_commands
+      WHERE command_name = ? AND custom_response IS NOT NULL
+    `).run(commandName.toLowerCase());
+  }
+
+  /**
+   * Record command executions (batched) and bump usage counters for successful runs
+   */
+  static insertUsage(records: CommandUsageRecord[]): void {
+    const db = getDatabase();
+    const insertStmt = db.prepare(`
+      INSERT INTO command_usage (command_name, viewer_id, username, success, outcome, error_message, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const countStmt = db.prepare(`
+      UPDATE chat_commands
+      SET usage_count = usage_count + 1, last_used_at = ?
+      WHERE command_name = ?
+    `);
+
+    const insertMany = db.transaction((rows: CommandUsageRecord[]) => {
+      for (const row of rows) {
+        // One bad record (e.g. an unknown viewer_id) shouldn't roll back the rest of the batch
+        try {
+          insertStmt.run(
+            row.command_name,
+            row.viewer_id,
+            row.username.toLowerCase(),
+            row.outcome === 'success' ? 1 : 0,
+            row.outcome,
+            row.error_message || null,
+            row.timestamp
+          );
+          if (row.outcome === 'success') {
+            countStmt.run(row.timestamp, row.command_name);
+          }
+        } catch (err) {
+          console.error(`Failed to record ${row.command_name} usage by ${row.username}:`, err);
+        }
+      }
+    });
+
+    insertMany(records);
+  }
+
+  /**
+   * Usage over time, per-command totals with top users, and recent failures
+   */
+  static getUsageAnalytics(days: number = 7): CommandAnalytics {
+    const db = getDatabase();
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const dailyUsage = db.prepare(`
+      SELECT date(timestamp, 'localtime') as date,
+             COUNT(*) as total,
+             SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as failures
+      FROM command_usage
+      WHERE timestamp >= ?
+      GROUP BY date(timestamp, 'localtime')
+      ORDER BY date
+    `).all(since) as CommandAnalytics['dailyUsage'];
+
+    const totals = db.prepare(`
+      SELECT command_name,
+             COUNT(*) as total,
+             SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as failures,
+             MAX(timestamp) as last_used_at
+      FROM command_usage
+      WHERE timestamp >= ?
+      GROUP BY command_name
+      ORDER BY total DESC
+    `).all(since) as Omit<CommandAnalytics['commands'][number], 'top_users'>[];
+
+    const userCounts = db.prepare(`
+      SELECT command_name, username, COUNT(*) as count
+      FROM command_usage
+      WHERE timestamp >= ? AND success = 1
+      GROUP BY command_name, username
+      ORDER BY count DESC
+    `).all(since) as { command_name: string; username: string; count: number }[];
+
+    const recentFailures = db.prepare(`
+      SELECT command_name, username, COALESCE(outcome, 'error') as outcome, error_message, timestamp
+      FROM command_usage
+      WHERE success = 0
+      ORDER BY timestamp DESC
+      LIMIT 25
+    `).all() as CommandAnalytics['recentFailures'];
+
+    const commands = totals.map(row => ({
+      ...row,
+      top_users: userCounts
+        .filter(u => u.command_name === row.command_name)
+        .slice(0, 3)
+        .map(({ username, count }) => ({ username, count }))
+    }));
+
+    return { dailyUsage, commands, recentFailures };
+  }
+}
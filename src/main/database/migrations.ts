@@ -38,6 +38,61 @@ export function initializeDatabase(): void {
     // Execute schema
     db.exec(SCHEMA_SQL);
     
+    // Columns added after their table was first created
+    if (currentVersion < 3) {
+      addColumnIfMissing('chat_commands', 'aliases', 'TEXT');
+      
+      // Rate limits were hardcoded before version 3, so seed rows still hold 0
+      for (const cmd of DEFAULT_COMMANDS) {
+        db.prepare(`
+          UPDATE chat_commands SET rate_limit_seconds = ?
+          WHERE command_name = ? AND custom_response IS NULL
+        `).run(cmd.rate_limit_seconds, cmd.command_name);
+      }
+      
+      // 'cooldown' was seeded but the command has always been ~cooldownvoice
+      db.prepare("DELETE FROM chat_commands WHERE command_name = 'cooldown' AND custom_response IS NULL").run();
+      
+      // Commands used to also be switched off with command_<name>_enabled settings; chat_commands.enabled is now the only switch
+      insertDefaultCommands();
+      const legacyDisabled = db.prepare(`
+        SELECT key FROM settings WHERE key LIKE ? ESCAPE '\\' AND value = 'false'
+      `).all('command\\_%\\_enabled') as { key: string }[];
+      for (const { key } of legacyDisabled) {
+        const commandName = key.slice('command_'.length, -'_enabled'.length);
+        db.prepare('UPDATE chat_commands SET enabled = 0 WHERE command_name = ?').run(commandName);
+      }
+      const legacy = db.prepare("DELETE FROM settings WHERE key LIKE ? ESCAPE '\\'")
+        .run('command\\_%\\_enabled');
+      console.log(`Moved ${legacy.changes} legacy command enabled settings to chat_commands`);
+    }
+    
+    if (currentVersion < 4) {
+      addColumnIfMissing('chat_commands', 'cooldown_mode', "TEXT DEFAULT 'user'");
+      
+      // Command cooldowns used to be stored as command_<name>_lastused_<viewerId> settings
+      const legacy = db.prepare("DELETE FROM settings WHERE key LIKE ? ESCAPE '\\'")
+        .run('command\\_%\\_lastused\\_%');
+      console.log(`Removed ${legacy.changes} legacy command cooldown settings`);
+    }
+    
+    if (currentVersion < 5) {
+      addColumnIfMissing('command_usage', 'outcome', 'TEXT');
+    }
+    
+    if (currentVersion < 6) {
+      addColumnIfMissing('viewer_voice_preferences', 'voice_locked', 'BOOLEAN DEFAULT 0');
+      addColumnIfMissing('viewer_voice_preferences', 'locked_by', 'TEXT');
+    }
+    
+    if (currentVersion < 7) {
+      addColumnIfMissing('chat_commands', 'response_mode', "TEXT DEFAULT 'public'");
+    }
+    
+    if (currentVersion < 9) {
+      addColumnIfMissing('viewers', 'spoken_name', 'TEXT');
+    }
+    
     // Update schema version
     db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(SCHEMA_VERSION);
     
@@ -58,6 +113,19 @@ export function initializeDatabase(): void {
   });
 }
 
+function addColumnIfMissing(table: string, column: string, definition: string): void {
+  const db = getDatabase();
+  try {
+    db.prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`).run();
+    console.log(`Added ${column} column to ${table} table`);
+  } catch (err: any) {
+    // Fresh databases already have the column from SCHEMA_SQL
+    if (!err.message.includes('duplicate column')) {
+      console.error(`Failed to add ${column} column:`, err);
+    }
+  }
+}
+
 function insertDefaultSettings(): void {
   const db = getDatabase();
   
@@ -99,7 +167,33 @@ function insertDefaultSettings(): void {
     { key: 'tts_google_service_account_json', value: '' },
     // Voice scanning
     { key: 'tts_voices_last_scanned', value: '' },
-    { key: 'tts_auto_scan_on_startup', value: 'true' }
+    { key: 'tts_auto_scan_on_startup', value: 'true' },
+    // Queue backlog handling (max size 0 = unlimited)
+    { key: 'tts_queue_max_size', value: '0' },
+    { key: 'tts_queue_overflow_policy', value: 'drop-oldest' },
+    { key: 'tts_catchup_enabled', value: 'false' },
+    { key: 'tts_catchup_start_at', value: '5' },
+    { key: 'tts_catchup_step', value: '0.15' },
+    { key: 'tts_catchup_max_rate', value: '1.6' },
+    // Per-viewer fairness (max per user 0 = unlimited)
+    { key: 'tts_fairness_mode', value: 'fifo' },
+    { key: 'tts_fairness_max_per_user', value: '0' },
+    { key: 'tts_fairness_over_cap', value: 'drop' },
+    // Synthesized audio cache (0 = disabled)
+    { key: 'tts_audio_cache_max_mb', value: '100' },
+    // Moderator approval mode
+    { key: 'tts_approval_enabled', value: 'false' },
+    { key: 'tts_approval_timeout_seconds', value: '300' },
+    { key: 'tts_approval_bypass_redeems', value: 'false' },
+    { key: 'tts_approval_bypass_bits', value: 'false' },
+    // Language detection (voices: JSON map of language code to voice ID; empty allowlist = all languages)
+    { key: 'tts_language_detection_enabled', value: 'false' },
+    { key: 'tts_language_voices', value: '{}' },
+    { key: 'tts_language_allowlist', value: '' },
+    // Queue priority lanes, highest first
+    { key: 'tts_lane_order', value: 'broadcaster,redeem,bits,moderator,subscriber,chat' },
+    // Chat commands
+    { key: 'command_cooldowns_persist', value: 'true' }
   ];
   
   const insertStmt = db.prepare(`
@@ -111,48 +205,47 @@ function insertDefaultSettings(): void {
   }
 }
 
+// Built-in chat commands; permission and rate limit are editable from the Commands page
+const DEFAULT_COMMANDS = [
+  { command_name: 'hello', description: 'Greet the user', permission_level: 'viewer', rate_limit_seconds: 5 },
+  { command_name: 'voices', description: 'List available TTS voices', permission_level: 'viewer', rate_limit_seconds: 10 },
+  { command_name: 'setvoice', description: 'Set your TTS voice', permission_level: 'viewer', rate_limit_seconds: 5 },
+  { command_name: 'setvoicepitch', description: 'Set your voice pitch', permission_level: 'viewer', rate_limit_seconds: 5 },
+  { command_name: 'setvoicespeed', description: 'Set your voice speed', permission_level: 'viewer', rate_limit_seconds: 5 },
+  { command_name: 'setvoicevolume', description: 'Set your voice volume', permission_level: 'viewer', rate_limit_seconds: 5 },
+  { command_name: 'myvoice', description: 'Show your current voice settings', permission_level: 'viewer', rate_limit_seconds: 5 },
+  { command_name: 'resetvoice', description: 'Reset to the channel default voice', permission_level: 'viewer', rate_limit_seconds: 5 },
+  { command_name: 'sayname', description: 'Set how TTS says your name', permission_level: 'viewer', rate_limit_seconds: 10 },
+  { command_name: 'previewvoice', description: 'Hear a voice without switching to it', permission_level: 'viewer', rate_limit_seconds: 30 },
+  { command_name: 'setvoicefor', description: 'Set another viewer\'s voice and prosody (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'resetvoicefor', description: 'Reset another viewer\'s voice (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'lockvoice', description: 'Stop a viewer from changing their voice (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'unlockvoice', description: 'Let a viewer change their voice again (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'mutevoice', description: 'Mute a viewer\'s TTS (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'unmutevoice', description: 'Unmute a viewer\'s TTS (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'cooldownvoice', description: 'Set TTS cooldown for a viewer (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'uncooldownvoice', description: 'Remove TTS cooldown from a viewer (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'mutetts', description: 'Disable all TTS globally (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'unmutetts', description: 'Enable all TTS globally (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'clearqueue', description: 'Clear the TTS queue (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'skip', description: 'Skip the current TTS message (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'pause', description: 'Pause TTS playback (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'resume', description: 'Resume TTS playback (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'replay', description: 'Replay the last spoken messages (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'history', description: 'List the last spoken messages (Moderator only)', permission_level: 'moderator', rate_limit_seconds: 0 },
+  { command_name: 'queue', description: 'Show your TTS queue position', permission_level: 'viewer', rate_limit_seconds: 10 },
+  { command_name: 'help', description: 'List commands or show how to use one', permission_level: 'viewer', rate_limit_seconds: 5 }
+];
+
 function insertDefaultCommands(): void {
   const db = getDatabase();
   
-  const defaultCommands = [
-    {
-      command_name: 'setvoice',
-      description: 'Set your TTS voice',
-      permission_level: 'viewer',
-      enabled: 1
-    },
-    {
-      command_name: 'mutevoice',
-      description: 'Mute a viewer\'s TTS (Moderator only)',
-      permission_level: 'moderator',
-      enabled: 1
-    },
-    {
-      command_name: 'unmutevoice',
-      description: 'Unmute a viewer\'s TTS (Moderator only)',
-      permission_level: 'moderator',
-      enabled: 1
-    },
-    {
-      command_name: 'cooldown',
-      description: 'Set TTS cooldown for a viewer (Moderator only)',
-      permission_level: 'moderator',
-      enabled: 1
-    },
-    {
-      command_name: 'voices',
-      description: 'List available TTS voices',
-      permission_level: 'viewer',
-      enabled: 1
-    }
-  ];
-  
   const insertStmt = db.prepare(`
-    INSERT OR IGNORE INTO chat_commands (command_name, description, permission_level, enabled)
-    VALUES (?, ?, ?, ?)
+    INSERT OR IGNORE INTO chat_commands (command_name, description, permission_level, rate_limit_seconds, enabled)
+    VALUES (?, ?, ?, ?, 1)
   `);
   
-  for (const cmd of defaultCommands) {
-    insertStmt.run(cmd.command_name, cmd.description, cmd.permission_level, cmd.enabled);
+  for (const cmd of DEFAULT_COMMANDS) {
+    insertStmt.run(cmd.command_name, cmd.description, cmd.permission_level, cmd.rate_limit_seconds);
   }
 }
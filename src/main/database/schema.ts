@@ -1,4 +1,4 @@
-export const SCHEMA_VERSION = 2;
+export const SCHEMA_VERSION = 9;
 
 export const SCHEMA_SQL = `
 -- Schema version tracking
@@ -26,6 +26,7 @@ CREATE TABLE IF NOT EXISTS viewers (
   first_seen_at TEXT,
   last_seen_at TEXT,
   message_count INTEGER DEFAULT 0,
+  spoken_name TEXT,                 -- How TTS announces the viewer (NULL = cleaned-up display name)
   created_at TEXT DEFAULT CURRENT_TIMESTAMP,
   updated_at TEXT DEFAULT CURRENT_TIMESTAMP
 );
@@ -57,6 +58,8 @@ CREATE TABLE IF NOT EXISTS viewer_voice_preferences (
   pitch REAL DEFAULT 1.0,
   speed REAL DEFAULT 1.0,
   volume REAL DEFAULT 1.0,
+  voice_locked BOOLEAN DEFAULT 0,   -- Set by ~lockvoice; viewer can't change their own voice
+  locked_by TEXT,                   -- Moderator username
   created_at TEXT DEFAULT CURRENT_TIMESTAMP,
   updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (viewer_id) REFERENCES viewers(id)
@@ -109,13 +112,24 @@ CREATE TABLE IF NOT EXISTS chat_commands (
   enabled BOOLEAN DEFAULT 1,
   permission_level TEXT DEFAULT 'viewer', -- 'viewer', 'moderator', 'broadcaster'
   rate_limit_seconds INTEGER DEFAULT 0,
+  cooldown_mode TEXT DEFAULT 'user',      -- 'user' (per viewer) or 'global'
+  response_mode TEXT DEFAULT 'public',    -- 'public', 'reply' (threaded) or 'whisper'
   custom_response TEXT,
+  aliases TEXT,                     -- Comma-separated alternative names
   usage_count INTEGER DEFAULT 0,
   last_used_at TEXT,
   created_at TEXT DEFAULT CURRENT_TIMESTAMP,
   updated_at TEXT DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Command cooldowns table (optional persistence for the in-memory tracker)
+CREATE TABLE IF NOT EXISTS command_cooldowns (
+  command_name TEXT NOT NULL,
+  scope TEXT NOT NULL,              -- Viewer ID, or '*' for global cooldowns
+  last_used_at TEXT NOT NULL,
+  PRIMARY KEY (command_name, scope)
+);
+
 -- Command usage table
 CREATE TABLE IF NOT EXISTS command_usage (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -123,6 +137,7 @@ CREATE TABLE IF NOT EXISTS command_usage (
   viewer_id TEXT NOT NULL,
   username TEXT NOT NULL,
   success BOOLEAN DEFAULT 1,
+  outcome TEXT,                     -- 'success', 'invalid', 'error', 'permission_denied', 'cooldown', 'disabled'
   error_message TEXT,
   timestamp TEXT NOT NULL,
   FOREIGN KEY (viewer_id) REFERENCES viewers(id)
@@ -131,6 +146,18 @@ CREATE TABLE IF NOT EXISTS command_usage (
 CREATE INDEX IF NOT EXISTS idx_usage_command ON command_usage(command_name);
 CREATE INDEX IF NOT EXISTS idx_usage_timestamp ON command_usage(timestamp DESC);
 
+-- Timed chat announcements table
+CREATE TABLE IF NOT EXISTS chat_announcements (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  message TEXT NOT NULL,
+  interval_minutes INTEGER NOT NULL DEFAULT 20,
+  min_chat_messages INTEGER NOT NULL DEFAULT 0, -- Chat messages required since the last post
+  enabled BOOLEAN DEFAULT 1,
+  last_sent_at TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
 -- TTS access redeems table
 CREATE TABLE IF NOT EXISTS tts_access_redeems (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -17,6 +17,7 @@ export interface Viewer {
   first_seen_at?: string;
   last_seen_at?: string;
   message_count?: number;
+  spoken_name?: string | null;
 }
 
 export interface ChatMessage {
@@ -29,8 +30,16 @@ export interface ChatMessage {
   emotes?: string;
   badges?: string;
   was_read_by_tts?: boolean;
+  bits?: number;      // Cheer amount (not stored)
+  reward_id?: string; // Channel point reward that carried the message (not stored)
+  message_id?: string; // Twitch message ID, used to drop the message from TTS if it is deleted (not stored)
+  reply_parent_login?: string; // Author of the message this one replies to; Twitch prefixes "@login " (not stored)
 }
 
+type SettingChangeListener = (key: string, value: string) => void;
+
+const settingChangeListeners = new Set<SettingChangeListener>();
+
 export class DatabaseService {
   // Settings
   static getSetting(key: string): string | null {
@@ -43,6 +52,20 @@ export class DatabaseService {
     const db = getDatabase();
     db.prepare('INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)')
       .run(key, value);
+
+    settingChangeListeners.forEach(listener => {
+      try {
+        listener(key, value);
+      } catch (err) {
+        console.error(`Setting change listener failed for ${key}:`, err);
+      }
+    });
+  }
+
+  // Called after every setSetting; returns a function that stops listening
+  static onSettingChange(listener: SettingChangeListener): () => void {
+    settingChangeListeners.add(listener);
+    return () => settingChangeListeners.delete(listener);
   }
 
   static getAllSettings(): Setting[] {
@@ -127,6 +150,13 @@ export class DatabaseService {
       .run(isBanned ? 1 : 0, viewerId);
   }
 
+  static setViewerSpokenName(viewerId: string, spokenName: string | null): boolean {
+    const db = getDatabase();
+    const result = db.prepare('UPDATE viewers SET spoken_name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+      .run(spokenName, viewerId);
+    return result.changes > 0;
+  }
+
   static resetViewerStatuses(): void {
     const db = getDatabase();
     db.prepare(`
@@ -205,6 +235,28 @@ export class DatabaseService {
     return row || null;
   }
 
+  static isVoiceLocked(viewerId: string): boolean {
+    const db = getDatabase();
+    const row = db.prepare('SELECT voice_locked FROM viewer_voice_preferences WHERE viewer_id = ?')
+      .get(viewerId) as { voice_locked: number } | undefined;
+    return row?.voice_locked === 1;
+  }
+
+  static setVoiceLock(viewerId: string, locked: boolean, lockedBy: string | null): void {
+    const db = getDatabase();
+    db.prepare(`
+      UPDATE viewer_voice_preferences
+      SET voice_locked = ?, locked_by = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE viewer_id = ?
+    `).run(locked ? 1 : 0, locked ? lockedBy : null, viewerId);
+  }
+
+  static deleteVoicePreference(viewerId: string): boolean {
+    const db = getDatabase();
+    const result = db.prepare('DELETE FROM viewer_voice_preferences WHERE viewer_id = ?').run(viewerId);
+    return result.changes > 0;
+  }
+
   // TTS Restrictions
   static muteViewer(viewerId: string, periodMinutes: number | null = null): void {
     const db = getDatabase();
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  settings: new Map<string, string>(),
+  listeners: new Set<(key: string, value: string) => void>()
+}));
+
+vi.mock('./service', () => ({
+  DatabaseService: {
+    getSetting: vi.fn((key: string) => mocks.settings.get(key) || null),
+    onSettingChange: vi.fn((listener: (key: string, value: string) => void) => {
+      mocks.listeners.add(listener);
+      return () => mocks.listeners.delete(listener);
+    })
+  }
+}));
+
+import { DatabaseService } from './service';
+import { getCachedSetting } from './settingsCache';
+
+// Save a setting the way DatabaseService.setSetting does, telling listeners
+function setSetting(key: string, value: string): void {
+  mocks.settings.set(key, value);
+  mocks.listeners.forEach(listener => listener(key, value));
+}
+
+describe('getCachedSetting', () => {
+  beforeEach(() => {
+    vi.mocked(DatabaseService.getSetting).mockClear();
+  });
+
+  it('reads each setting from the database once', () => {
+    mocks.settings.set('tts_default_voice', 'Brian');
+
+    expect(getCachedSetting('tts_default_voice')).toBe('Brian');
+    expect(getCachedSetting('tts_default_voice')).toBe('Brian');
+    expect(getCachedSetting('tts_missing')).toBeNull();
+    expect(getCachedSetting('tts_missing')).toBeNull();
+    expect(DatabaseService.getSetting).toHaveBeenCalledTimes(2);
+  });
+
+  it('picks up changes without going back to the database', () => {
+    getCachedSetting('tts_enabled');
+    setSetting('tts_enabled', 'false');
+
+    expect(getCachedSetting('tts_enabled')).toBe('false');
+    expect(DatabaseService.getSetting).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats a setting saved as empty like a missing one', () => {
+    mocks.settings.set('tts_bot_list', 'Nightbot');
+    expect(getCachedSetting('tts_bot_list')).toBe('Nightbot');
+    setSetting('tts_bot_list', '');
+
+    expect(getCachedSetting('tts_bot_list')).toBeNull();
+  });
+});
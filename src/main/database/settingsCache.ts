@@ -0,0 +1,23 @@
+// Settings Cache
+// In-memory copy of settings read for every chat message, kept current by DatabaseService.setSetting
+
+import { DatabaseService } from './service';
+
+const cache = new Map<string, string | null>();
+let listening = false;
+
+/**
+ * Read a setting, going to the database only the first time it is asked for
+ */
+export function getCachedSetting(key: string): string | null {
+  if (!listening) {
+    // Same empty-string-to-null rule as getSetting
+    DatabaseService.onSettingChange((changedKey, value) => cache.set(changedKey, value || null));
+    listening = true;
+  }
+
+  if (!cache.has(key)) {
+    cache.set(key, DatabaseService.getSetting(key));
+  }
+  return cache.get(key) ?? null;
+}
@@ -7,13 +7,23 @@ import { VoiceService } from './database/voiceService';
 import { getTwitchService } from './twitch/twitchService';
 import { TwitchOAuthService } from './twitch/oauthService';
 import { getTwitchApiService } from './twitch/twitchApiService';
+import { getAnnouncementScheduler } from './twitch/announcementScheduler';
 import { getOBSServer } from './obs/obsServer';
 import { getApiServer } from './api/apiServer';
 import { getAwsPollyService } from './tts/awsPollyService';
 import { getAzureTtsService } from './tts/azureTtsService';
 import { getGoogleTtsService } from './tts/googleTtsService';
 import { getVoiceScannerService } from './tts/voiceScannerService';
+import { getAudioCache, DEFAULT_AUDIO_CACHE_MB } from './tts/audioCache';
 import { getDiscordService } from './discord/discordService';
+import { CommandService, CommandSettingsInput, CustomCommandInput } from './database/commandService';
+import { AnnouncementService, AnnouncementInput } from './database/announcementService';
+import { getCommandProcessor } from './commands/commandProcessor';
+import { getTTSQueue, TTSRequest, TTSLane, BacklogSettings, FairnessSettings } from './tts/ttsQueue';
+import { getTTSPipeline } from './tts/ttsPipeline';
+import { getApprovalQueue } from './tts/approvalQueue';
+import { AppWindowPlayer, OverlayPlayer } from './tts/ttsPlayers';
+import { synthesizeSpeech } from './tts/synthesis';
 
 // Initialize database immediately on module load
 console.log('Initializing database...');
@@ -27,6 +37,11 @@ const oauthService = new TwitchOAuthService();
 const obsServer = getOBSServer();
 const apiServer = getApiServer();
 const discordService = getDiscordService();
+const announcementScheduler = getAnnouncementScheduler();
+const ttsQueue = getTTSQueue();
+const ttsPipeline = getTTSPipeline();
+const approvalQueue = getApprovalQueue();
+const appWindowPlayer = new AppWindowPlayer();
 
 function createWindow(): void {
   mainWindow = new BrowserWindow({
@@ -41,6 +56,7 @@ function createWindow(): void {
     },
     title: 'Stream Yap Yap'
   });
+  appWindowPlayer.attach(mainWindow);
 
   // Load the app
   if (process.env.NODE_ENV === 'development') {
@@ -58,14 +74,52 @@ function createWindow(): void {
 // Initialize database before creating window
 app.on('ready', () => {
   createWindow();
+
+  // The TTS queue runs here; the app window and OBS overlay play what it hands them
+  ttsQueue.setPlayers(appWindowPlayer, new OverlayPlayer());
+  ttsQueue.loadSettings();
+  ttsQueue.onStateChange((state) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('tts:queue:state', state);
+    }
+  });
+  approvalQueue.onChange((held) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('tts:approval:held', held);
+    }
+  });
   
   // Set up Twitch service callbacks to send events to renderer
   twitchService.onMessage((message) => {
+    announcementScheduler.recordChatMessage();
+    ttsPipeline.processMessage(message);
     if (mainWindow) {
       mainWindow.webContents.send('twitch:message', message);
     }
   });
   
+  // Deleted messages, timeouts, bans and chat clears pull the affected messages from TTS
+  twitchService.onModeration((event) => {
+    const matches = (request: TTSRequest) => {
+      switch (event.type) {
+        case 'delete':
+          return !!request.messageIds?.includes(event.messageId);
+        case 'timeout':
+        case 'ban':
+          if (!request.messageIds) return false;
+          return event.viewerId
+            ? request.viewerId === event.viewerId
+            : request.username?.toLowerCase() === event.username;
+        case 'clear':
+          return !!request.messageIds;
+      }
+    };
+    const removed = ttsQueue.removeMatching(matches) + approvalQueue.removeMatching(matches);
+    if (removed > 0) {
+      console.log(`Removed ${removed} TTS message(s) after chat ${event.type}`);
+    }
+  });
+  
   twitchService.onConnectionStatus((connected, error) => {
     if (mainWindow) {
       mainWindow.webContents.send('twitch:connectionStatus', { connected, error });
@@ -78,6 +132,13 @@ app.on('ready', () => {
     }
   });
   
+  // Let the window know when any setting changes, including from chat commands and the API
+  DatabaseService.onSettingChange((key, value) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('settings:changed', key, value);
+    }
+  });
+
   // Forward API server events to renderer
   apiServer.on('tts-toggled', (enabled: boolean) => {
     if (mainWindow) {
@@ -85,6 +146,9 @@ app.on('ready', () => {
     }
   });
   
+  // Timed chat announcements only post while connected to Twitch
+  announcementScheduler.start();
+  
   // Start API server (always running)
   apiServer.start().catch(err => {
     console.error('Failed to start API server:', err);
@@ -178,6 +242,10 @@ app.on('ready', () => {
     }
   }
 
+  // Synthesized audio cache size (0 disables it)
+  const cacheMaxMb = parseInt(DatabaseService.getSetting('tts_audio_cache_max_mb') || '');
+  getAudioCache().setMaxSize(isNaN(cacheMaxMb) ? DEFAULT_AUDIO_CACHE_MB : cacheMaxMb);
+
   // Auto-scan voices on startup if any provider is configured
   const lastScan = DatabaseService.getSetting('tts_voices_last_scanned');
   const anyProviderConfigured = 
@@ -200,7 +268,10 @@ app.on('ready', () => {
 });
 
 app.on('window-all-closed', () => {
+  announcementScheduler.destroy();
+  approvalQueue.destroy();
   twitchService.destroy();
+  getCommandProcessor().destroy();
   discordService.destroy();
   obsServer.stop();
   apiServer.stop();
@@ -346,29 +417,6 @@ ipcMain.handle('obs:getStatus', () => {
 ipcMain.handle('api:getUrl', async () => {
   return apiServer.getURL();
 });
-ipcMain.handle('obs:broadcastEvent', (_event, event: { type: string; item?: any }) => {
-  obsServer.broadcast(event);
-  return true;
-});
-
-// Wait for OBS audio completion
-ipcMain.handle('obs:waitForAudioComplete', () => {
-  return new Promise((resolve) => {
-    const timeout = setTimeout(() => {
-      console.log('[Main] ⚠️ TIMEOUT waiting for audio completion after 30 seconds');
-      obsServer.off('audioComplete', handler);
-      resolve({ success: false, error: 'Timeout waiting for audio completion' });
-    }, 30000); // 30 second timeout
-    
-    const handler = () => {
-      clearTimeout(timeout);
-      obsServer.off('audioComplete', handler);
-      resolve({ success: true });
-    };
-    
-    obsServer.once('audioComplete', handler);
-  });
-});
 
 // Twitch IPC handlers
 ipcMain.handle('twitch:connect', async (_event, params: { token: string; channels: string[] } | string, tokenOrChannels?: string | string[]) => {
@@ -528,6 +576,226 @@ ipcMain.handle('db:getViewer', async (_event, viewerId: string) => {
   return DatabaseService.getViewerById(viewerId);
 });
 
+ipcMain.handle('db:setViewerSpokenName', async (_event, viewerId: string, spokenName: string | null) => {
+  try {
+    const name = spokenName?.trim().replace(/\s+/g, ' ') || null;
+    if (!DatabaseService.setViewerSpokenName(viewerId, name)) {
+      return { success: false, error: 'Viewer not found' };
+    }
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+// Chat command handlers
+const COMMAND_NAME_PATTERN = /^[a-z0-9_]+$/;
+
+function validateCommandSettings(commandName: string, settings: CommandSettingsInput): string | null {
+  const prefix = (settings.command_prefix || '').trim();
+  if (!prefix || /\s/.test(prefix) || prefix.length > 3) {
+    return 'Prefix must be 1-3 characters with no spaces';
+  }
+  for (const alias of settings.aliases) {
+    if (!COMMAND_NAME_PATTERN.test(alias)) {
+      return `Alias "${alias}" may only contain letters, numbers and underscores`;
+    }
+  }
+  if (!['viewer', 'moderator', 'broadcaster'].includes(settings.permission_level)) {
+    return `Invalid permission level: ${settings.permission_level}`;
+  }
+  if (!['user', 'global'].includes(settings.cooldown_mode)) {
+    return `Invalid cooldown mode: ${settings.cooldown_mode}`;
+  }
+  if (!['public', 'reply', 'whisper'].includes(settings.response_mode)) {
+    return `Invalid response mode: ${settings.response_mode}`;
+  }
+  const conflict = getCommandProcessor().findTriggerConflict(commandName, prefix, [commandName, ...settings.aliases]);
+  if (conflict) {
+    return `${prefix}${commandName} or one of its aliases is already used by ${prefix}${conflict}`;
+  }
+  return null;
+}
+
+function normalizeCommandSettings(settings: CommandSettingsInput): CommandSettingsInput {
+  return {
+    command_prefix: (settings.command_prefix || '').trim(),
+    aliases: (settings.aliases || []).map(a => a.trim().toLowerCase().replace(/^[^a-z0-9_]+/, '')).filter(a => a),
+    permission_level: settings.permission_level,
+    rate_limit_seconds: Math.max(0, Math.floor(settings.rate_limit_seconds || 0)),
+    cooldown_mode: settings.cooldown_mode || 'user',
+    response_mode: settings.response_mode || 'public',
+    enabled: settings.enabled
+  };
+}
+
+ipcMain.handle('commands:getAll', async () => {
+  return getCommandProcessor().getCommandList();
+});
+
+ipcMain.handle('commands:updateSettings', async (_event, commandName: string, settings: CommandSettingsInput) => {
+  try {
+    const name = commandName.toLowerCase();
+    const normalized = normalizeCommandSettings(settings);
+    const error = validateCommandSettings(name, normalized);
+    if (error) {
+      return { success: false, error };
+    }
+
+    CommandService.updateCommandSettings(name, normalized);
+    getCommandProcessor().reloadCommands();
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('commands:setPrefix', async (_event, prefix: string) => {
+  try {
+    const trimmed = (prefix || '').trim();
+    if (!trimmed || /\s/.test(trimmed) || trimmed.length > 3) {
+      return { success: false, error: 'Prefix must be 1-3 characters with no spaces' };
+    }
+
+    CommandService.setPrefixForAll(trimmed);
+    getCommandProcessor().reloadCommands();
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('commands:setCooldownPersistence', async (_event, persistent: boolean) => {
+  try {
+    DatabaseService.setSetting('command_cooldowns_persist', persistent ? 'true' : 'false');
+    getCommandProcessor().setCooldownPersistence(persistent);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('commands:saveCustom', async (_event, command: CustomCommandInput) => {
+  try {
+    const name = (command.command_name || '').trim().toLowerCase();
+    if (!COMMAND_NAME_PATTERN.test(name)) {
+      return { success: false, error: 'Command name may only contain letters, numbers and underscores' };
+    }
+    if (getCommandProcessor().isBuiltInCommand(name)) {
+      return { success: false, error: `${name} is a built-in command` };
+    }
+    if (!command.custom_response || !command.custom_response.trim()) {
+      return { success: false, error: 'Response is required' };
+    }
+
+    const normalized = normalizeCommandSettings(command);
+    const error = validateCommandSettings(name, normalized);
+    if (error) {
+      return { success: false, error };
+    }
+
+    CommandService.saveCustomCommand({
+      ...normalized,
+      command_name: name,
+      description: command.description,
+      custom_response: command.custom_response.trim()
+    });
+    getCommandProcessor().reloadCommands();
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('commands:deleteCustom', async (_event, commandName: string) => {
+  try {
+    CommandService.deleteCustomCommand(commandName);
+    getCommandProcessor().reloadCommands();
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('commands:getAnalytics', async (_event, days: number = 7) => {
+  try {
+    // Include executions still waiting to be flushed
+    getCommandProcessor().flushUsage();
+    return { success: true, analytics: CommandService.getUsageAnalytics(days) };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+// IPC handlers for timed chat announcements
+const MIN_ANNOUNCEMENT_INTERVAL_MINUTES = 5;
+
+ipcMain.handle('announcements:getAll', async () => {
+  return AnnouncementService.getAllAnnouncements();
+});
+
+ipcMain.handle('announcements:save', async (_event, announcement: AnnouncementInput) => {
+  try {
+    const message = (announcement.message || '').trim();
+    const intervalMinutes = Math.floor(Number(announcement.interval_minutes));
+    const minChatMessages = Math.floor(Number(announcement.min_chat_messages) || 0);
+
+    if (!message) {
+      return { success: false, error: 'Message is required' };
+    }
+    if (message.length > 500) {
+      return { success: false, error: 'Message must be 500 characters or fewer' };
+    }
+    if (isNaN(intervalMinutes) || intervalMinutes < MIN_ANNOUNCEMENT_INTERVAL_MINUTES) {
+      return { success: false, error: `Interval must be at least ${MIN_ANNOUNCEMENT_INTERVAL_MINUTES} minutes` };
+    }
+    if (minChatMessages < 0) {
+      return { success: false, error: 'Minimum chat messages cannot be negative' };
+    }
+
+    const id = AnnouncementService.saveAnnouncement({
+      id: announcement.id,
+      message,
+      interval_minutes: intervalMinutes,
+      min_chat_messages: minChatMessages,
+      enabled: announcement.enabled !== false
+    });
+    return { success: true, id };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('announcements:setEnabled', async (_event, id: number, enabled: boolean) => {
+  try {
+    AnnouncementService.setEnabled(id, enabled);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('announcements:delete', async (_event, id: number) => {
+  try {
+    AnnouncementService.deleteAnnouncement(id);
+    announcementScheduler.forget(id);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('announcements:sendNow', async (_event, id: number) => {
+  try {
+    if (!announcementScheduler.sendNow(id)) {
+      return { success: false, error: 'Connect to Twitch chat first' };
+    }
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
 // Test handler
 ipcMain.handle('ping', async () => {
   return 'pong';
@@ -693,29 +961,92 @@ ipcMain.handle('tts:scanVoices', async () => {
   }
 });
 
-ipcMain.handle('tts:synthesize', async (_event, { text, voiceId, provider, speed, volume }) => {
+// TTS queue controls; the queue pushes its state to the window on 'tts:queue:state'
+ipcMain.handle('tts:queue:getState', () => {
+  return ttsQueue.getState();
+});
+
+ipcMain.handle('tts:queue:add', (_event, request: TTSRequest) => {
+  ttsQueue.add(request);
+  return true;
+});
+
+ipcMain.handle('tts:queue:remove', (_event, id: string) => {
+  return ttsQueue.remove(id);
+});
+
+ipcMain.handle('tts:queue:clear', () => {
+  ttsQueue.clear();
+  return true;
+});
+
+ipcMain.handle('tts:queue:skip', () => {
+  ttsQueue.skip();
+  return true;
+});
+
+ipcMain.handle('tts:queue:pause', () => {
+  ttsQueue.pause();
+  return true;
+});
+
+ipcMain.handle('tts:queue:resume', () => {
+  ttsQueue.resume();
+  return true;
+});
+
+ipcMain.handle('tts:queue:replay', (_event, id: string) => {
+  return ttsQueue.replayById(id);
+});
+
+ipcMain.handle('tts:queue:setLaneOrder', (_event, order: TTSLane[]) => {
+  ttsQueue.setLaneOrder(order);
+  return true;
+});
+
+ipcMain.handle('tts:queue:setBacklogSettings', (_event, settings: BacklogSettings) => {
+  ttsQueue.setBacklogSettings(settings);
+  return true;
+});
+
+ipcMain.handle('tts:queue:setFairnessSettings', (_event, settings: FairnessSettings) => {
+  ttsQueue.setFairnessSettings(settings);
+  return true;
+});
+
+// Messages held for moderator approval
+ipcMain.handle('tts:approval:getHeld', () => {
+  return approvalQueue.getHeld();
+});
+
+ipcMain.handle('tts:approval:approve', (_event, id: string, editedText?: string) => {
+  if (!approvalQueue.approve(id, editedText)) {
+    return { success: false, error: 'Message is no longer waiting for approval' };
+  }
+  return { success: true };
+});
+
+ipcMain.handle('tts:approval:reject', (_event, id: string) => {
+  if (!approvalQueue.reject(id)) {
+    return { success: false, error: 'Message is no longer waiting for approval' };
+  }
+  return { success: true };
+});
+
+// The window's player reports when it can play and when each item finishes
+ipcMain.handle('tts:player:ready', () => {
+  appWindowPlayer.setReady();
+  return true;
+});
+
+ipcMain.handle('tts:player:complete', (_event, id: string, error?: string) => {
+  appWindowPlayer.complete(id, error);
+  return true;
+});
+
+ipcMain.handle('tts:synthesize', async (_event, { text, voiceId, provider, pitch, speed, volume }) => {
   try {
-    let audioBuffer: Buffer;
-    
-    switch (provider) {
-      case 'aws': {
-        const awsService = getAwsPollyService();
-        audioBuffer = await awsService.synthesize(text, voiceId, { speed, volume });
-        break;
-      }
-      case 'azure': {
-        const azureService = getAzureTtsService();
-        audioBuffer = await azureService.synthesize(text, voiceId, { speed, volume });
-        break;
-      }
-      case 'google': {
-        const googleService = getGoogleTtsService();
-        audioBuffer = await googleService.synthesize(text, voiceId, { speed, volume });
-        break;
-      }
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
+    const audioBuffer = await synthesizeSpeech({ text, voiceId, provider, pitch, speed, volume });
     
     // Return audio as base64 for playback in renderer
     const base64Audio = audioBuffer.toString('base64');
@@ -726,3 +1057,31 @@ ipcMain.handle('tts:synthesize', async (_event, { text, voiceId, provider, speed
   }
 });
 
+ipcMain.handle('tts:cache:getStats', async () => {
+  return getAudioCache().getStats();
+});
+
+ipcMain.handle('tts:cache:setMaxSize', async (_event, megabytes: number) => {
+  try {
+    const value = Math.floor(Number(megabytes));
+    if (isNaN(value) || value < 0) {
+      return { success: false, error: 'Cache size must be 0 or more megabytes' };
+    }
+
+    DatabaseService.setSetting('tts_audio_cache_max_mb', value.toString());
+    getAudioCache().setMaxSize(value);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('tts:cache:clear', async () => {
+  try {
+    getAudioCache().clear();
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
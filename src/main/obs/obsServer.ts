@@ -112,6 +112,17 @@ export class OBSServer extends EventEmitter {
       margin-bottom: 5px;
     }
 
+    .tts-lane {
+      display: inline-block;
+      margin-left: 8px;
+      padding: 2px 8px;
+      border-radius: 10px;
+      background: rgba(145, 71, 255, 0.4);
+      color: #ffffff;
+      font-size: 12px;
+      font-weight: normal;
+    }
+
     .tts-text {
       color: #ffffff;
       font-size: 16px;
@@ -151,6 +162,13 @@ export class OBSServer extends EventEmitter {
     let ws = null;
     let reconnectTimeout = null;
     const messages = new Map();
+    const LANE_LABELS = {
+      broadcaster: 'Broadcaster',
+      redeem: 'Redeem',
+      bits: 'Bits',
+      moderator: 'Mod',
+      subscriber: 'Sub'
+    };
     let currentAudio = null; // Keep reference to prevent garbage collection
 
     function connect() {
@@ -205,11 +223,11 @@ export class OBSServer extends EventEmitter {
           if (item.audioUrl) {
             // Play audio from cloud provider (AWS/Azure/GCP)
             console.log('[OBS Overlay] Playing from audioUrl');
-            playAudioUrl(item.audioUrl);
+            playAudioUrl(item.audioUrl, item.playbackRate);
           } else if (item.audioData) {
             // Play base64 encoded audio
             console.log('[OBS Overlay] Playing from audioData');
-            playAudioData(item.audioData);
+            playAudioData(item.audioData, item.playbackRate);
           } else {
             // Fallback: synthesize using WebSpeech
             console.log('[OBS Overlay] Falling back to WebSpeech');
@@ -222,10 +240,37 @@ export class OBSServer extends EventEmitter {
         case 'queue':
           // Optional: Show queue count
           break;
+        case 'skip':
+          skipCurrent();
+          break;
+        case 'remove':
+          // Moderated message: stop it and take it off screen right away
+          skipCurrent();
+          removeMessage(item.id);
+          break;
+        case 'pause':
+          if (currentAudio) currentAudio.pause();
+          window.speechSynthesis?.pause();
+          break;
+        case 'resume':
+          if (currentAudio) currentAudio.play().catch(err => console.error('[OBS Overlay] Resume failed:', err));
+          window.speechSynthesis?.resume();
+          break;
+      }
+    }
+
+    function skipCurrent() {
+      if (currentAudio) {
+        currentAudio.pause();
+        currentAudio = null;
+        notifyAudioComplete();
+      } else if (window.speechSynthesis?.speaking) {
+        // Cancelling fires the utterance's onerror, which reports completion
+        window.speechSynthesis.cancel();
       }
     }
 
-    function playAudioUrl(url) {
+    function playAudioUrl(url, playbackRate) {
       console.log('[OBS Overlay] playAudioUrl called with:', url.substring(0, 100));
       // Stop any currently playing audio
       if (currentAudio) {
@@ -234,6 +279,7 @@ export class OBSServer extends EventEmitter {
       }
       
       currentAudio = new Audio(url);
+      currentAudio.playbackRate = playbackRate || 1.0; // Catch-up speed while the queue is backed up
       currentAudio.onended = () => {
         console.log('[OBS Overlay] Audio URL playback ended');
         currentAudio = null;
@@ -253,7 +299,7 @@ export class OBSServer extends EventEmitter {
       });
     }
 
-    function playAudioData(base64Data) {
+    function playAudioData(base64Data, playbackRate) {
       console.log('[OBS Overlay] playAudioData called, data length:', base64Data?.length || 0);
       // Stop any currently playing audio
       if (currentAudio) {
@@ -263,6 +309,7 @@ export class OBSServer extends EventEmitter {
       
       try {
         currentAudio = new Audio('data:audio/mp3;base64,' + base64Data);
+        currentAudio.playbackRate = playbackRate || 1.0;
         currentAudio.onended = () => {
           console.log('[OBS Overlay] Audio data playback ended');
           currentAudio = null;
@@ -318,7 +365,7 @@ export class OBSServer extends EventEmitter {
       }
 
       // Apply voice settings
-      utterance.rate = item.speed || 1.0;
+      utterance.rate = (item.speed || 1.0) * (item.playbackRate || 1.0);
       utterance.pitch = item.pitch || 1.0;
       utterance.volume = item.volume || 1.0;
 
@@ -348,6 +395,14 @@ export class OBSServer extends EventEmitter {
       const usernameEl = document.createElement('div');
       usernameEl.className = 'tts-username';
       usernameEl.textContent = item.username || 'Unknown';
+
+      // Tag priority lanes (redeems, bits, ...); regular chat gets no tag
+      if (item.lane && item.lane !== 'chat') {
+        const laneEl = document.createElement('span');
+        laneEl.className = 'tts-lane tts-lane-' + item.lane;
+        laneEl.textContent = LANE_LABELS[item.lane] || item.lane;
+        usernameEl.appendChild(laneEl);
+      }
       
       const textEl = document.createElement('div');
       textEl.className = 'tts-text';
@@ -487,6 +542,26 @@ export class OBSServer extends EventEmitter {
     });
   }
 
+  // Resolves true when an overlay reports its audio finished, false on timeout
+  waitForAudioComplete(timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const handler = () => {
+        clearTimeout(timeout);
+        resolve(true);
+      };
+      const timeout = setTimeout(() => {
+        this.off('audioComplete', handler);
+        resolve(false);
+      }, timeoutMs);
+
+      this.once('audioComplete', handler);
+    });
+  }
+
+  getClientCount(): number {
+    return this.wss ? this.wss.clients.size : 0;
+  }
+
   getURL(): string {
     return `http://localhost:${this.port}/tts-overlay`;
   }
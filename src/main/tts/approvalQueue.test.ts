@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  settings: new Map<string, string>(),
+  add: vi.fn()
+}));
+
+vi.mock('../database/settingsCache', () => ({
+  getCachedSetting: (key: string) => mocks.settings.get(key) ?? null
+}));
+vi.mock('./ttsQueue', () => ({
+  getTTSQueue: () => ({ add: mocks.add })
+}));
+
+import { ApprovalQueue } from './approvalQueue';
+import type { TTSRequest } from './ttsQueue';
+
+function request(id: string, overrides: Partial<TTSRequest> = {}): TTSRequest {
+  return { id, text: `alice said message ${id}`, announcement: 'alice said ', body: `message ${id}`, provider: 'webspeech', ...overrides };
+}
+
+describe('ApprovalQueue', () => {
+  let approvals: ApprovalQueue;
+
+  const heldIds = () => approvals.getHeld().map(message => message.id);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mocks.settings.clear();
+    mocks.settings.set('tts_approval_enabled', 'true');
+    mocks.add.mockReset();
+    approvals = new ApprovalQueue();
+  });
+
+  afterEach(() => {
+    approvals.destroy();
+    vi.useRealTimers();
+  });
+
+  it('holds messages only in approval mode, letting exempt lanes through', () => {
+    mocks.settings.set('tts_approval_bypass_redeems', 'true');
+
+    expect(approvals.shouldHold(request('chat'))).toBe(true);
+    expect(approvals.shouldHold(request('redeem', { lane: 'redeem' }))).toBe(false);
+    expect(approvals.shouldHold(request('bits', { lane: 'bits' }))).toBe(true);
+
+    mocks.settings.set('tts_approval_enabled', 'false');
+    expect(approvals.shouldHold(request('chat'))).toBe(false);
+  });
+
+  it('sends an approved message to the TTS queue once', () => {
+    approvals.hold(request('one'));
+
+    expect(approvals.approve('one')).toBe(true);
+    expect(approvals.approve('one')).toBe(false);
+    expect(mocks.add).toHaveBeenCalledTimes(1);
+    expect(mocks.add.mock.calls[0][0]).toEqual(request('one'));
+    expect(heldIds()).toEqual([]);
+  });
+
+  it('replaces the body but keeps the announcement when approved with an edit', () => {
+    approvals.hold(request('one', { maxLength: 10 }));
+    approvals.approve('one', '  a much longer edited message  ');
+
+    expect(mocks.add.mock.calls[0][0]).toMatchObject({ body: 'a much lon', text: 'alice said a much lon' });
+  });
+
+  it('discards rejected messages', () => {
+    approvals.hold(request('one'));
+    approvals.hold(request('two'));
+
+    expect(approvals.reject('one')).toBe(true);
+    expect(approvals.reject('one')).toBe(false);
+    expect(heldIds()).toEqual(['two']);
+    expect(mocks.add).not.toHaveBeenCalled();
+  });
+
+  it('drops messages nobody acted on once they time out', () => {
+    mocks.settings.set('tts_approval_timeout_seconds', '30');
+    const onChange = vi.fn();
+    approvals.onChange(onChange);
+
+    approvals.hold(request('one'));
+    vi.advanceTimersByTime(20_000);
+    approvals.hold(request('two'));
+    vi.advanceTimersByTime(10_000);
+    expect(heldIds()).toEqual(['two']);
+    expect(onChange).toHaveBeenLastCalledWith([expect.objectContaining({ id: 'two' })]);
+
+    vi.advanceTimersByTime(20_000);
+    expect(heldIds()).toEqual([]);
+    expect(approvals.approve('two')).toBe(false);
+  });
+
+  it('drops held messages that match a moderator action', () => {
+    approvals.hold(request('one', { viewerId: 'troll' }));
+    approvals.hold(request('two', { viewerId: 'alice' }));
+
+    expect(approvals.removeMatching(message => message.viewerId === 'troll')).toBe(1);
+    expect(heldIds()).toEqual(['two']);
+  });
+});
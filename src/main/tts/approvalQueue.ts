@@ -0,0 +1,148 @@
+// TTS Approval Queue
+// In approval mode, messages that pass the rules wait here until a moderator approves, edits or rejects them
+
+import { getCachedSetting } from '../database/settingsCache';
+import { getTTSQueue, TTSRequest } from './ttsQueue';
+
+export interface HeldMessage extends TTSRequest {
+  heldAt: number;     // ms timestamps
+  expiresAt: number;
+}
+
+export const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 300;
+
+// How often expired messages are swept out
+const EXPIRY_CHECK_MS = 5000;
+
+export class ApprovalQueue {
+  private held: HeldMessage[] = [];
+  private expiryInterval: NodeJS.Timeout | null = null;
+  private onChangeCallback?: (held: HeldMessage[]) => void;
+
+  /**
+   * Whether a request must wait for approval: approval mode is on and its lane is not exempt
+   */
+  shouldHold(request: TTSRequest): boolean {
+    if (getCachedSetting('tts_approval_enabled') !== 'true') return false;
+    if (request.lane === 'redeem' && getCachedSetting('tts_approval_bypass_redeems') === 'true') return false;
+    if (request.lane === 'bits' && getCachedSetting('tts_approval_bypass_bits') === 'true') return false;
+    return true;
+  }
+
+  /**
+   * Hold a request until it is approved, rejected or times out
+   */
+  hold(request: TTSRequest): void {
+    const timeoutSeconds = parseInt(getCachedSetting('tts_approval_timeout_seconds') || '');
+    const timeout = isNaN(timeoutSeconds) || timeoutSeconds <= 0 ? DEFAULT_APPROVAL_TIMEOUT_SECONDS : timeoutSeconds;
+    const now = Date.now();
+
+    this.held.push({ ...request, heldAt: now, expiresAt: now + timeout * 1000 });
+    this.startExpiryCheck();
+    this.notifyChange();
+  }
+
+  /**
+   * Send a held message to the TTS queue, optionally with edited text. Returns false if it is no longer held.
+   */
+  approve(id: string, editedText?: string): boolean {
+    const message = this.take(id);
+    if (!message) return false;
+
+    const { heldAt, expiresAt, ...request } = message;
+    const text = editedText?.trim();
+    if (text) {
+      // Edits replace the message body; the username announcement stays
+      const body = request.maxLength ? text.substring(0, request.maxLength) : text;
+      request.body = body;
+      request.text = `${request.announcement || ''}${body}`;
+    }
+
+    getTTSQueue().add(request);
+    return true;
+  }
+
+  /**
+   * Discard a held message. Returns false if it is no longer held.
+   */
+  reject(id: string): boolean {
+    return this.take(id) !== null;
+  }
+
+  /**
+   * Drop held messages matching a moderator action. Returns how many were dropped.
+   */
+  removeMatching(matches: (request: TTSRequest) => boolean): number {
+    const before = this.held.length;
+    this.held = this.held.filter(message => !matches(message));
+    const removed = before - this.held.length;
+    if (removed > 0) {
+      this.notifyChange();
+    }
+    return removed;
+  }
+
+  /**
+   * Get held messages, oldest first
+   */
+  getHeld(): HeldMessage[] {
+    return [...this.held];
+  }
+
+  /**
+   * Register callback for changes to the held messages
+   */
+  onChange(callback: (held: HeldMessage[]) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  /**
+   * Stop the expiry timer
+   */
+  destroy(): void {
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+      this.expiryInterval = null;
+    }
+  }
+
+  private take(id: string): HeldMessage | null {
+    const index = this.held.findIndex(message => message.id === id);
+    if (index === -1) return null;
+
+    const [message] = this.held.splice(index, 1);
+    this.notifyChange();
+    return message;
+  }
+
+  private startExpiryCheck(): void {
+    if (this.expiryInterval) return;
+
+    this.expiryInterval = setInterval(() => {
+      const now = Date.now();
+      const expired = this.held.filter(message => message.expiresAt <= now);
+      if (expired.length > 0) {
+        console.log(`[TTS Approval] ${expired.length} held message(s) timed out`);
+        this.held = this.held.filter(message => message.expiresAt > now);
+        this.notifyChange();
+      }
+      if (this.held.length === 0) {
+        this.destroy();
+      }
+    }, EXPIRY_CHECK_MS);
+  }
+
+  private notifyChange(): void {
+    this.onChangeCallback?.(this.getHeld());
+  }
+}
+
+// Singleton instance
+let approvalQueue: ApprovalQueue | null = null;
+
+export function getApprovalQueue(): ApprovalQueue {
+  if (!approvalQueue) {
+    approvalQueue = new ApprovalQueue();
+  }
+  return approvalQueue;
+}
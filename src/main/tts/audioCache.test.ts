@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const mocks = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: { getPath: () => mocks.userData }
+}));
+
+import { AudioCache, AudioCacheKey } from './audioCache';
+
+const KB = 1024;
+
+function key(text: string, overrides: Partial<AudioCacheKey> = {}): AudioCacheKey {
+  return { provider: 'aws', voiceId: 'Joanna', text, ...overrides };
+}
+
+// Audio of the given size, filled with the text's first character so reads can be told apart
+function audio(text: string, size = 1 * KB): Buffer {
+  return Buffer.alloc(size, text[0]);
+}
+
+describe('AudioCache', () => {
+  let cache: AudioCache;
+  let synthesize: ReturnType<typeof vi.fn>;
+
+  const get = (cacheKey: AudioCacheKey, size?: number) =>
+    cache.getOrSynthesize(cacheKey, () => synthesize(cacheKey.text, size));
+
+  beforeEach(() => {
+    mocks.userData = fs.mkdtempSync(path.join(os.tmpdir(), 'audio-cache-'));
+    synthesize = vi.fn(async (text: string, size?: number) => audio(text, size));
+    cache = new AudioCache();
+  });
+
+  afterEach(() => {
+    fs.rmSync(mocks.userData, { recursive: true, force: true });
+  });
+
+  it('synthesizes on a miss and reads from disk on a hit', async () => {
+    expect(await get(key('hello'))).toEqual(audio('hello'));
+    expect(await get(key('hello'))).toEqual(audio('hello'));
+
+    expect(synthesize).toHaveBeenCalledTimes(1);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, entries: 1, sizeBytes: 1 * KB });
+  });
+
+  it('keeps separate entries per voice and prosody', async () => {
+    await get(key('hello'));
+    await get(key('hello', { speed: 1.5 }));
+    await get(key('hello', { voiceId: 'Matthew' }));
+
+    expect(synthesize).toHaveBeenCalledTimes(3);
+    expect(cache.getStats().entries).toBe(3);
+  });
+
+  it('evicts the least recently used audio once over the size cap', async () => {
+    cache.setMaxSize(1); // 1 MB
+    await get(key('a'), 400 * KB);
+    await get(key('b'), 400 * KB);
+    await get(key('a')); // Hit; 'b' is now the oldest
+    await get(key('c'), 400 * KB);
+
+    expect(cache.getStats()).toMatchObject({ entries: 2, sizeBytes: 800 * KB });
+    synthesize.mockClear();
+    await get(key('a'));
+    expect(synthesize).not.toHaveBeenCalled();
+    await get(key('b'), 400 * KB);
+    expect(synthesize).toHaveBeenCalledTimes(1);
+  });
+
+  it('picks up audio cached by a previous run', async () => {
+    await get(key('hello'));
+
+    cache = new AudioCache();
+    synthesize.mockClear();
+    expect(await get(key('hello'))).toEqual(audio('hello'));
+    expect(synthesize).not.toHaveBeenCalled();
+  });
+
+  it('stops caching when the cap is set to zero', async () => {
+    await get(key('hello'));
+    cache.setMaxSize(0);
+
+    expect(cache.getStats()).toMatchObject({ entries: 0, sizeBytes: 0 });
+    await get(key('hello'));
+    await get(key('hello'));
+    expect(synthesize).toHaveBeenCalledTimes(3);
+    expect(fs.readdirSync(path.join(mocks.userData, 'tts-cache'))).toEqual([]);
+  });
+
+  it('deletes every file and resets the counters on clear', async () => {
+    await get(key('one'));
+    await get(key('two'));
+    cache.clear();
+
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, entries: 0, sizeBytes: 0 });
+    expect(fs.readdirSync(path.join(mocks.userData, 'tts-cache'))).toEqual([]);
+  });
+});
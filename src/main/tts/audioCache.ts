@@ -0,0 +1,206 @@
+// Synthesized Audio Cache
+// Disk-backed LRU cache of cloud TTS audio, keyed by provider, voice, text and prosody
+
+import { app } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface AudioCacheKey {
+  provider: string;
+  voiceId: string;
+  text: string;
+  pitch?: number;
+  speed?: number;
+  volume?: number;
+}
+
+export interface AudioCacheStats {
+  hits: number;       // Since app start
+  misses: number;
+  entries: number;
+  sizeBytes: number;
+  maxBytes: number;
+}
+
+export const DEFAULT_AUDIO_CACHE_MB = 100;
+
+export class AudioCache {
+  private directory: string;
+  private entries: Map<string, number> = new Map(); // File name -> size in bytes, least recently used first
+  private sizeBytes = 0;
+  private maxBytes = DEFAULT_AUDIO_CACHE_MB * 1024 * 1024;
+  private hits = 0;
+  private misses = 0;
+  private loaded = false;
+
+  constructor() {
+    this.directory = path.join(app.getPath('userData'), 'tts-cache');
+  }
+
+  /**
+   * Return cached audio for the key, or synthesize and store it
+   */
+  async getOrSynthesize(key: AudioCacheKey, synthesize: () => Promise<Buffer>): Promise<Buffer> {
+    if (this.maxBytes <= 0) {
+      return synthesize();
+    }
+    this.load();
+
+    const fileName = this.getFileName(key);
+    if (this.entries.has(fileName)) {
+      try {
+        const audio = await fs.promises.readFile(path.join(this.directory, fileName));
+        this.touch(fileName);
+        this.hits++;
+        return audio;
+      } catch (error) {
+        console.error('Failed to read cached audio, synthesizing again:', error);
+        this.forget(fileName);
+      }
+    }
+
+    this.misses++;
+    const audio = await synthesize();
+    await this.store(fileName, audio);
+    return audio;
+  }
+
+  /**
+   * Set the size cap in megabytes (0 disables caching) and evict down to it
+   */
+  setMaxSize(megabytes: number): void {
+    this.maxBytes = Math.max(0, megabytes) * 1024 * 1024;
+    this.load();
+    this.evict();
+  }
+
+  /**
+   * Delete every cached file and reset the hit/miss counters
+   */
+  clear(): void {
+    this.load();
+    for (const fileName of Array.from(this.entries.keys())) {
+      this.deleteFile(fileName);
+    }
+    this.entries.clear();
+    this.sizeBytes = 0;
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Get hit/miss counters and disk usage
+   */
+  getStats(): AudioCacheStats {
+    this.load();
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      maxBytes: this.maxBytes
+    };
+  }
+
+  /**
+   * Index files left by previous runs, oldest access first
+   */
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      const files = fs.readdirSync(this.directory)
+        .filter(name => name.endsWith('.mp3'))
+        .map(name => ({ name, stat: fs.statSync(path.join(this.directory, name)) }))
+        .sort((a, b) => a.stat.mtimeMs - b.stat.mtimeMs);
+
+      for (const file of files) {
+        this.entries.set(file.name, file.stat.size);
+        this.sizeBytes += file.stat.size;
+      }
+      this.evict();
+    } catch (error) {
+      console.error('Failed to load TTS audio cache:', error);
+    }
+  }
+
+  private async store(fileName: string, audio: Buffer): Promise<void> {
+    if (audio.length > this.maxBytes) return;
+
+    try {
+      await fs.promises.writeFile(path.join(this.directory, fileName), audio);
+      this.forget(fileName);
+      this.entries.set(fileName, audio.length);
+      this.sizeBytes += audio.length;
+      this.evict();
+    } catch (error) {
+      console.error('Failed to write TTS audio cache:', error);
+    }
+  }
+
+  /**
+   * Mark an entry as most recently used; the file mtime keeps the order across restarts
+   */
+  private touch(fileName: string): void {
+    const size = this.entries.get(fileName);
+    if (size === undefined) return;
+
+    this.entries.delete(fileName);
+    this.entries.set(fileName, size);
+
+    const now = new Date();
+    fs.promises.utimes(path.join(this.directory, fileName), now, now).catch(() => {
+      // Order is only cosmetic on disk, ignore
+    });
+  }
+
+  private evict(): void {
+    for (const fileName of Array.from(this.entries.keys())) {
+      if (this.sizeBytes <= this.maxBytes) break;
+      this.deleteFile(fileName);
+      this.forget(fileName);
+    }
+  }
+
+  private forget(fileName: string): void {
+    const size = this.entries.get(fileName);
+    if (size === undefined) return;
+    this.entries.delete(fileName);
+    this.sizeBytes -= size;
+  }
+
+  private deleteFile(fileName: string): void {
+    try {
+      fs.unlinkSync(path.join(this.directory, fileName));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('Failed to delete cached audio:', error);
+      }
+    }
+  }
+
+  private getFileName(key: AudioCacheKey): string {
+    const normalized = JSON.stringify([
+      key.provider,
+      key.voiceId,
+      key.text,
+      key.pitch ?? 1.0,
+      key.speed ?? 1.0,
+      key.volume ?? 1.0
+    ]);
+    return `${crypto.createHash('sha256').update(normalized).digest('hex')}.mp3`;
+  }
+}
+
+// Singleton instance
+let audioCache: AudioCache | null = null;
+
+export function getAudioCache(): AudioCache {
+  if (!audioCache) {
+    audioCache = new AudioCache();
+  }
+  return audioCache;
+}
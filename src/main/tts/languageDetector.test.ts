@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage } from './languageDetector';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['hola a todos, qué tal el juego', 'es'],
+    ['das ist sehr gut, danke schön', 'de'],
+    ["c'est trop bien, merci beaucoup", 'fr'],
+    ['muito obrigado, você é o melhor', 'pt'],
+    ['questo gioco è molto bello, grazie', 'it'],
+    ['ik ben heel blij met de stream', 'nl'],
+    ['what is this game, it looks great', 'en']
+  ])('detects Latin-script "%s" as %s', (text, language) => {
+    expect(detectLanguage(text)?.language).toBe(language);
+  });
+
+  it.each([
+    ['こんにちは、元気ですか', 'ja'],
+    ['今日は雨です', 'ja'],
+    ['你好世界', 'zh'],
+    ['안녕하세요', 'ko'],
+    ['привет как дела', 'ru'],
+    ['γεια σου', 'el'],
+    ['مرحبا', 'ar'],
+    ['שלום', 'he'],
+    ['नमस्ते', 'hi'],
+    ['สวัสดี', 'th']
+  ])('detects "%s" as %s by its script', (text, language) => {
+    expect(detectLanguage(text)?.language).toBe(language);
+  });
+
+  it('returns null for short or ambiguous chat', () => {
+    expect(detectLanguage('lol')).toBeNull();
+    expect(detectLanguage('gg')).toBeNull();
+    expect(detectLanguage('poggers KEKW')).toBeNull();
+    expect(detectLanguage('12345 !!!')).toBeNull();
+  });
+
+  it('ignores a stray word of another script in a longer message', () => {
+    expect(detectLanguage('the game is great and you are the best 你')?.language).toBe('en');
+  });
+
+  it('reports confidence between 0 and 1', () => {
+    const result = detectLanguage('das ist sehr gut, danke schön');
+    expect(result?.confidence).toBeGreaterThan(0);
+    expect(result?.confidence).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,98 @@
+// TTS Language Detector
+// Offline guess at a chat message's language, from its script and common words, for picking a voice
+
+export interface DetectedLanguage {
+  language: string;    // ISO 639-1 code, e.g. "es"
+  confidence: number;  // 0-1
+}
+
+// Languages told apart by their writing system. Japanese is checked before Chinese since it mixes kana with kanji.
+const SCRIPT_LANGUAGES: { language: string; pattern: RegExp }[] = [
+  { language: 'ja', pattern: /[぀-ヿ]/g },
+  { language: 'ko', pattern: /[가-힯ᄀ-ᇿ]/g },
+  { language: 'zh', pattern: /[一-鿿]/g },
+  { language: 'ru', pattern: /[Ѐ-ӿ]/g },
+  { language: 'el', pattern: /[Ͱ-Ͽ]/g },
+  { language: 'ar', pattern: /[؀-ۿ]/g },
+  { language: 'he', pattern: /[֐-׿]/g },
+  { language: 'hi', pattern: /[ऀ-ॿ]/g },
+  { language: 'th', pattern: /[฀-๿]/g }
+];
+
+// Short, frequent words that are distinctive for each Latin-script language
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'that', 'this', 'what', 'with', 'have', 'was', 'for', 'not', 'it', 'of', 'to', 'my', 'your', 'just', 'how', 'do', 'does', 'i\'m', 'can', 'will', 'would', 'there', 'they', 'he', 'she', 'we'],
+  es: ['el', 'la', 'los', 'las', 'que', 'de', 'y', 'es', 'en', 'por', 'para', 'con', 'una', 'un', 'pero', 'muy', 'como', 'qué', 'está', 'hola', 'gracias', 'bueno', 'sí', 'yo', 'tú', 'eres', 'estoy', 'tengo', 'también', 'nada', 'mucho'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'du', 'ein', 'eine', 'mit', 'auf', 'ja', 'nein', 'wie', 'was', 'aber', 'auch', 'hallo', 'danke', 'bin', 'bist', 'sehr', 'gut', 'noch', 'schon', 'mal', 'zu', 'den', 'dem', 'wir'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'je', 'tu', 'une', 'un', 'des', 'pas', 'que', 'qui', 'pour', 'avec', 'mais', 'oui', 'non', 'bonjour', 'merci', 'très', 'c\'est', 'suis', 'vous', 'nous', 'il', 'elle', 'du', 'sur', 'trop', 'bien'],
+  pt: ['o', 'os', 'as', 'que', 'de', 'e', 'é', 'não', 'um', 'uma', 'com', 'para', 'por', 'mas', 'muito', 'você', 'eu', 'está', 'obrigado', 'obrigada', 'olá', 'sim', 'tudo', 'bem', 'isso', 'aqui', 'mais', 'ele', 'ela', 'tem', 'são'],
+  it: ['il', 'lo', 'la', 'gli', 'le', 'che', 'di', 'e', 'è', 'non', 'un', 'una', 'per', 'con', 'ma', 'sono', 'sei', 'ciao', 'grazie', 'molto', 'anche', 'come', 'perché', 'io', 'tu', 'questo', 'bene', 'del', 'della', 'ho', 'hai'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'ik', 'je', 'jij', 'van', 'dat', 'wat', 'met', 'op', 'maar', 'ook', 'nee', 'ja', 'hoi', 'dank', 'bedankt', 'goed', 'heel', 'zijn', 'ben', 'wel', 'nog', 'voor', 'er', 'hij', 'zij']
+};
+
+// Letters that only (or almost only) turn up in one of the Latin-script languages above
+const DISTINCTIVE_LETTERS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  de: /[ßäöü]/g,
+  fr: /[èêëçœù]/g,
+  pt: /[ãõ]/g
+};
+
+const STOPWORD_LOOKUP = new Map<string, string[]>();
+for (const [language, words] of Object.entries(STOPWORDS)) {
+  for (const word of words) {
+    STOPWORD_LOOKUP.set(word, [...(STOPWORD_LOOKUP.get(word) || []), language]);
+  }
+}
+
+// Below this many scored words a Latin-script guess is no better than the default voice
+const MIN_LATIN_SCORE = 2;
+
+/**
+ * Guess the language of a message. Returns null when there isn't enough to go on.
+ */
+export function detectLanguage(text: string): DetectedLanguage | null {
+  const letters = text.match(/\p{L}/gu);
+  if (!letters || letters.length === 0) return null;
+
+  for (const { language, pattern } of SCRIPT_LANGUAGES) {
+    const count = text.match(pattern)?.length || 0;
+    // Any kana marks Japanese; other scripts have to make up a good share of the letters
+    if (count > 0 && (language === 'ja' || count / letters.length >= 0.3)) {
+      return { language, confidence: Math.min(1, count / letters.length + 0.5) };
+    }
+  }
+
+  return detectLatinLanguage(text.toLowerCase());
+}
+
+/**
+ * Score Latin-script languages by stopwords and distinctive letters; the winner has to clearly beat the runner-up
+ */
+function detectLatinLanguage(text: string): DetectedLanguage | null {
+  const scores = new Map<string, number>();
+  const addScore = (language: string, amount: number) => scores.set(language, (scores.get(language) || 0) + amount);
+
+  const words = text.match(/[\p{L}']+/gu) || [];
+  for (const word of words) {
+    const languages = STOPWORD_LOOKUP.get(word);
+    if (!languages) continue;
+    // A word shared by several languages counts for less
+    for (const language of languages) {
+      addScore(language, 1 / languages.length);
+    }
+  }
+  for (const [language, pattern] of Object.entries(DISTINCTIVE_LETTERS)) {
+    const count = text.match(pattern)?.length || 0;
+    if (count > 0) addScore(language, Math.min(count, 2));
+  }
+
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return null;
+
+  const [language, best] = ranked[0];
+  const runnerUp = ranked[1]?.[1] || 0;
+  if (best < MIN_LATIN_SCORE || best - runnerUp < 1) return null;
+
+  return { language, confidence: Math.min(1, (best - runnerUp) / best) };
+}
@@ -0,0 +1,39 @@
+// Cloud TTS Synthesis
+// Routes synthesis to the right cloud provider, through the disk-backed audio cache
+
+import { getAudioCache } from './audioCache';
+import { getAwsPollyService } from './awsPollyService';
+import { getAzureTtsService } from './azureTtsService';
+import { getGoogleTtsService } from './googleTtsService';
+
+export interface SynthesisRequest {
+  text: string;
+  voiceId: string;
+  provider: string;
+  pitch?: number;
+  speed?: number;
+  volume?: number;
+}
+
+/**
+ * Synthesize speech with a cloud provider, reusing cached audio when available
+ */
+export function synthesizeSpeech(request: SynthesisRequest): Promise<Buffer> {
+  const { text, voiceId, provider, pitch, speed, volume } = request;
+
+  return getAudioCache().getOrSynthesize(
+    { provider, voiceId, text, pitch, speed, volume },
+    () => {
+      switch (provider) {
+        case 'aws':
+          return getAwsPollyService().synthesize(text, voiceId, { pitch, speed, volume });
+        case 'azure':
+          return getAzureTtsService().synthesize(text, voiceId, { pitch, speed, volume });
+        case 'google':
+          return getGoogleTtsService().synthesize(text, voiceId, { pitch, speed, volume });
+        default:
+          throw new Error(`Unsupported provider: ${provider}`);
+      }
+    }
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeText, NormalizationOptions, NormalizationContext } from './textNormalizer';
+
+const NONE: NormalizationOptions = {
+  replies: false,
+  mentions: false,
+  abbreviations: false,
+  currency: false,
+  times: false,
+  numbers: false
+};
+
+const context: NormalizationContext = {
+  speakMention: login => login === 'bob_99' ? 'Bob' : login
+};
+
+function normalize(text: string, enabled: Partial<NormalizationOptions>, extra: Partial<NormalizationContext> = {}): string {
+  return normalizeText(text, { ...NONE, ...enabled }, { ...context, ...extra });
+}
+
+describe('normalizeText', () => {
+  it('changes nothing with every category off', () => {
+    expect(normalize('@bob_99 brb $5 at 3:30pm', {})).toBe('@bob_99 brb $5 at 3:30pm');
+  });
+
+  it('strips the reply prefix only for the replied-to viewer', () => {
+    expect(normalize('@alice, nice one', { replies: true }, { replyParentLogin: 'alice' })).toBe('nice one');
+    expect(normalize('@bob_99 nice one', { replies: true }, { replyParentLogin: 'alice' })).toBe('@bob_99 nice one');
+  });
+
+  it('speaks mentions as names, after stripping the reply prefix', () => {
+    expect(normalize('@alice @bob_99 hi', { replies: true, mentions: true }, { replyParentLogin: 'alice' }))
+      .toBe('Bob hi');
+    expect(normalize('mail me at a@bob_99', { mentions: true })).toBe('mail me at a@bob_99');
+  });
+
+  it('expands abbreviations as whole words', () => {
+    expect(normalize('brb w/ u 2nite', { abbreviations: true })).toBe('be right back with you tonight');
+    expect(normalize('W/O IDK', { abbreviations: true })).toBe("without I don't know");
+    expect(normalize('ugh and thus', { abbreviations: true })).toBe('ugh and thus');
+  });
+
+  it('speaks currency amounts', () => {
+    expect(normalize('$1 or $5', { currency: true })).toBe('1 dollar or 5 dollars');
+    expect(normalize('only $4.99.', { currency: true })).toBe('only 4 dollars 99 cents.');
+    expect(normalize('€2k and £1,500', { currency: true })).toBe('2 thousand euros and 1500 pounds');
+    expect(normalize('¥500.50', { currency: true })).toBe('500 yen');
+  });
+
+  it('speaks times', () => {
+    expect(normalize('3:30pm', { times: true })).toBe('3 30 PM');
+    expect(normalize('3:05', { times: true })).toBe('3 oh 5');
+    expect(normalize('7:00 am and 15:00 and 9:00', { times: true })).toBe("7 AM and 15 hundred and 9 o'clock");
+    expect(normalize('at 11pm', { times: true })).toBe('at 11 PM');
+  });
+
+  it('speaks percentages, thousands and ranks', () => {
+    expect(normalize('50% of 5k viewers say #1', { numbers: true })).toBe('50 percent of 5 thousand viewers say number 1');
+    expect(normalize('a&#39;b', { numbers: true })).toBe('a&#39;b');
+  });
+
+  it('combines categories', () => {
+    expect(normalize('@alice @bob_99 $5 at 3:30pm brb w/ u 2nite', {
+      replies: true, mentions: true, abbreviations: true, currency: true, times: true, numbers: true
+    }, { replyParentLogin: 'alice' })).toBe('Bob 5 dollars at 3 30 PM be right back with you tonight');
+  });
+});
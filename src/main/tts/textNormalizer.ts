@@ -0,0 +1,151 @@
+// TTS Text Normalizer
+// Rewrites chat-speak, currency, times, numbers and @mentions into text that voices read naturally
+
+export interface NormalizationOptions {
+  replies: boolean;        // Strip the "@login " Twitch adds to threaded replies
+  mentions: boolean;       // "@bob_99" -> bob's spoken name
+  abbreviations: boolean;  // "brb" -> "be right back"
+  currency: boolean;       // "$5" -> "5 dollars"
+  times: boolean;          // "3:30pm" -> "3 30 PM"
+  numbers: boolean;        // "50%" -> "50 percent", "5k" -> "5 thousand", "#1" -> "number 1"
+}
+
+export interface NormalizationContext {
+  replyParentLogin?: string;
+  speakMention: (login: string) => string;
+}
+
+// Matched case-insensitively as whole words
+const ABBREVIATIONS: Record<string, string> = {
+  'afaik': 'as far as I know',
+  'afk': 'away from keyboard',
+  'b4': 'before',
+  'brb': 'be right back',
+  'btw': 'by the way',
+  'fr': 'for real',
+  'gl': 'good luck',
+  'glhf': 'good luck have fun',
+  'gr8': 'great',
+  'idc': "I don't care",
+  'idk': "I don't know",
+  'ikr': 'I know right',
+  'imo': 'in my opinion',
+  'imho': 'in my humble opinion',
+  'irl': 'in real life',
+  'lmk': 'let me know',
+  'ngl': 'not gonna lie',
+  'np': 'no problem',
+  'nvm': 'never mind',
+  'ofc': 'of course',
+  'omg': 'oh my god',
+  'pls': 'please',
+  'plz': 'please',
+  'ppl': 'people',
+  'rn': 'right now',
+  'smh': 'shaking my head',
+  'tbh': 'to be honest',
+  'thx': 'thanks',
+  'tmrw': 'tomorrow',
+  'ty': 'thank you',
+  'u': 'you',
+  'ur': 'your',
+  'w/': 'with',
+  'w/o': 'without',
+  'wb': 'welcome back',
+  '2day': 'today',
+  '2nite': 'tonight'
+};
+
+const CURRENCY_NAMES: Record<string, [string, string]> = {
+  '$': ['dollar', 'dollars'],
+  '€': ['euro', 'euros'],
+  '£': ['pound', 'pounds'],
+  '¥': ['yen', 'yen']
+};
+
+// Longest first so "w/o" wins over "w/"
+const ABBREVIATION_PATTERN = new RegExp(
+  `(?<![\\w/@])(${Object.keys(ABBREVIATIONS)
+    .sort((a, b) => b.length - a.length)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+    .join('|')})(?![\\w/])`,
+  'gi'
+);
+
+/**
+ * Apply the enabled normalizations. Replies are stripped first so the prefix isn't read as a mention.
+ */
+export function normalizeText(text: string, options: NormalizationOptions, context: NormalizationContext): string {
+  let result = text;
+
+  if (options.replies && context.replyParentLogin) {
+    const login = context.replyParentLogin.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    result = result.replace(new RegExp(`^@${login}\\b[,:]?\\s*`, 'i'), '');
+  }
+  if (options.mentions) {
+    result = result.replace(/(?<!\w)@(\w{1,25})/g, (_match, login: string) => context.speakMention(login));
+  }
+  if (options.currency) {
+    result = normalizeCurrency(result);
+  }
+  if (options.times) {
+    result = normalizeTimes(result);
+  }
+  if (options.numbers) {
+    result = normalizeNumbers(result);
+  }
+  if (options.abbreviations) {
+    result = result.replace(ABBREVIATION_PATTERN, (match: string) => ABBREVIATIONS[match.toLowerCase()] ?? match);
+  }
+
+  return result.replace(/\s{2,}/g, ' ').trim();
+}
+
+/**
+ * "$5" -> "5 dollars", "$1" -> "1 dollar", "$4.99" -> "4 dollars 99 cents", "$2k" -> "2 thousand dollars"
+ */
+function normalizeCurrency(text: string): string {
+  return text.replace(/([$€£¥])(\d[\d,]*)(?:\.(\d{1,2}))?(k)?(?!\w|\.\d)/gi, (_match, symbol: string, whole: string, fraction: string | undefined, thousands: string | undefined) => {
+    const [singular, plural] = CURRENCY_NAMES[symbol];
+    const amount = whole.replace(/,/g, '');
+    if (thousands) {
+      return `${amount}${fraction ? `.${fraction}` : ''} thousand ${plural}`;
+    }
+
+    const unit = amount === '1' ? singular : plural;
+    const cents = fraction ? parseInt(fraction.padEnd(2, '0')) : 0;
+    if (!cents || symbol === '¥') {
+      return `${amount} ${unit}`;
+    }
+    return `${amount} ${unit} ${cents} ${cents === 1 ? 'cent' : 'cents'}`;
+  });
+}
+
+/**
+ * "3:30pm" -> "3 30 PM", "3:05" -> "3 oh 5", "7:00 am" -> "7 AM", "15:00" -> "15 hundred", "11pm" -> "11 PM"
+ */
+function normalizeTimes(text: string): string {
+  return text
+    .replace(/\b([01]?\d|2[0-3]):([0-5]\d)(?:\s?([ap])\.?m\.?)?(?!\w)/gi, (_match, hours: string, minutes: string, meridiem: string | undefined) => {
+      const suffix = meridiem ? ` ${meridiem.toUpperCase()}M` : '';
+      if (minutes === '00') {
+        if (meridiem) return `${parseInt(hours)}${suffix}`;
+        return parseInt(hours) > 12 ? `${parseInt(hours)} hundred` : `${parseInt(hours)} o'clock`;
+      }
+      const spokenMinutes = minutes.startsWith('0') ? `oh ${minutes[1]}` : minutes;
+      return `${parseInt(hours)} ${spokenMinutes}${suffix}`;
+    })
+    .replace(/\b(1[0-2]|0?[1-9])\s?([ap])\.?m\.?(?!\w)/gi, (_match, hours: string, meridiem: string) =>
+      `${parseInt(hours)} ${meridiem.toUpperCase()}M`
+    );
+}
+
+/**
+ * "50%" -> "50 percent", "5k" -> "5 thousand", "#1" -> "number 1"
+ */
+function normalizeNumbers(text: string): string {
+  return text
+    .replace(/(\d)\s?%/g, '$1 percent')
+    .replace(/\b(\d+(?:\.\d+)?)k\b/gi, '$1 thousand')
+    .replace(/(?<![\w&])#(\d+)\b/g, 'number $1');
+}
@@ -0,0 +1,336 @@
+// TTS Pipeline
+// Decides whether and how a chat message is spoken (access, rules, restrictions, voice) and queues it
+
+import { getDatabase } from '../database/connection';
+import { DatabaseService, ChatMessage } from '../database/service';
+import { getCachedSetting } from '../database/settingsCache';
+import { getTTSRulesService, TTSRulesService } from './ttsRules';
+import { getTTSQueue, TTSQueue, TTSLane, TTSRequest } from './ttsQueue';
+import { getApprovalQueue, ApprovalQueue } from './approvalQueue';
+import { detectLanguage } from './languageDetector';
+
+interface ViewerTTSRestrictions {
+  is_muted: number;
+  mute_expires_at: string | null;
+  has_cooldown: number;
+  cooldown_gap_seconds: number | null;
+  cooldown_expires_at: string | null;
+  last_tts_at: string | null;
+}
+
+interface ViewerVoicePreference {
+  voice_id: string;
+  provider: string;
+  pitch: number | null;
+  speed: number | null;
+  volume: number | null;
+}
+
+export class TTSPipeline {
+  private rules: TTSRulesService;
+  private queue: TTSQueue;
+  private approvals: ApprovalQueue;
+
+  constructor() {
+    this.rules = getTTSRulesService();
+    this.queue = getTTSQueue();
+    this.approvals = getApprovalQueue();
+  }
+
+  /**
+   * Run a chat message through access checks, rules and restrictions, and queue it if it should be spoken
+   */
+  processMessage(message: ChatMessage): void {
+    try {
+      // Check global TTS enabled setting (mutetts/unmutetts)
+      if (getCachedSetting('tts_enabled') === 'false') {
+        console.log('TTS is globally muted');
+        return;
+      }
+
+      // Check if viewer has access to TTS
+      if (!this.hasAccess(message)) {
+        console.log(`${message.username} does not have TTS access`);
+        return;
+      }
+
+      // Apply TTS rules to filter/process message
+      const processed = this.rules.processMessage(message);
+      if (!processed.shouldSpeak) {
+        console.log(`Message filtered: ${processed.reason}`);
+        return;
+      }
+
+      // Check if viewer has TTS restrictions
+      const restrictions = this.getRestrictions(message.viewer_id);
+      if (restrictions && this.isRestricted(message, restrictions)) {
+        return;
+      }
+
+      // Detected language picks the default voice, and can rule the message out entirely
+      const language = this.getMessageLanguage(processed.body ?? processed.text);
+      if (language && !this.isLanguageAllowed(language)) {
+        console.log(`Message filtered: language ${language} is not in the allowlist`);
+        return;
+      }
+
+      // Only now does the message count towards duplicates and cooldowns
+      this.rules.recordSpoken(message, processed);
+
+      const voice = this.resolveVoice(message.viewer_id, language);
+
+      // Processed text already includes username if configured
+      const request: TTSRequest = {
+        id: `msg-${message.viewer_id}-${Date.now()}`,
+        text: processed.text,
+        voiceId: voice.voiceId || undefined,
+        provider: voice.provider,
+        speed: voice.speed,
+        pitch: voice.pitch,
+        volume: voice.volume,
+        viewerId: message.viewer_id,
+        username: message.display_name || message.username,
+        lane: this.getMessageLane(message),
+        announcement: processed.announcement,
+        body: processed.body,
+        maxLength: processed.maxLength,
+        mergeWindowSeconds: processed.mergeWindowSeconds,
+        messageIds: message.message_id ? [message.message_id] : undefined
+      };
+
+      // In approval mode a moderator has to let the message through first
+      if (this.approvals.shouldHold(request)) {
+        this.approvals.hold(request);
+      } else {
+        this.queue.add(request);
+      }
+
+      // Update last TTS timestamp for cooldown tracking
+      if (restrictions?.has_cooldown) {
+        getDatabase().prepare(`
+          UPDATE viewer_tts_restrictions
+          SET last_tts_at = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE viewer_id = ?
+        `).run(new Date().toISOString(), message.viewer_id);
+      }
+    } catch (err) {
+      console.error('Failed to process message for TTS:', err);
+    }
+  }
+
+  /**
+   * Check the TTS access settings: everyone, or only allowed groups and active redeems
+   */
+  private hasAccess(message: ChatMessage): boolean {
+    try {
+      if (getCachedSetting('tts_access_restricted') !== 'true') {
+        return true; // Access not restricted, everyone can use TTS
+      }
+
+      const viewer = DatabaseService.getViewerById(message.viewer_id);
+      if (!viewer) {
+        console.log(`[TTS Access] Unknown viewer ${message.username}, denying access`);
+        return false;
+      }
+
+      if (getCachedSetting('tts_access_subscribers') === 'true' && viewer.is_subscriber) {
+        return true;
+      }
+      if (getCachedSetting('tts_access_vips') === 'true' && viewer.is_vip) {
+        return true;
+      }
+      if (getCachedSetting('tts_access_moderators') === 'true' && viewer.is_moderator) {
+        return true;
+      }
+
+      if (getCachedSetting('tts_access_redeems') === 'true') {
+        const activeRedeem = getDatabase().prepare(`
+          SELECT 1 FROM tts_access_redeems
+          WHERE viewer_id = ? AND is_active = 1 AND expires_at > datetime('now')
+          LIMIT 1
+        `).get(message.viewer_id);
+        if (activeRedeem) {
+          return true;
+        }
+      }
+
+      console.log(`[TTS Access] ${message.username} DENIED access - no matching criteria`);
+      return false;
+    } catch (err) {
+      console.error('Failed to check TTS access:', err);
+      return true; // Default to allowing access on error
+    }
+  }
+
+  private getRestrictions(viewerId: string): ViewerTTSRestrictions | undefined {
+    return getDatabase().prepare(`
+      SELECT * FROM viewer_tts_restrictions WHERE viewer_id = ?
+    `).get(viewerId) as ViewerTTSRestrictions | undefined;
+  }
+
+  /**
+   * Check a viewer's mute and cooldown gap
+   */
+  private isRestricted(message: ChatMessage, restrictions: ViewerTTSRestrictions): boolean {
+    if (restrictions.is_muted) {
+      if (!restrictions.mute_expires_at) {
+        console.log(`${message.username} is permanently muted`);
+        return true;
+      }
+      const expiresAt = new Date(restrictions.mute_expires_at);
+      if (expiresAt > new Date()) {
+        console.log(`${message.username} is muted until ${expiresAt}`);
+        return true;
+      }
+    }
+
+    if (restrictions.has_cooldown && restrictions.last_tts_at) {
+      // An expired cooldown period allows TTS again; no expiry means a permanent cooldown
+      const expired = !!restrictions.cooldown_expires_at && new Date(restrictions.cooldown_expires_at) <= new Date();
+      if (!expired) {
+        const cooldownSeconds = restrictions.cooldown_gap_seconds || 0;
+        const timeSinceLastTTS = (Date.now() - new Date(restrictions.last_tts_at).getTime()) / 1000;
+        if (timeSinceLastTTS < cooldownSeconds) {
+          console.log(`${message.username} is on cooldown for ${cooldownSeconds - timeSinceLastTTS}s more`);
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Detected language of the spoken text, when language detection is on and the guess is confident
+   */
+  private getMessageLanguage(text: string): string | null {
+    if (getCachedSetting('tts_language_detection_enabled') !== 'true') {
+      return null;
+    }
+    return detectLanguage(text)?.language ?? null;
+  }
+
+  /**
+   * Check the language allowlist. An empty list allows every language.
+   */
+  private isLanguageAllowed(language: string): boolean {
+    const allowlist = (getCachedSetting('tts_language_allowlist') || '')
+      .split(',')
+      .map(code => code.trim().toLowerCase())
+      .filter(Boolean);
+    return allowlist.length === 0 || allowlist.includes(language);
+  }
+
+  /**
+   * Default voice configured for a language, if any
+   */
+  private getLanguageVoice(language: string): string | null {
+    try {
+      const voices = JSON.parse(getCachedSetting('tts_language_voices') || '{}') as Record<string, string>;
+      return voices[language] || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The viewer's voice preference, or the defaults (per-language when detected), validated against enabled providers
+   */
+  private resolveVoice(viewerId: string, language: string | null): { voiceId: string; provider: string; speed: number; pitch: number; volume: number } {
+    const db = getDatabase();
+    const voicePrefs = db.prepare(`
+      SELECT * FROM viewer_voice_preferences WHERE viewer_id = ?
+    `).get(viewerId) as ViewerVoicePreference | undefined;
+    const defaultVoice = (language && this.getLanguageVoice(language)) || getCachedSetting('tts_default_voice');
+    const defaultSpeed = getCachedSetting('tts_default_speed');
+    const defaultPitch = getCachedSetting('tts_default_pitch');
+    const defaultVolume = getCachedSetting('tts_default_volume');
+
+    // Use viewer preferences if available, otherwise use defaults
+    const voiceId = voicePrefs?.voice_id || defaultVoice || '';
+    let provider = voicePrefs?.provider || 'webspeech';
+    if (!voicePrefs && voiceId) {
+      // If using default voice, look up its provider from tts_voices table
+      const voiceInfo = db.prepare('SELECT provider FROM tts_voices WHERE voice_id = ? LIMIT 1')
+        .get(voiceId) as { provider: string } | undefined;
+      if (voiceInfo) {
+        provider = voiceInfo.provider;
+      }
+    }
+
+    return {
+      ...this.validateVoiceSelection(voiceId, provider),
+      speed: voicePrefs?.speed || (defaultSpeed ? parseFloat(defaultSpeed) : 1.0),
+      pitch: voicePrefs?.pitch || (defaultPitch ? parseFloat(defaultPitch) : 1.0),
+      volume: voicePrefs?.volume || (defaultVolume ? parseFloat(defaultVolume) : 1.0)
+    };
+  }
+
+  /**
+   * Validate voice selection - ensure provider is enabled and neural voices aren't disabled.
+   * Falls back to default voice or WebSpeech if current voice is invalid.
+   */
+  private validateVoiceSelection(voiceId: string, provider: string): { voiceId: string; provider: string } {
+    const fallback = () => {
+      const defaultVoice = getCachedSetting('tts_default_voice');
+      if (defaultVoice && defaultVoice !== voiceId) {
+        return this.validateVoiceSelection(defaultVoice, 'webspeech');
+      }
+      return { voiceId: '', provider: 'webspeech' };
+    };
+
+    try {
+      if (provider !== 'webspeech' && getCachedSetting(`tts_${provider}_enabled`) !== 'true') {
+        console.log(`[Voice Validation] Provider ${provider} is disabled, falling back`);
+        return fallback();
+      }
+
+      const voiceInfo = getDatabase().prepare(`
+        SELECT provider, voice_type FROM tts_voices WHERE voice_id = ? AND provider = ? LIMIT 1
+      `).get(voiceId, provider) as { provider: string; voice_type: string | null } | undefined;
+      if (!voiceInfo) {
+        console.log(`[Voice Validation] Voice ${voiceId} not found, falling back`);
+        return fallback();
+      }
+
+      if (voiceInfo.voice_type === 'neural' && getCachedSetting(`tts_${provider}_disable_neural`) === 'true') {
+        console.log(`[Voice Validation] Neural voices disabled for ${provider}, falling back`);
+        return fallback();
+      }
+
+      return { voiceId, provider };
+    } catch (err) {
+      console.error('[Voice Validation] Error validating voice:', err);
+      return { voiceId: '', provider: 'webspeech' };
+    }
+  }
+
+  /**
+   * Pick the TTS queue lane for a chat message from its badges, cheer and redeem info
+   */
+  private getMessageLane(message: ChatMessage): TTSLane {
+    let badges: Record<string, string> = {};
+    try {
+      badges = message.badges ? JSON.parse(message.badges) || {} : {};
+    } catch {
+      // Malformed badges just mean regular chat
+    }
+
+    if (badges.broadcaster) return 'broadcaster';
+    if (message.reward_id) return 'redeem';
+    if (message.bits && message.bits > 0) return 'bits';
+    if (badges.moderator) return 'moderator';
+    if (badges.subscriber || badges.founder) return 'subscriber';
+    return 'chat';
+  }
+}
+
+// Singleton instance
+let ttsPipeline: TTSPipeline | null = null;
+
+export function getTTSPipeline(): TTSPipeline {
+  if (!ttsPipeline) {
+    ttsPipeline = new TTSPipeline();
+  }
+  return ttsPipeline;
+}
@@ -0,0 +1,126 @@
+// TTS Players
+// Clients the main-process queue hands items to: the app window and the OBS overlay
+
+import { BrowserWindow } from 'electron';
+import { getOBSServer } from '../obs/obsServer';
+import { TTSPlayer, TTSQueueItem } from './ttsQueue';
+
+// The overlay reports completion over its WebSocket; give up after this long unless paused
+const OVERLAY_COMPLETE_TIMEOUT_MS = 30000;
+
+/**
+ * Plays items in the app window's renderer (cloud audio or WebSpeech), which reports back when done
+ */
+export class AppWindowPlayer implements TTSPlayer {
+  private window: BrowserWindow | null = null;
+  private ready = false;
+  private pending: { id: string; finish: (error?: string) => void } | null = null;
+
+  /**
+   * Use this window for playback once its renderer reports ready
+   */
+  attach(window: BrowserWindow): void {
+    this.window = window;
+    this.ready = false;
+
+    // Whatever was playing is lost when the renderer reloads or goes away
+    window.webContents.on('did-start-loading', () => this.detach('App window reloaded'));
+    window.webContents.on('render-process-gone', () => this.detach('App window renderer exited'));
+    window.on('closed', () => {
+      this.detach('App window closed');
+      this.window = null;
+    });
+  }
+
+  /**
+   * The renderer is listening for items to play
+   */
+  setReady(): void {
+    this.ready = true;
+  }
+
+  /**
+   * The renderer finished, stopped or failed playing an item
+   */
+  complete(id: string, error?: string): void {
+    if (!this.pending || this.pending.id !== id) return;
+    const { finish } = this.pending;
+    this.pending = null;
+    finish(error);
+  }
+
+  canSpeak(): boolean {
+    return this.ready && !!this.window && !this.window.isDestroyed();
+  }
+
+  speak(item: TTSQueueItem): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.pending = {
+        id: item.id,
+        finish: (error) => error ? reject(new Error(error)) : resolve()
+      };
+      this.send('tts:player:play', item);
+    });
+  }
+
+  stop(): void {
+    this.send('tts:player:stop');
+  }
+
+  pause(): void {
+    this.send('tts:player:pause');
+  }
+
+  resume(): void {
+    this.send('tts:player:resume');
+  }
+
+  private send(channel: string, ...args: unknown[]): void {
+    if (this.window && !this.window.isDestroyed()) {
+      this.window.webContents.send(channel, ...args);
+    }
+  }
+
+  private detach(reason: string): void {
+    this.ready = false;
+    if (this.pending) {
+      this.complete(this.pending.id, reason);
+    }
+  }
+}
+
+/**
+ * Waits on the OBS overlay, which plays every started item itself (WebSpeech as a fallback)
+ */
+export class OverlayPlayer implements TTSPlayer {
+  private paused = false;
+
+  canSpeak(): boolean {
+    const obsServer = getOBSServer();
+    return obsServer.isRunning() && obsServer.getClientCount() > 0;
+  }
+
+  async speak(_item: TTSQueueItem): Promise<void> {
+    let completed = await getOBSServer().waitForAudioComplete(OVERLAY_COMPLETE_TIMEOUT_MS);
+    // A paused overlay never reports completion, so keep waiting until resumed
+    while (!completed && this.paused) {
+      completed = await getOBSServer().waitForAudioComplete(OVERLAY_COMPLETE_TIMEOUT_MS);
+    }
+    if (!completed) {
+      console.error('[TTS Players] OBS playback timeout');
+    }
+  }
+
+  // Skip, pause and resume reach the overlay through the queue's broadcasts
+  stop(): void {
+    this.paused = false;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+}
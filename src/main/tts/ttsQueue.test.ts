@@ -0,0 +1,668 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  broadcast: vi.fn(),
+  synthesizeSpeech: vi.fn()
+}));
+
+vi.mock('../database/service', () => ({
+  DatabaseService: { getSetting: vi.fn(() => null) }
+}));
+vi.mock('../obs/obsServer', () => ({
+  getOBSServer: () => ({ broadcast: mocks.broadcast })
+}));
+vi.mock('./synthesis', () => ({
+  synthesizeSpeech: mocks.synthesizeSpeech
+}));
+
+import { TTSQueue, TTSPlayer, TTSQueueItem, TTSRequest, parseLaneOrder, DEFAULT_BACKLOG_SETTINGS, DEFAULT_FAIRNESS_SETTINGS } from './ttsQueue';
+
+// Plays until finish() or stop() is called
+class FakePlayer implements TTSPlayer {
+  played: TTSQueueItem[] = [];
+  private finishPlayback: (() => void) | null = null;
+
+  get spoken(): string[] {
+    return this.played.map(item => item.text);
+  }
+
+  canSpeak(): boolean {
+    return true;
+  }
+
+  speak(item: TTSQueueItem): Promise<void> {
+    this.played.push({ ...item });
+    return new Promise(resolve => {
+      this.finishPlayback = resolve;
+    });
+  }
+
+  finish(): void {
+    this.finishPlayback?.();
+    this.finishPlayback = null;
+  }
+
+  stop(): void {
+    this.finish();
+  }
+
+  pause(): void {}
+  resume(): void {}
+}
+
+const unavailable: TTSPlayer = {
+  canSpeak: () => false,
+  speak: async () => {},
+  stop: () => {},
+  pause: () => {},
+  resume: () => {}
+};
+
+function request(id: string, overrides: Partial<TTSRequest> = {}): TTSRequest {
+  return { id, text: `message ${id}`, provider: 'webspeech', ...overrides };
+}
+
+// Let pending promises and the gap between items run
+const flush = (ms = 0) => vi.advanceTimersByTimeAsync(ms);
+
+describe('TTSQueue', () => {
+  let queue: TTSQueue;
+  let player: FakePlayer;
+  let synthesisRequests: { text: string; resolve: (audio: string) => void }[];
+
+  const broadcasts = () => mocks.broadcast.mock.calls.map(([event]) => event.type);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    synthesisRequests = [];
+    mocks.broadcast.mockReset();
+    mocks.synthesizeSpeech.mockReset().mockImplementation(({ text }: { text: string }) =>
+      new Promise(resolve => {
+        synthesisRequests.push({ text, resolve: audio => resolve(Buffer.from(audio)) });
+      })
+    );
+    queue = new TTSQueue();
+    player = new FakePlayer();
+    queue.setPlayers(player, unavailable);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('speaks items one after another', async () => {
+    queue.add(request('one'));
+    queue.add(request('two'));
+    await flush();
+    expect(player.spoken).toEqual(['message one']);
+
+    player.finish();
+    await flush(100);
+    expect(player.spoken).toEqual(['message one', 'message two']);
+  });
+
+  it('holds the next item while paused', async () => {
+    queue.pause();
+    queue.add(request('one'));
+    await flush(100);
+    expect(player.spoken).toEqual([]);
+    expect(queue.getState()).toMatchObject({ paused: true, items: [{ status: 'pending' }] });
+
+    queue.resume();
+    await flush();
+    expect(player.spoken).toEqual(['message one']);
+    expect(broadcasts()).toEqual(['pause', 'resume', 'start']);
+  });
+
+  it('skips the current item and tells the overlay', async () => {
+    queue.add(request('one'));
+    queue.add(request('two'));
+    await flush();
+
+    queue.skip();
+    await flush(100);
+    expect(player.spoken).toEqual(['message one', 'message two']);
+    expect(broadcasts()).toContain('skip');
+  });
+
+  it('clears the queue, stopping the overlay without unpausing', async () => {
+    queue.add(request('one'));
+    queue.add(request('two'));
+    await flush();
+    queue.pause();
+
+    queue.clear();
+    await flush(100);
+    expect(broadcasts()).toEqual(['start', 'pause', 'skip']);
+    expect(queue.getQueue()).toEqual([]);
+    expect(queue.isPaused()).toBe(true);
+
+    queue.add(request('three'));
+    await flush(100);
+    expect(player.spoken).toEqual(['message one']);
+  });
+
+  it('falls back to the overlay when the app window cannot speak', async () => {
+    const overlay = new FakePlayer();
+    queue.setPlayers(unavailable, overlay);
+    queue.add(request('one'));
+    await flush();
+
+    expect(overlay.spoken).toEqual(['message one']);
+  });
+
+  it('replays the last spoken messages as new items', async () => {
+    queue.add(request('one', { viewerId: 'alice' }));
+    await flush();
+    player.finish();
+    await flush(100);
+    queue.add(request('two'));
+    await flush();
+    player.finish();
+    await flush(100);
+    expect(queue.getQueue()).toEqual([]);
+    expect(queue.getHistory()).toHaveLength(2);
+
+    queue.pause();
+    expect(queue.replay(5)).toBe(2);
+    const replayed = queue.getQueue();
+    expect(replayed.map(item => item.text)).toEqual(['message one', 'message two']);
+    expect(replayed[0]).toMatchObject({ viewerId: 'alice', status: 'pending' });
+    expect(replayed[0].id).not.toBe('one');
+  });
+
+  it('estimates how long until each item plays, counting the time already spent on the current one', async () => {
+    queue.add(request('playing', { text: 'a'.repeat(140) })); // 11s
+    queue.add(request('fast', { text: 'b'.repeat(56), speed: 2 })); // 3s
+    queue.add(request('last', { text: 'c'.repeat(28) })); // 3s
+    await flush(5000);
+
+    expect(queue.estimateWaitSeconds(0)).toBe(0);
+    expect(queue.estimateWaitSeconds(2)).toBe(9);
+    expect(queue.estimateDrainSeconds()).toBe(12);
+  });
+
+  it('pushes state changes to the app window without the audio', async () => {
+    const onStateChange = vi.fn();
+    queue.onStateChange(onStateChange);
+    queue.add(request('speaking'));
+    queue.add(request('one', { provider: 'aws' }));
+    await flush();
+    synthesisRequests[0].resolve('audio-one');
+    await flush();
+    queue.pause();
+
+    const state = onStateChange.mock.calls.at(-1)?.[0];
+    expect(state.items[1]).toMatchObject({ id: 'one', audioReady: true });
+    expect(state.items[1]).not.toHaveProperty('audioData');
+  });
+
+  describe('lanes', () => {
+    const ids = () => queue.getQueue().map(item => item.id);
+
+    it('orders pending items by lane, first-in first-out within a lane', () => {
+      queue.pause();
+      queue.add(request('chat-1', { lane: 'chat' }));
+      queue.add(request('bits-1', { lane: 'bits' }));
+      queue.add(request('chat-2'));
+      queue.add(request('broadcaster-1', { lane: 'broadcaster' }));
+
+      expect(ids()).toEqual(['broadcaster-1', 'bits-1', 'chat-1', 'chat-2']);
+    });
+
+    it('never puts a higher lane in front of the item that is playing', async () => {
+      queue.add(request('chat-1'));
+      await flush();
+      queue.add(request('redeem-1', { lane: 'redeem' }));
+
+      expect(ids()).toEqual(['chat-1', 'redeem-1']);
+      expect(queue.getQueue()[0].status).toBe('playing');
+    });
+
+    it('reorders pending items when the lane order changes', () => {
+      queue.pause();
+      queue.add(request('sub-1', { lane: 'subscriber' }));
+      queue.add(request('chat-1', { lane: 'chat' }));
+
+      queue.setLaneOrder(['chat']);
+      expect(ids()).toEqual(['chat-1', 'sub-1']);
+      expect(queue.getLaneOrder()[0]).toBe('chat');
+    });
+
+    it('parses stored lane orders, filling in missing lanes and dropping unknown ones', () => {
+      expect(parseLaneOrder('chat, bogus, chat, bits')).toEqual(['chat', 'bits', 'broadcaster', 'redeem', 'moderator', 'subscriber']);
+      expect(parseLaneOrder(null)).toEqual(['broadcaster', 'redeem', 'bits', 'moderator', 'subscriber', 'chat']);
+    });
+  });
+
+  describe('pre-synthesis', () => {
+    const cloud = (id: string) => request(id, { provider: 'aws', voiceId: 'Joanna' });
+    const synthesized = () => synthesisRequests.map(r => r.text);
+
+    it('synthesizes the next cloud items while the current one plays, two at a time', async () => {
+      queue.add(request('speaking'));
+      ['one', 'two', 'three'].forEach(id => queue.add(cloud(id)));
+      await flush();
+      expect(synthesized()).toEqual(['message one', 'message two']);
+
+      synthesisRequests[0].resolve('audio-one');
+      await flush();
+      expect(synthesized()).toEqual(['message one', 'message two', 'message three']);
+    });
+
+    it('plays prefetched audio without synthesizing again', async () => {
+      queue.add(request('speaking'));
+      queue.add(cloud('one'));
+      await flush();
+      synthesisRequests[0].resolve('audio-one');
+      await flush();
+
+      player.finish();
+      await flush(100);
+      expect(synthesisRequests).toHaveLength(1);
+      expect(player.played[1].audioData).toBe(Buffer.from('audio-one').toString('base64'));
+    });
+
+    it('shares an in-flight request with the item when it starts playing', async () => {
+      queue.add(request('speaking'));
+      queue.add(cloud('one'));
+      await flush();
+
+      player.finish();
+      await flush(100);
+      synthesisRequests[0].resolve('audio-one');
+      await flush();
+      expect(synthesisRequests).toHaveLength(1);
+      expect(player.played.map(item => item.id)).toEqual(['speaking', 'one']);
+    });
+
+    it('drops the audio of an item removed before it plays', async () => {
+      queue.add(request('speaking'));
+      queue.add(cloud('one'));
+      queue.add(cloud('two'));
+      await flush();
+
+      expect(queue.remove('one')).toBe(true);
+      expect(queue.remove('missing')).toBe(false);
+      synthesisRequests[0].resolve('audio-one');
+      await flush();
+      expect(queue.getQueue().map(item => item.id)).toEqual(['speaking', 'two']);
+      expect(queue.getQueue().some(item => item.audioData)).toBe(false);
+    });
+  });
+
+  describe('backlog limits', () => {
+    const ids = () => queue.getQueue().map(item => item.id);
+    const limit = (overrides: Partial<typeof DEFAULT_BACKLOG_SETTINGS>) =>
+      queue.setBacklogSettings({ ...DEFAULT_BACKLOG_SETTINGS, ...overrides });
+
+    beforeEach(() => {
+      queue.pause();
+    });
+
+    it('drops the oldest pending message once the queue is full', () => {
+      limit({ maxSize: 2, overflowPolicy: 'drop-oldest' });
+      ['one', 'two', 'three'].forEach(id => queue.add(request(id)));
+
+      expect(ids()).toEqual(['two', 'three']);
+      expect(queue.getDroppedCount()).toBe(1);
+    });
+
+    it('drops the newest pending message with drop-newest', () => {
+      limit({ maxSize: 2, overflowPolicy: 'drop-newest' });
+      ['one', 'two', 'three'].forEach(id => queue.add(request(id)));
+
+      expect(ids()).toEqual(['one', 'two']);
+    });
+
+    it('takes victims from the lowest-priority lane, so chat never pushes out a redeem', () => {
+      limit({ maxSize: 2, overflowPolicy: 'drop-oldest' });
+      queue.add(request('redeem-1', { lane: 'redeem' }));
+      queue.add(request('chat-1'));
+      queue.add(request('chat-2'));
+      queue.add(request('redeem-2', { lane: 'redeem' }));
+
+      expect(ids()).toEqual(['redeem-1', 'redeem-2']);
+    });
+
+    it('keeps each viewer\'s newest message with latest-per-user', () => {
+      ['a-1', 'b-1', 'a-2', 'a-3'].forEach(id => queue.add(request(id, { viewerId: id[0] })));
+      limit({ maxSize: 3, overflowPolicy: 'latest-per-user' });
+
+      expect(ids()).toEqual(['b-1', 'a-3']);
+      expect(queue.getDroppedCount()).toBe(2);
+    });
+
+    it('applies latest-per-user within each lane, keeping a viewer\'s redeem', () => {
+      queue.add(request('a-redeem', { viewerId: 'a', lane: 'redeem' }));
+      ['a-1', 'a-2', 'b-1'].forEach(id => queue.add(request(id, { viewerId: id[0] })));
+      limit({ maxSize: 3, overflowPolicy: 'latest-per-user' });
+
+      expect(ids()).toEqual(['a-redeem', 'a-2', 'b-1']);
+    });
+
+    it('leaves the queue alone without a limit', () => {
+      for (let i = 0; i < 50; i++) queue.add(request(`item-${i}`));
+
+      expect(queue.getBacklogSize()).toBe(50);
+      expect(queue.getDroppedCount()).toBe(0);
+    });
+  });
+
+  describe('catch-up speed', () => {
+    beforeEach(() => {
+      queue.pause();
+      queue.setBacklogSettings({
+        ...DEFAULT_BACKLOG_SETTINGS,
+        catchUpEnabled: true,
+        catchUpStartAt: 2,
+        catchUpStep: 0.25,
+        catchUpMaxRate: 1.5
+      });
+    });
+
+    it('speeds up a step for every catchUpStartAt pending items, up to the maximum', () => {
+      queue.add(request('one'));
+      expect(queue.getCatchUpRate()).toBe(1.0);
+      queue.add(request('two'));
+      expect(queue.getCatchUpRate()).toBe(1.25);
+      queue.add(request('three'));
+      queue.add(request('four'));
+      expect(queue.getCatchUpRate()).toBe(1.5);
+      for (let i = 0; i < 10; i++) queue.add(request(`more-${i}`));
+      expect(queue.getCatchUpRate()).toBe(1.5);
+    });
+
+    it('speaks items faster while the backlog is long', async () => {
+      ['one', 'two', 'three'].forEach(id => queue.add(request(id)));
+      queue.resume();
+      await flush();
+
+      expect(queue.getQueue()[0].playbackRate).toBe(1.25);
+    });
+
+    it('estimates how long the queue takes to drain at the current speed', () => {
+      // 28 characters at 14/s sped up to 1.25x, plus a second between items
+      queue.add(request('one', { text: 'a'.repeat(28) }));
+      queue.add(request('two', { text: 'b'.repeat(28) }));
+
+      expect(queue.estimateDrainSeconds()).toBe(Math.round(2 * (28 / (14 * 1.25) + 1)));
+    });
+  });
+
+  describe('fairness', () => {
+    const ids = () => queue.getQueue().map(item => item.id);
+
+    beforeEach(() => {
+      queue.pause();
+    });
+
+    it('gives each viewer a turn in round-robin mode', () => {
+      queue.setFairnessSettings({ ...DEFAULT_FAIRNESS_SETTINGS, mode: 'round-robin' });
+      queue.add(request('a-1', { viewerId: 'a' }));
+      queue.add(request('a-2', { viewerId: 'a' }));
+      queue.add(request('a-3', { viewerId: 'a' }));
+      queue.add(request('b-1', { viewerId: 'b' }));
+      queue.add(request('b-2', { viewerId: 'b' }));
+
+      expect(ids()).toEqual(['a-1', 'b-1', 'a-2', 'b-2', 'a-3']);
+    });
+
+    it('keeps lanes ahead of round-robin turns', () => {
+      queue.setFairnessSettings({ ...DEFAULT_FAIRNESS_SETTINGS, mode: 'round-robin' });
+      queue.add(request('a-1', { viewerId: 'a' }));
+      queue.add(request('a-2', { viewerId: 'a' }));
+      queue.add(request('b-bits', { viewerId: 'b', lane: 'bits' }));
+
+      expect(ids()).toEqual(['b-bits', 'a-1', 'a-2']);
+    });
+
+    it('goes back to arrival order when switched to FIFO', () => {
+      queue.setFairnessSettings({ ...DEFAULT_FAIRNESS_SETTINGS, mode: 'round-robin' });
+      ['a-1', 'a-2', 'b-1'].forEach(id => queue.add(request(id, { viewerId: id[0] })));
+      queue.setFairnessSettings(DEFAULT_FAIRNESS_SETTINGS);
+
+      expect(ids()).toEqual(['a-1', 'a-2', 'b-1']);
+    });
+
+    it('drops messages over the per-viewer cap', () => {
+      queue.setFairnessSettings({ mode: 'fifo', maxPerUser: 2, overCapPolicy: 'drop' });
+      ['a-1', 'a-2', 'a-3'].forEach(id => queue.add(request(id, { viewerId: 'a' })));
+      queue.add(request('a-redeem', { viewerId: 'a', lane: 'redeem' }));
+
+      expect(ids()).toEqual(['a-redeem', 'a-1', 'a-2']);
+      expect(queue.getDroppedCount()).toBe(1);
+    });
+
+    it('merges messages over the per-viewer cap into the latest one', () => {
+      queue.setFairnessSettings({ mode: 'fifo', maxPerUser: 1, overCapPolicy: 'merge' });
+      queue.add(request('a-1', { viewerId: 'a', text: 'hi' }));
+      queue.add(request('a-2', { viewerId: 'a', text: 'again!' }));
+      queue.add(request('a-3', { viewerId: 'a', text: 'bye' }));
+
+      const items = queue.getQueue();
+      expect(items).toHaveLength(1);
+      expect(items[0].text).toBe('hi. again! bye');
+    });
+  });
+
+  describe('merging', () => {
+    const texts = () => queue.getQueue().map(item => item.text);
+    const fromAlice = (id: string, body: string, overrides: Partial<TTSRequest> = {}) =>
+      request(id, { viewerId: 'alice', announcement: 'alice said ', body, text: `alice said ${body}`, mergeWindowSeconds: 10, ...overrides });
+
+    beforeEach(() => {
+      queue.pause();
+    });
+
+    it('merges a viewer\'s messages that arrive within the window, announcing them once', async () => {
+      queue.add(fromAlice('m-1', 'hi'));
+      await flush(5000);
+      queue.add(fromAlice('m-2', 'how are you?'));
+      await flush(9000); // The window restarts with every merged message
+      queue.add(fromAlice('m-3', 'bye'));
+
+      expect(texts()).toEqual(['alice said hi. how are you? bye']);
+    });
+
+    it('queues a new item once the window has passed', async () => {
+      queue.add(fromAlice('m-1', 'hi'));
+      await flush(11000);
+      queue.add(fromAlice('m-2', 'bye'));
+
+      expect(texts()).toEqual(['alice said hi', 'alice said bye']);
+    });
+
+    it('never merges into another lane or past the length cap', () => {
+      queue.add(fromAlice('m-1', 'hello', { maxLength: 12 }));
+      queue.add(fromAlice('m-2', 'thanks for the bits', { lane: 'bits' }));
+      queue.add(fromAlice('m-3', 'there friend'));
+
+      expect(texts()).toEqual(['alice said thanks for the bits', 'alice said hello. there']);
+    });
+
+    it('replays merged items as they were spoken, without merging them again', async () => {
+      queue.resume();
+      queue.add(fromAlice('m-1', 'hi'));
+      await flush();
+      player.finish();
+      await flush();
+
+      queue.pause();
+      queue.add(fromAlice('m-2', 'new message'));
+      queue.replay(1);
+
+      expect(texts()).toEqual(['alice said new message', 'alice said hi']);
+    });
+  });
+
+  describe('moderation', () => {
+    const ids = () => queue.getQueue().map(item => item.id);
+    const byViewer = (viewerId: string) => (r: TTSRequest) => r.viewerId === viewerId;
+
+    it('drops pending items and history entries that match', async () => {
+      queue.add(request('a-1', { viewerId: 'a' }));
+      await flush();
+      player.finish();
+      await flush();
+
+      queue.pause();
+      queue.add(request('a-2', { viewerId: 'a' }));
+      queue.add(request('b-1', { viewerId: 'b' }));
+      expect(queue.removeMatching(byViewer('a'))).toBe(1);
+
+      expect(ids()).toEqual(['b-1']);
+      expect(queue.replay(5)).toBe(0);
+    });
+
+    it('cuts off a matching item that is playing and keeps it out of replay', async () => {
+      queue.add(request('a-1', { viewerId: 'a', messageIds: ['msg-1'] }));
+      queue.add(request('b-1', { viewerId: 'b' }));
+      await flush();
+
+      expect(queue.removeMatching(r => r.messageIds?.includes('msg-1') ?? false)).toBe(1);
+      await flush(1000);
+
+      expect(broadcasts()).toContain('remove');
+      expect(broadcasts()).not.toContain('complete');
+      expect(player.spoken).toEqual(['message a-1', 'message b-1']);
+
+      player.finish();
+      await flush();
+      expect(queue.replay(5)).toBe(1);
+      expect(ids()).toEqual([expect.stringMatching(/^replay-/)]);
+    });
+
+    it('removes the playing item by id without keeping it for replay', async () => {
+      queue.add(request('one'));
+      queue.add(request('two'));
+      await flush();
+
+      expect(queue.remove('one')).toBe(true);
+      await flush(100);
+      expect(broadcasts()).toEqual(['start', 'remove', 'start']);
+      expect(player.spoken).toEqual(['message one', 'message two']);
+
+      player.finish();
+      await flush(100);
+      expect(queue.getHistory().map(entry => entry.id)).toEqual(['two']);
+    });
+
+    it('matches every message merged into an item', () => {
+      queue.pause();
+      queue.add(request('a-1', { viewerId: 'a', messageIds: ['msg-1'], mergeWindowSeconds: 10 }));
+      queue.add(request('a-2', { viewerId: 'a', messageIds: ['msg-2'], mergeWindowSeconds: 10 }));
+
+      expect(queue.removeMatching(r => r.messageIds?.includes('msg-2') ?? false)).toBe(1);
+      expect(ids()).toEqual([]);
+    });
+  });
+
+  describe('history', () => {
+    const speakCloud = async (id: string) => {
+      queue.add(request(id, { provider: 'aws', username: 'alice' }));
+      await flush();
+      synthesisRequests.at(-1)?.resolve(`audio-${id}`);
+      await flush();
+      player.finish();
+      await flush(100);
+    };
+
+    it('keeps spoken items with their audio, oldest first', async () => {
+      await speakCloud('one');
+      queue.add(request('two'));
+      await flush();
+      player.finish();
+      await flush(100);
+
+      expect(queue.getHistory()).toMatchObject([
+        { id: 'one', username: 'alice', audioReady: true, spokenAt: expect.any(Number) },
+        { id: 'two', audioReady: false }
+      ]);
+      expect(queue.getHistory()[0]).not.toHaveProperty('audioData');
+    });
+
+    it('replays an entry with its stored audio, without synthesizing again or adding it twice', async () => {
+      await speakCloud('one');
+
+      expect(queue.replayById('one')).toBe(true);
+      expect(queue.replayById('missing')).toBe(false);
+      await flush();
+      expect(player.played[1]).toMatchObject({ text: 'message one', replayOf: 'one', audioData: Buffer.from('audio-one').toString('base64') });
+      expect(synthesisRequests).toHaveLength(1);
+
+      player.finish();
+      await flush(100);
+      expect(queue.getHistory().map(entry => entry.id)).toEqual(['one']);
+    });
+
+    it('keeps the last 20 spoken messages', async () => {
+      for (let i = 0; i < 22; i++) {
+        queue.add(request(`item-${i}`));
+        await flush();
+        player.finish();
+        await flush(100);
+      }
+
+      const ids = queue.getHistory().map(entry => entry.id);
+      expect(ids).toHaveLength(20);
+      expect(ids[0]).toBe('item-2');
+    });
+  });
+
+  describe('changes while synthesizing', () => {
+    const played = () => player.played.map(item => item.id);
+    const started = () => mocks.broadcast.mock.calls
+      .filter(([event]) => event.type === 'start')
+      .map(([event]) => event.item.id);
+
+    it('does not speak an item removed by a moderator while it was synthesizing', async () => {
+      queue.add(request('banned', { provider: 'aws', viewerId: 'troll' }));
+      queue.add(request('next'));
+      expect(queue.removeMatching(item => item.viewerId === 'troll')).toBe(1);
+
+      synthesisRequests[0].resolve('audio');
+      await flush(100);
+      expect(started()).toEqual(['next']);
+      expect(played()).toEqual(['next']);
+      expect(queue.getHistory()).toEqual([]);
+    });
+
+    it('skips an item that is still synthesizing', async () => {
+      queue.add(request('slow', { provider: 'aws' }));
+      queue.add(request('next'));
+      queue.skip();
+
+      synthesisRequests[0].resolve('audio');
+      await flush(100);
+      expect(played()).toEqual(['next']);
+    });
+
+    it('does not speak an item cleared while it was synthesizing', async () => {
+      queue.add(request('cleared', { provider: 'aws' }));
+      queue.clear();
+      queue.add(request('after'));
+
+      synthesisRequests[0].resolve('audio');
+      await flush(100);
+      expect(played()).toEqual(['after']);
+      expect(queue.getQueue().map(item => item.id)).toEqual(['after']);
+    });
+
+    it('keeps a single playback loop after clearing the playing item', async () => {
+      queue.add(request('old'));
+      queue.clear(); // Stops 'old'; its loop finishes after the next item has started
+      queue.add(request('new'));
+      queue.add(request('newer'));
+
+      await flush(100);
+      expect(played()).toEqual(['old', 'new']);
+      expect(queue.getQueue().map(item => item.id)).toEqual(['new', 'newer']);
+
+      player.finish();
+      await flush(100);
+      expect(played()).toEqual(['old', 'new', 'newer']);
+      expect(queue.getHistory().map(entry => entry.id)).toEqual(['new']);
+    });
+  });
+});
@@ -0,0 +1,796 @@
+// TTS Queue Manager for sequential audio playback
+// Owned by the main process so TTS keeps running without the app window; the window
+// and the OBS overlay only play the items they are handed
+
+import { DatabaseService } from '../database/service';
+import { getOBSServer } from '../obs/obsServer';
+import { synthesizeSpeech } from './synthesis';
+import {
+  TTSLane,
+  DEFAULT_LANE_ORDER,
+  parseLaneOrder,
+  OverflowPolicy,
+  BacklogSettings,
+  DEFAULT_BACKLOG_SETTINGS,
+  FairnessMode,
+  FairnessSettings,
+  DEFAULT_FAIRNESS_SETTINGS,
+  TTSRequest,
+  TTSQueueItemState,
+  TTSQueueState
+} from '../../shared/ttsQueue';
+
+export * from '../../shared/ttsQueue';
+
+export interface TTSQueueItem extends Omit<TTSQueueItemState, 'audioReady'> {
+  audioData?: string; // Cached audio data for cloud providers
+}
+
+// A spoken item kept for replay, with its synthesized cloud audio
+export interface TTSHistoryEntry extends TTSRequest {
+  spokenAt: number; // ms timestamp playback finished
+  audioData?: string;
+}
+
+// A client that can play items out loud: the app window or the OBS overlay
+export interface TTSPlayer {
+  canSpeak(): boolean;
+  speak(item: TTSQueueItem): Promise<void>; // Resolves when playback ends or is stopped
+  stop(): void;
+  pause(): void;
+  resume(): void;
+}
+
+// Spoken messages kept for replay, and the audio they may hold between them
+const MAX_HISTORY = 20;
+const MAX_HISTORY_AUDIO_CHARS = 8 * 1024 * 1024; // Base64 characters
+
+// Cloud audio synthesized ahead of time so consecutive messages play without a gap
+const LOOKAHEAD_ITEMS = 3;
+const MAX_CONCURRENT_SYNTHESIS = 2;
+const MAX_PREFETCHED_AUDIO_CHARS = 16 * 1024 * 1024; // Base64 characters held by pending items
+
+// Rough speaking rate used for drain estimates at speed 1.0, plus the gap between items
+const CHARS_PER_SECOND = 14;
+const ITEM_OVERHEAD_SECONDS = 1;
+
+export class TTSQueue {
+  private queue: TTSQueueItem[] = [];
+  private isPlaying = false;
+  private paused = false;
+  private currentItem: TTSQueueItem | null = null;
+  private appPlayer: TTSPlayer | null = null;
+  private overlayPlayer: TTSPlayer | null = null;
+  private activePlayer: TTSPlayer | null = null; // Player speaking the current item
+  private playingSince: number | null = null;
+  private history: TTSHistoryEntry[] = [];
+  private laneOrder: TTSLane[] = DEFAULT_LANE_ORDER;
+  private synthesizing: Map<string, Promise<string | undefined>> = new Map(); // Keyed by item ID
+  private backlog: BacklogSettings = DEFAULT_BACKLOG_SETTINGS;
+  private droppedCount = 0;
+  private fairness: FairnessSettings = DEFAULT_FAIRNESS_SETTINGS;
+  private sequence = 0;
+  private generation = 0; // Bumped by clear() so a processNext run still awaiting audio or playback stops
+  private onStateChangeCallback?: (state: TTSQueueState) => void;
+
+  /**
+   * Add item to queue, optionally with audio that is already synthesized
+   */
+  add(request: TTSRequest, audioData?: string): void {
+    const item: TTSQueueItem = {
+      ...request,
+      audioData,
+      lane: request.lane || 'chat',
+      status: 'pending',
+      sequence: this.sequence++,
+      receivedAt: Date.now()
+    };
+    
+    if (this.mergeConsecutive(item) || !this.applyUserCap(item)) {
+      return;
+    }
+
+    this.queue.push(item);
+    this.sortPending();
+    this.enforceMaxSize();
+    this.notifyQueueUpdate();
+    
+    // Start processing if not already playing
+    if (!this.isPlaying) {
+      this.processNext();
+    } else {
+      this.prefetch();
+    }
+  }
+
+  /**
+   * Remove an item (e.g. a moderator pulling a message). A playing item is cut off and, like
+   * removeMatching, kept out of the replay history. Returns false if it is not queued.
+   */
+  remove(id: string): boolean {
+    const index = this.queue.findIndex(item => item.id === id);
+    if (index === -1) return false;
+
+    if (this.queue[index].status === 'playing') {
+      this.cutOff(this.queue[index]);
+      this.notifyQueueUpdate();
+      return true;
+    }
+
+    this.queue.splice(index, 1);
+    this.synthesizing.delete(id);
+    this.notifyQueueUpdate();
+    this.prefetch();
+    return true;
+  }
+
+  /**
+   * Drop every pending item and spoken history entry that matches a moderator action, and cut off
+   * the playing item (removing it from the overlay) if it matches. Returns how many queued items were removed.
+   */
+  removeMatching(matches: (request: TTSRequest) => boolean): number {
+    const removed = this.queue.filter(item => item.status === 'pending' && matches(item));
+    if (removed.length > 0) {
+      this.queue = this.queue.filter(item => !removed.includes(item));
+      removed.forEach(item => this.synthesizing.delete(item.id));
+    }
+    this.history = this.history.filter(request => !matches(request));
+
+    const current = this.queue[0]?.status === 'playing' ? this.queue[0] : null;
+    if (current && matches(current)) {
+      this.cutOff(current);
+      removed.push(current);
+    }
+
+    if (removed.length > 0) {
+      this.notifyQueueUpdate();
+      this.prefetch();
+    }
+    return removed.length;
+  }
+
+  /**
+   * Process next item in queue
+   */
+  private async processNext(): Promise<void> {
+    if (this.queue.length === 0 || this.paused) {
+      this.isPlaying = false;
+      this.currentItem = null;
+      this.playingSince = null;
+      this.notifyQueueUpdate();
+      return;
+    }
+
+    this.isPlaying = true;
+    const generation = this.generation;
+    const item = this.queue[0];
+    this.currentItem = item;
+    
+    item.status = 'playing';
+    item.playbackRate = this.getCatchUpRate();
+    this.playingSince = Date.now();
+    this.notifyQueueUpdate();
+
+    // Synthesize the items behind this one while it plays
+    this.prefetch();
+
+    // For cloud providers, synthesize audio first to send to OBS (usually already prefetched)
+    if (item.provider !== 'webspeech' && !item.audioData) {
+      item.audioData = await this.synthesize(item);
+    }
+
+    // Cleared while synthesizing; a newer run owns the queue now
+    if (generation !== this.generation) return;
+
+    // Removed by a moderator or skipped while synthesizing, so never spoken
+    if (item.status !== 'playing') {
+      this.advance();
+      return;
+    }
+
+    // Broadcast to OBS overlay
+    this.broadcast({
+      type: 'start',
+      item: {
+        id: item.id,
+        text: item.text,
+        username: item.username,
+        viewerId: item.viewerId,
+        lane: item.lane,
+        voiceId: item.voiceId,
+        provider: item.provider,
+        speed: item.speed,
+        pitch: item.pitch,
+        volume: item.volume,
+        playbackRate: item.playbackRate,
+        audioData: item.audioData
+      }
+    });
+
+    try {
+      // Speak the text using appropriate provider
+      await this.speak(item);
+      if (generation !== this.generation) return;
+
+      // Items removed by a moderator while playing are not completed or kept for ~replay
+      if (item.status === 'playing') {
+        item.status = 'completed';
+        this.addToHistory(item);
+
+        // Broadcast completion to OBS overlay
+        this.broadcast({ type: 'complete', item: { id: item.id } });
+      }
+    } catch (error) {
+      if (generation !== this.generation) return;
+      item.status = 'error';
+      item.error = String(error);
+      console.error('TTS error:', error);
+    }
+    this.activePlayer = null;
+
+    this.advance();
+  }
+
+  /**
+   * Remove the finished item at the front of the queue and process the next
+   */
+  private advance(): void {
+    this.queue.shift();
+    this.notifyQueueUpdate();
+    
+    // Small delay between items
+    const generation = this.generation;
+    setTimeout(() => {
+      if (generation === this.generation) {
+        this.processNext();
+      }
+    }, 100);
+  }
+
+  /**
+   * Start background synthesis for the next few pending cloud items, within the concurrency and memory budget
+   */
+  private prefetch(): void {
+    const pending = this.queue.filter(item => item.status === 'pending').slice(0, LOOKAHEAD_ITEMS);
+    const bufferedChars = this.queue
+      .filter(item => item.status === 'pending')
+      .reduce((total, item) => total + (item.audioData?.length || 0), 0);
+    if (bufferedChars >= MAX_PREFETCHED_AUDIO_CHARS) return;
+
+    for (const item of pending) {
+      if (this.synthesizing.size >= MAX_CONCURRENT_SYNTHESIS) return;
+      if (item.provider === 'webspeech' || item.audioData || this.synthesizing.has(item.id)) continue;
+
+      const text = item.text;
+      this.synthesize(item).then(audioData => {
+        // Items cleared, skipped or removed meanwhile are dropped with their audio, as is audio for merged-away text
+        if (audioData && this.queue.includes(item) && item.text === text) {
+          item.audioData = audioData;
+          this.prefetch();
+        }
+      });
+    }
+  }
+
+  /**
+   * Synthesize cloud audio for an item, sharing any request already in flight
+   */
+  private synthesize(item: TTSQueueItem): Promise<string | undefined> {
+    const existing = this.synthesizing.get(item.id);
+    if (existing) return existing;
+
+    const request = this.requestAudio(item).finally(() => {
+      if (this.synthesizing.get(item.id) === request) {
+        this.synthesizing.delete(item.id);
+      }
+    });
+    this.synthesizing.set(item.id, request);
+    return request;
+  }
+
+  private async requestAudio(item: TTSQueueItem): Promise<string | undefined> {
+    try {
+      const audio = await synthesizeSpeech({
+        text: item.text,
+        voiceId: item.voiceId || '',
+        provider: item.provider,
+        pitch: item.pitch,
+        speed: item.speed,
+        volume: item.volume
+      });
+      return audio.toString('base64');
+    } catch (err) {
+      console.error('[TTS Queue] Synthesis failed:', err);
+    }
+    return undefined;
+  }
+
+  /**
+   * Hand the item to a client that can speak it. The overlay speaks when in-app audio is muted
+   * or the app window is unavailable; otherwise the app window does.
+   */
+  private async speak(item: TTSQueueItem): Promise<void> {
+    const muteInApp = DatabaseService.getSetting('tts_mute_in_app') === 'true';
+    const overlayAvailable = !!this.overlayPlayer?.canSpeak();
+    const appAvailable = !!this.appPlayer?.canSpeak();
+
+    const player = overlayAvailable && (muteInApp || !appAvailable) ? this.overlayPlayer : appAvailable ? this.appPlayer : null;
+    if (!player) {
+      throw new Error('No app window or OBS overlay is available to speak');
+    }
+
+    this.activePlayer = player;
+    const playback = player.speak(item);
+    if (this.paused) {
+      // Paused while the audio was being synthesized
+      player.pause();
+    }
+    await playback;
+  }
+
+  /**
+   * Clear entire queue; a paused queue stays paused
+   */
+  clear(): void {
+    // Stop current speech; the overlay stops its audio on the skip event
+    this.activePlayer?.stop();
+    this.broadcast({ type: 'skip' });
+    
+    this.queue = [];
+    this.synthesizing.clear();
+    this.generation++;
+    this.activePlayer = null;
+    this.currentItem = null;
+    this.isPlaying = false;
+    this.playingSince = null;
+    this.notifyQueueUpdate();
+  }
+
+  /**
+   * Skip current item
+   */
+  skip(): void {
+    this.activePlayer?.stop();
+
+    // Still synthesizing: nothing is playing yet, so drop the item before it starts
+    if (!this.activePlayer && this.currentItem?.status === 'playing') {
+      this.currentItem.status = 'completed';
+    }
+
+    // The overlay stops its audio and reports completion
+    this.broadcast({ type: 'skip' });
+  }
+
+  /**
+   * Pause playback; the current item resumes where it left off
+   */
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+
+    this.activePlayer?.pause();
+    this.broadcast({ type: 'pause' });
+    this.notifyQueueUpdate();
+  }
+
+  /**
+   * Resume playback after pause()
+   */
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+
+    this.activePlayer?.resume();
+    this.broadcast({ type: 'resume' });
+    this.notifyQueueUpdate();
+
+    if (!this.isPlaying) {
+      this.processNext();
+    }
+  }
+
+  /**
+   * Queue the last N spoken messages again. Returns how many were queued.
+   */
+  replay(count: number = 1): number {
+    const entries = this.history.slice(-count);
+    entries.forEach(entry => this.replayEntry(entry));
+    return entries.length;
+  }
+
+  /**
+   * Queue one spoken message again by its ID. Returns false if it is no longer in the history.
+   */
+  replayById(id: string): boolean {
+    const entry = this.history.find(entry => entry.id === id);
+    if (!entry) return false;
+    this.replayEntry(entry);
+    return true;
+  }
+
+  /**
+   * Recently spoken messages, oldest first (audio stays in the queue)
+   */
+  getHistory(): TTSQueueState['history'] {
+    return this.history.map(({ audioData, ...entry }) => ({ ...entry, audioReady: !!audioData }));
+  }
+
+  /**
+   * Set the lane priority order (highest first) and reorder pending items
+   */
+  setLaneOrder(order: TTSLane[]): void {
+    this.laneOrder = parseLaneOrder(order.join(','));
+    this.sortPending();
+    this.notifyQueueUpdate();
+  }
+
+  /**
+   * Apply queue limits and catch-up settings, trimming the queue if it is now over the limit
+   */
+  setBacklogSettings(settings: BacklogSettings): void {
+    this.backlog = settings;
+    this.enforceMaxSize();
+    this.notifyQueueUpdate();
+  }
+
+  /**
+   * Apply the fairness mode and per-viewer cap, reordering pending items
+   */
+  setFairnessSettings(settings: FairnessSettings): void {
+    this.fairness = settings;
+    this.sortPending();
+    this.notifyQueueUpdate();
+  }
+
+  /**
+   * Get the current fairness settings
+   */
+  getFairnessSettings(): FairnessSettings {
+    return { ...this.fairness };
+  }
+
+  /**
+   * Get the current queue limits and catch-up settings
+   */
+  getBacklogSettings(): BacklogSettings {
+    return { ...this.backlog };
+  }
+
+  /**
+   * Number of pending items waiting behind the current one
+   */
+  getBacklogSize(): number {
+    return this.queue.filter(item => item.status === 'pending').length;
+  }
+
+  /**
+   * Items dropped by the overflow policy since the app started
+   */
+  getDroppedCount(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * Playback rate for the next item: speeds up a step for every catchUpStartAt items of backlog
+   */
+  getCatchUpRate(): number {
+    const { catchUpEnabled, catchUpStartAt, catchUpStep, catchUpMaxRate } = this.backlog;
+    const backlog = this.getBacklogSize();
+    if (!catchUpEnabled || catchUpStartAt <= 0 || backlog < catchUpStartAt) return 1.0;
+
+    const steps = Math.floor(backlog / catchUpStartAt);
+    return Math.min(1.0 + steps * catchUpStep, Math.max(catchUpMaxRate, 1.0));
+  }
+
+  /**
+   * Estimate seconds until everything queued has been spoken, including catch-up speed
+   */
+  estimateDrainSeconds(): number {
+    return this.estimateWaitSeconds(this.queue.length);
+  }
+
+  /**
+   * Estimate seconds until the queued item at the given index starts playing
+   */
+  estimateWaitSeconds(index: number): number {
+    const rate = this.getCatchUpRate();
+    let total = 0;
+    for (const item of this.queue.slice(0, index)) {
+      const speed = (item.speed && item.speed > 0 ? item.speed : 1.0) * (item.playbackRate ?? rate);
+      let seconds = item.text.length / (CHARS_PER_SECOND * speed) + ITEM_OVERHEAD_SECONDS;
+      if (item.status === 'playing' && this.playingSince) {
+        seconds -= (Date.now() - this.playingSince) / 1000;
+      }
+      total += Math.max(0, seconds);
+    }
+    return Math.round(total);
+  }
+
+  /**
+   * Get the lane priority order, highest first
+   */
+  getLaneOrder(): TTSLane[] {
+    return [...this.laneOrder];
+  }
+
+  /**
+   * Check if playback is paused
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Get current queue
+   */
+  getQueue(): TTSQueueItem[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Get current playing item
+   */
+  getCurrentItem(): TTSQueueItem | null {
+    return this.currentItem;
+  }
+
+  /**
+   * Snapshot of the queue and its settings for the app window
+   */
+  getState(): TTSQueueState {
+    const strip = ({ audioData, ...item }: TTSQueueItem) => item;
+    return {
+      items: this.queue.map(item => ({ ...strip(item), audioReady: !!item.audioData })),
+      currentItem: this.currentItem ? strip(this.currentItem) : null,
+      paused: this.paused,
+      laneOrder: this.getLaneOrder(),
+      backlog: this.getBacklogSettings(),
+      fairness: this.getFairnessSettings(),
+      drainSeconds: this.estimateDrainSeconds(),
+      catchUpRate: this.getCatchUpRate(),
+      droppedCount: this.droppedCount,
+      history: this.getHistory()
+    };
+  }
+
+  /**
+   * Register callback for queue and playback state changes
+   */
+  onStateChange(callback: (state: TTSQueueState) => void): void {
+    this.onStateChangeCallback = callback;
+  }
+
+  /**
+   * Set the clients that can speak items
+   */
+  setPlayers(appPlayer: TTSPlayer, overlayPlayer: TTSPlayer): void {
+    this.appPlayer = appPlayer;
+    this.overlayPlayer = overlayPlayer;
+  }
+
+  /**
+   * Apply the saved lane order, queue limits, catch-up and fairness settings
+   */
+  loadSettings(): void {
+    const getNumber = (key: string, fallback: number) => {
+      const value = parseFloat(DatabaseService.getSetting(key) || '');
+      return isNaN(value) ? fallback : value;
+    };
+
+    this.laneOrder = parseLaneOrder(DatabaseService.getSetting('tts_lane_order'));
+    this.backlog = {
+      maxSize: getNumber('tts_queue_max_size', DEFAULT_BACKLOG_SETTINGS.maxSize),
+      overflowPolicy: (DatabaseService.getSetting('tts_queue_overflow_policy') as OverflowPolicy) || DEFAULT_BACKLOG_SETTINGS.overflowPolicy,
+      catchUpEnabled: DatabaseService.getSetting('tts_catchup_enabled') === 'true',
+      catchUpStartAt: getNumber('tts_catchup_start_at', DEFAULT_BACKLOG_SETTINGS.catchUpStartAt),
+      catchUpStep: getNumber('tts_catchup_step', DEFAULT_BACKLOG_SETTINGS.catchUpStep),
+      catchUpMaxRate: getNumber('tts_catchup_max_rate', DEFAULT_BACKLOG_SETTINGS.catchUpMaxRate)
+    };
+    this.fairness = {
+      mode: (DatabaseService.getSetting('tts_fairness_mode') as FairnessMode) || DEFAULT_FAIRNESS_SETTINGS.mode,
+      maxPerUser: getNumber('tts_fairness_max_per_user', DEFAULT_FAIRNESS_SETTINGS.maxPerUser),
+      overCapPolicy: DatabaseService.getSetting('tts_fairness_over_cap') === 'merge' ? 'merge' : 'drop'
+    };
+
+    this.sortPending();
+    this.enforceMaxSize();
+    this.notifyQueueUpdate();
+  }
+
+  /**
+   * Drop pending items per the overflow policy until the queue fits. Victims come from the
+   * lowest-priority lane present, so chat never pushes out a redeem.
+   */
+  private enforceMaxSize(): void {
+    const { maxSize, overflowPolicy } = this.backlog;
+    if (maxSize <= 0) return;
+
+    if (overflowPolicy === 'latest-per-user' && this.getBacklogSize() > maxSize) {
+      // Keep each viewer's newest pending message in each lane, so a new chat line never drops their redeem
+      const seen = new Set<string>();
+      const newestFirst = this.queue
+        .filter(item => item.status === 'pending' && item.viewerId)
+        .sort((a, b) => (b.sequence ?? 0) - (a.sequence ?? 0));
+      for (const item of newestFirst) {
+        const key = `${item.lane}:${item.viewerId}`;
+        if (seen.has(key)) {
+          this.drop(item);
+        } else {
+          seen.add(key);
+        }
+      }
+    }
+
+    while (this.getBacklogSize() > maxSize) {
+      const pending = this.queue.filter(item => item.status === 'pending');
+      const lowestRank = Math.max(...pending.map(item => this.getLaneRank(item)));
+      const lowest = pending
+        .filter(item => this.getLaneRank(item) === lowestRank)
+        .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+
+      this.drop(overflowPolicy === 'drop-newest' ? lowest[lowest.length - 1] : lowest[0]);
+    }
+  }
+
+  /**
+   * Merge a new message into the same viewer's latest pending item in its lane if that arrived
+   * within the item's merge window. Returns true if the message was merged.
+   */
+  private mergeConsecutive(item: TTSQueueItem): boolean {
+    const windowMs = (item.mergeWindowSeconds || 0) * 1000;
+    if (windowMs <= 0 || !item.viewerId) return false;
+
+    const target = this.queue
+      .filter(queued => queued.status === 'pending' && !queued.replayOf && queued.viewerId === item.viewerId && queued.lane === item.lane)
+      .sort((a, b) => (b.sequence ?? 0) - (a.sequence ?? 0))[0];
+    if (!target || Date.now() - (target.receivedAt ?? 0) > windowMs) return false;
+
+    this.mergeInto(target, item);
+    target.receivedAt = item.receivedAt;
+    this.notifyQueueUpdate();
+    return true;
+  }
+
+  /**
+   * Enforce the per-viewer cap for a new item. Returns false if the item was dropped or merged.
+   */
+  private applyUserCap(item: TTSQueueItem): boolean {
+    const { maxPerUser, overCapPolicy } = this.fairness;
+    if (maxPerUser <= 0 || !item.viewerId) return true;
+
+    const existing = this.queue.filter(queued =>
+      queued.status === 'pending' && queued.viewerId === item.viewerId && queued.lane === item.lane
+    );
+    if (existing.length < maxPerUser) return true;
+
+    if (overCapPolicy === 'merge') {
+      const target = existing.reduce((latest, queued) =>
+        (queued.sequence ?? 0) > (latest.sequence ?? 0) ? queued : latest
+      );
+      this.mergeInto(target, item);
+    } else {
+      this.droppedCount++;
+      console.log(`[TTS Queue] Dropped message from ${item.username || 'unknown'} (per-user cap)`);
+    }
+    this.notifyQueueUpdate();
+    return false;
+  }
+
+  /**
+   * Append another message's body to a pending item, keeping its announcement and length cap,
+   * and discard audio made for the old text
+   */
+  private mergeInto(target: TTSQueueItem, item: TTSRequest): void {
+    const existing = (target.body ?? target.text).trim();
+    const separator = /[.!?]$/.test(existing) ? ' ' : '. ';
+    let body = `${existing}${separator}${(item.body ?? item.text).trim()}`;
+    if (target.maxLength && body.length > target.maxLength) {
+      body = body.substring(0, target.maxLength);
+    }
+
+    target.body = body;
+    target.text = `${target.announcement || ''}${body}`;
+    target.messageIds = [...(target.messageIds || []), ...(item.messageIds || [])];
+    target.audioData = undefined;
+    this.synthesizing.delete(target.id);
+    this.prefetch();
+  }
+
+  /**
+   * Order pending items by lane, then by arrival (FIFO) or by each viewer's turn (round-robin).
+   * The playing item stays first.
+   */
+  private sortPending(): void {
+    const playing = this.queue[0]?.status === 'playing' ? this.queue.slice(0, 1) : [];
+    const pending = this.queue.slice(playing.length);
+
+    // A viewer's Nth pending message in a lane plays in round N
+    const rounds = new Map<TTSQueueItem, number>();
+    if (this.fairness.mode === 'round-robin') {
+      const counts = new Map<string, number>();
+      [...pending]
+        .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0))
+        .forEach(item => {
+          if (!item.viewerId) return;
+          const key = `${item.lane}:${item.viewerId}`;
+          const round = counts.get(key) || 0;
+          rounds.set(item, round);
+          counts.set(key, round + 1);
+        });
+    }
+
+    pending.sort((a, b) =>
+      this.getLaneRank(a) - this.getLaneRank(b) ||
+      (rounds.get(a) || 0) - (rounds.get(b) || 0) ||
+      (a.sequence ?? 0) - (b.sequence ?? 0)
+    );
+    this.queue = [...playing, ...pending];
+  }
+
+  /**
+   * Stop the playing item and take it off the overlay; processNext then moves on without
+   * completing it or adding it to the history
+   */
+  private cutOff(item: TTSQueueItem): void {
+    item.status = 'error';
+    item.error = 'Removed by moderator';
+    this.activePlayer?.stop();
+    this.broadcast({ type: 'remove', item: { id: item.id } });
+  }
+
+  private drop(item: TTSQueueItem): void {
+    this.queue.splice(this.queue.indexOf(item), 1);
+    this.synthesizing.delete(item.id);
+    this.droppedCount++;
+    console.log(`[TTS Queue] Dropped ${item.lane} message from ${item.username || 'unknown'} (queue full)`);
+  }
+
+  private getLaneRank(item: TTSRequest): number {
+    return this.laneOrder.indexOf(item.lane || 'chat');
+  }
+
+  private addToHistory(item: TTSQueueItem): void {
+    // Replays are already in the history
+    if (item.replayOf) return;
+
+    const { status, error, playbackRate, sequence, receivedAt, ...entry } = item;
+    this.history.push({ ...entry, spokenAt: Date.now() });
+
+    let audioChars = this.history.reduce((total, entry) => total + (entry.audioData?.length || 0), 0);
+    while (this.history.length > MAX_HISTORY || (audioChars > MAX_HISTORY_AUDIO_CHARS && this.history.length > 1)) {
+      audioChars -= this.history.shift()?.audioData?.length || 0;
+    }
+  }
+
+  private replayEntry(entry: TTSHistoryEntry): void {
+    const { spokenAt, audioData, ...request } = entry;
+    this.add({
+      ...request,
+      id: `replay-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      mergeWindowSeconds: undefined,
+      replayOf: entry.id
+    }, audioData);
+  }
+
+  private notifyQueueUpdate(): void {
+    this.onStateChangeCallback?.(this.getState());
+  }
+
+  private broadcast(event: { type: string; item?: unknown }): void {
+    try {
+      getOBSServer().broadcast(event);
+    } catch (err) {
+      console.error(`Failed to broadcast ${event.type} to OBS:`, err);
+    }
+  }
+}
+
+// Singleton instance
+let ttsQueue: TTSQueue | null = null;
+
+export function getTTSQueue(): TTSQueue {
+  if (!ttsQueue) {
+    ttsQueue = new TTSQueue();
+  }
+  return ttsQueue;
+}
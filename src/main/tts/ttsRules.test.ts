@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ChatMessage } from '../database/service';
+import { getCachedSetting } from '../database/settingsCache';
+
+const settings = vi.hoisted(() => ({} as Record<string, string>));
+const spokenNames = vi.hoisted(() => new Map<string, string>());
+const settingListeners = vi.hoisted(() => new Set<(key: string, value: string) => void>());
+
+vi.mock('../database/service', () => ({
+  DatabaseService: {
+    getViewerById: vi.fn((id: string) => ({ id, spoken_name: spokenNames.get(id) ?? null })),
+    getViewerByUsername: vi.fn((username: string) => ({ id: `viewer-${username}`, username, spoken_name: spokenNames.get(`viewer-${username}`) ?? null })),
+    onSettingChange: vi.fn((listener: (key: string, value: string) => void) => {
+      settingListeners.add(listener);
+      return () => settingListeners.delete(listener);
+    })
+  }
+}));
+
+vi.mock('../database/settingsCache', () => ({
+  getCachedSetting: vi.fn((key: string) => settings[key] ?? null)
+}));
+
+// Save a setting the way DatabaseService.setSetting does, telling listeners
+function setSetting(key: string, value: string): void {
+  settings[key] = value;
+  settingListeners.forEach(listener => listener(key, value));
+}
+
+import { TTSRulesService, cleanSpokenName } from './ttsRules';
+
+describe('cleanSpokenName', () => {
+  it('drops xX_..._Xx wrappers', () => {
+    expect(cleanSpokenName('xX_N1nja_Xx')).toBe('N1nja');
+  });
+
+  it('splits underscores, camelCase and acronyms', () => {
+    expect(cleanSpokenName('cool_guy')).toBe('cool guy');
+    expect(cleanSpokenName('CoolGuy')).toBe('Cool Guy');
+    expect(cleanSpokenName('TTSBot')).toBe('TTS Bot');
+  });
+
+  it('drops leading and trailing digits', () => {
+    expect(cleanSpokenName('CoolGuy_2000')).toBe('Cool Guy');
+    expect(cleanSpokenName('99problems')).toBe('problems');
+  });
+
+  it('keeps names that would otherwise be emptied', () => {
+    expect(cleanSpokenName('12345')).toBe('12345');
+  });
+});
+
+describe('TTSRulesService.processMessage', () => {
+  function chatMessage(message: string, overrides: Partial<ChatMessage> = {}): ChatMessage {
+    return { viewer_id: 'viewer-1', username: 'alice', message, timestamp: new Date().toISOString(), ...overrides };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    for (const key of Object.keys(settings)) delete settings[key];
+    vi.mocked(getCachedSetting).mockClear();
+    spokenNames.clear();
+    settings.tts_announce_username = 'false';
+  });
+
+  it('speaks messages with the replacement rules applied', () => {
+    settings.tts_replacement_rules = JSON.stringify([{ id: 'gg', pattern: 'gg', replacement: 'good game', wholeWord: true }]);
+
+    expect(new TTSRulesService().processMessage(chatMessage('gg everyone'))).toMatchObject({ shouldSpeak: true, text: 'good game everyone' });
+  });
+
+  it('applies replacement rules after the emote limit, which uses the original positions', () => {
+    Object.assign(settings, {
+      tts_limit_emotes: 'true',
+      tts_max_emotes: '1',
+      tts_replacement_rules: JSON.stringify([{ id: 'gg', pattern: 'gg', replacement: 'good game' }])
+    });
+
+    const processed = new TTSRulesService().processMessage(chatMessage('Kappa gg Kappa Kappa', {
+      emotes: JSON.stringify({ '25': ['0-4', '9-13', '15-19'] })
+    }));
+    expect(processed).toMatchObject({ shouldSpeak: true, text: 'Kappa good game' });
+  });
+
+  it('skips messages the rules empty out', () => {
+    settings.tts_replacement_rules = JSON.stringify([{ id: 'um', pattern: 'um+', replacement: '', isRegex: true }]);
+
+    expect(new TTSRulesService().processMessage(chatMessage('ummm'))).toMatchObject({ shouldSpeak: false, reason: 'Message empty after replacements' });
+  });
+
+  it('announces viewers by their spoken name, or their cleaned-up display name', () => {
+    settings.tts_announce_username = 'true';
+    const service = new TTSRulesService();
+
+    expect(service.processMessage(chatMessage('hi', { display_name: 'xX_N1nja_Xx' })).text).toBe('N1nja says: hi');
+
+    setSetting('tts_clean_usernames', 'false');
+    expect(service.processMessage(chatMessage('hi', { display_name: 'xX_N1nja_Xx' })).text).toBe('xX_N1nja_Xx says: hi');
+
+    spokenNames.set('viewer-1', 'Ninja');
+    expect(service.processMessage(chatMessage('hi', { display_name: 'xX_N1nja_Xx' })).text).toBe('Ninja says: hi');
+  });
+
+  it('reads the rules once and again only after one of them changes', () => {
+    const service = new TTSRulesService();
+    service.processMessage(chatMessage('hello'));
+    service.processMessage(chatMessage('hello again'));
+    expect(getCachedSetting).toHaveBeenCalledWith('tts_filter_urls');
+    const reads = vi.mocked(getCachedSetting).mock.calls.length;
+
+    setSetting('tts_obs_port', '4455');
+    service.processMessage(chatMessage('still cached'));
+    expect(getCachedSetting).toHaveBeenCalledTimes(reads);
+
+    setSetting('tts_replacement_rules', JSON.stringify([{ id: 'hi', pattern: 'hi', replacement: 'hello' }]));
+    expect(service.processMessage(chatMessage('hi')).text).toBe('hello');
+  });
+
+  it('only counts duplicates and cooldowns for messages recorded as spoken', () => {
+    Object.assign(settings, { tts_skip_duplicates: 'true', tts_duplicate_window: '60', tts_user_cooldown: 'true', tts_user_cooldown_seconds: '30' });
+    const service = new TTSRulesService();
+
+    const first = service.processMessage(chatMessage('hello'));
+    expect(service.processMessage(chatMessage('hello'))).toMatchObject({ shouldSpeak: true });
+
+    service.recordSpoken(chatMessage('hello'), first);
+    expect(service.processMessage(chatMessage('hello', { viewer_id: 'viewer-2' }))).toMatchObject({ shouldSpeak: true });
+    expect(service.processMessage(chatMessage('hello'))).toMatchObject({ shouldSpeak: false });
+    expect(service.processMessage(chatMessage('something else'))).toMatchObject({ shouldSpeak: false, reason: expect.stringContaining('cooldown') });
+  });
+
+  it('normalizes replies and mentions using the viewers\' spoken names', () => {
+    Object.assign(settings, { tts_normalize_replies: 'true', tts_normalize_mentions: 'true' });
+    spokenNames.set('viewer-xx_bob_xx', 'Bobby');
+
+    const processed = new TTSRulesService().processMessage(chatMessage('@carol ask @xx_bob_xx and @Cool_Guy99', { reply_parent_login: 'carol' }));
+    expect(processed.text).toBe('ask Bobby and Cool Guy');
+  });
+});
@@ -0,0 +1,560 @@
+// TTS Rules - Message filtering and processing
+// Applies configured rules before sending messages to TTS queue
+
+import { DatabaseService, ChatMessage } from '../database/service';
+import { getCachedSetting } from '../database/settingsCache';
+import { normalizeText, NormalizationOptions } from './textNormalizer';
+import { ReplacementRule, parseReplacementRules, applyReplacementRules } from '../../shared/replacementRules';
+
+interface TTSRules {
+  filterCommands: boolean;
+  filterUrls: boolean;
+  filterBots: boolean;
+  botList: string;
+  announceUsername: boolean;
+  usernameStyle: string;
+  minLength: number;
+  maxLength: number;
+  skipDuplicates: boolean;
+  duplicateWindow: number;
+  userCooldown: boolean;
+  userCooldownSeconds: number;
+  globalCooldown: boolean;
+  globalCooldownSeconds: number;
+  limitEmotes: boolean;
+  maxEmotes: number;
+  limitEmojis: boolean;
+  maxEmojis: number;
+  limitRepeatedChars: boolean;
+  maxRepeatedChars: number;
+  limitLongNumbers: boolean;
+  maxNumberLength: number;
+  blockedWords: string[];
+  blockedWordReplacement: string;
+  mergeMessages: boolean;
+  mergeWindowSeconds: number;
+  replacementRules: ReplacementRule[];
+  cleanUsernames: boolean;
+  normalization: NormalizationOptions;
+}
+
+// Settings readRules reads; a change to any of them reloads the rules
+const RULE_SETTING_KEYS = [
+  'tts_filter_commands',
+  'tts_filter_urls',
+  'tts_filter_bots',
+  'tts_bot_list',
+  'tts_announce_username',
+  'tts_username_style',
+  'tts_min_length',
+  'tts_max_length',
+  'tts_skip_duplicates',
+  'tts_duplicate_window',
+  'tts_user_cooldown',
+  'tts_user_cooldown_seconds',
+  'tts_global_cooldown',
+  'tts_global_cooldown_seconds',
+  'tts_limit_emotes',
+  'tts_max_emotes',
+  'tts_limit_emojis',
+  'tts_max_emojis',
+  'tts_limit_repeated_chars',
+  'tts_max_repeated_chars',
+  'tts_limit_long_numbers',
+  'tts_max_number_length',
+  'tts_blocked_words',
+  'tts_blocked_word_replacement',
+  'tts_merge_messages',
+  'tts_merge_window_seconds',
+  'tts_replacement_rules',
+  'tts_clean_usernames',
+  'tts_normalize_replies',
+  'tts_normalize_mentions',
+  'tts_normalize_abbreviations',
+  'tts_normalize_currency',
+  'tts_normalize_times',
+  'tts_normalize_numbers'
+];
+
+const DEFAULT_RULES: TTSRules = {
+  filterCommands: true,
+  filterUrls: true,
+  filterBots: true,
+  botList: 'Nightbot,StreamElements,Streamlabs,Moobot,Fossabot,Wizebot',
+  announceUsername: true,
+  usernameStyle: 'says',
+  minLength: 1,
+  maxLength: 500,
+  skipDuplicates: false,
+  duplicateWindow: 60,
+  userCooldown: false,
+  userCooldownSeconds: 30,
+  globalCooldown: false,
+  globalCooldownSeconds: 5,
+  limitEmotes: false,
+  maxEmotes: 5,
+  limitEmojis: false,
+  maxEmojis: 5,
+  limitRepeatedChars: false,
+  maxRepeatedChars: 3,
+  limitLongNumbers: false,
+  maxNumberLength: 6,
+  blockedWords: [],
+  blockedWordReplacement: '[censored]',
+  mergeMessages: false,
+  mergeWindowSeconds: 10,
+  replacementRules: [],
+  cleanUsernames: true,
+  normalization: {
+    replies: false,
+    mentions: false,
+    abbreviations: false,
+    currency: false,
+    times: false,
+    numbers: false
+  }
+};
+
+export interface ProcessedMessage {
+  text: string;
+  shouldSpeak: boolean;
+  reason?: string;
+  announcement?: string;       // Username announcement prefixed to text, e.g. "name says: "
+  body?: string;               // Text without the announcement
+  maxLength?: number;
+  mergeWindowSeconds?: number; // 0 when merging is off
+  duplicateKey?: string;       // Set when duplicates are skipped; remembered by recordSpoken
+}
+
+export class TTSRulesService {
+  private recentMessages: Map<string, number> = new Map(); // For duplicate detection
+  private lastGlobalTTS: number = 0; // For global cooldown
+  private lastUserTTS: Map<string, number> = new Map(); // For user cooldown
+  private cachedRules: TTSRules | null = null;
+
+  constructor() {
+    DatabaseService.onSettingChange(key => {
+      if (RULE_SETTING_KEYS.includes(key)) {
+        this.cachedRules = null;
+      }
+    });
+  }
+
+  /**
+   * Get the TTS rules, reading them from the database only after a rule setting changed
+   */
+  loadRules(): TTSRules {
+    if (!this.cachedRules) {
+      try {
+        this.cachedRules = this.readRules();
+      } catch (error) {
+        console.error('Failed to load TTS rules:', error);
+        return DEFAULT_RULES; // Not cached, so the next message tries again
+      }
+    }
+    return this.cachedRules;
+  }
+
+  private readRules(): TTSRules {
+    const isOn = (key: string) => getCachedSetting(key) === 'true';
+    const number = (key: string, fallback: number) => parseInt(getCachedSetting(key) || String(fallback));
+    const blockedWords = getCachedSetting('tts_blocked_words');
+
+    return {
+      filterCommands: isOn('tts_filter_commands'),
+      filterUrls: isOn('tts_filter_urls'),
+      filterBots: isOn('tts_filter_bots'),
+      botList: getCachedSetting('tts_bot_list') || DEFAULT_RULES.botList,
+      announceUsername: getCachedSetting('tts_announce_username') !== 'false', // Default true
+      usernameStyle: getCachedSetting('tts_username_style') || DEFAULT_RULES.usernameStyle,
+      minLength: number('tts_min_length', DEFAULT_RULES.minLength),
+      maxLength: number('tts_max_length', DEFAULT_RULES.maxLength),
+      skipDuplicates: isOn('tts_skip_duplicates'),
+      duplicateWindow: number('tts_duplicate_window', DEFAULT_RULES.duplicateWindow),
+      userCooldown: isOn('tts_user_cooldown'),
+      userCooldownSeconds: number('tts_user_cooldown_seconds', DEFAULT_RULES.userCooldownSeconds),
+      globalCooldown: isOn('tts_global_cooldown'),
+      globalCooldownSeconds: number('tts_global_cooldown_seconds', DEFAULT_RULES.globalCooldownSeconds),
+      limitEmotes: isOn('tts_limit_emotes'),
+      maxEmotes: number('tts_max_emotes', DEFAULT_RULES.maxEmotes),
+      limitEmojis: isOn('tts_limit_emojis'),
+      maxEmojis: number('tts_max_emojis', DEFAULT_RULES.maxEmojis),
+      limitRepeatedChars: isOn('tts_limit_repeated_chars'),
+      maxRepeatedChars: number('tts_max_repeated_chars', DEFAULT_RULES.maxRepeatedChars),
+      limitLongNumbers: isOn('tts_limit_long_numbers'),
+      maxNumberLength: number('tts_max_number_length', DEFAULT_RULES.maxNumberLength),
+      blockedWords: blockedWords ? blockedWords.split(',').filter((w: string) => w.trim()) : [],
+      blockedWordReplacement: getCachedSetting('tts_blocked_word_replacement') || DEFAULT_RULES.blockedWordReplacement,
+      mergeMessages: isOn('tts_merge_messages'),
+      mergeWindowSeconds: number('tts_merge_window_seconds', DEFAULT_RULES.mergeWindowSeconds),
+      replacementRules: parseReplacementRules(getCachedSetting('tts_replacement_rules')),
+      cleanUsernames: getCachedSetting('tts_clean_usernames') !== 'false', // Default true
+      normalization: {
+        replies: isOn('tts_normalize_replies'),
+        mentions: isOn('tts_normalize_mentions'),
+        abbreviations: isOn('tts_normalize_abbreviations'),
+        currency: isOn('tts_normalize_currency'),
+        times: isOn('tts_normalize_times'),
+        numbers: isOn('tts_normalize_numbers')
+      }
+    };
+  }
+
+  /**
+   * Process a message through all TTS rules. Duplicate and cooldown tracking only changes in
+   * recordSpoken, once the caller has decided the message is spoken.
+   */
+  processMessage(message: ChatMessage): ProcessedMessage {
+    const rules = this.loadRules();
+    let text = message.message.trim();
+    let duplicateKey: string | undefined;
+
+    // Debug: Log the raw message for emote inspection
+    console.log('Processing message:', { username: message.username, text, message });
+
+    // 1. Filter commands (starting with ! only, ~ is handled by command processor)
+    if (rules.filterCommands && text.startsWith('!')) {
+      return { text, shouldSpeak: false, reason: 'Message is a command' };
+    }
+
+    // 2. Filter URLs
+    if (rules.filterUrls && this.containsUrl(text)) {
+      return { text, shouldSpeak: false, reason: 'Message contains URL' };
+    }
+
+    // 3. Filter bots
+    if (rules.filterBots) {
+      const bots = rules.botList.toLowerCase().split(',').map(b => b.trim());
+      if (bots.includes(message.username.toLowerCase())) {
+        return { text, shouldSpeak: false, reason: 'Message from bot' };
+      }
+    }
+
+    // 4. Check message length
+    if (text.length < rules.minLength) {
+      return { text, shouldSpeak: false, reason: `Message too short (min: ${rules.minLength})` };
+    }
+    if (text.length > rules.maxLength) {
+      text = text.substring(0, rules.maxLength);
+    }
+
+    // 5. Check for blocked words (case-insensitive) and replace them
+    if (rules.blockedWords.length > 0) {
+      const lowerText = text.toLowerCase();
+      for (const word of rules.blockedWords) {
+        const lowerWord = word.toLowerCase().trim();
+        if (lowerWord && lowerText.includes(lowerWord)) {
+          console.log(`Blocked word detected: ${word}, replacing in message`);
+          // Replace all occurrences (case-insensitive)
+          const regex = new RegExp(lowerWord.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+          text = text.replace(regex, rules.blockedWordReplacement);
+        }
+      }
+    }
+
+    // 6. Check duplicates
+    if (rules.skipDuplicates) {
+      duplicateKey = `${message.viewer_id}:${text.toLowerCase()}`;
+      const lastTime = this.recentMessages.get(duplicateKey);
+      if (lastTime) {
+        const timeDiff = (Date.now() - lastTime) / 1000;
+        if (timeDiff < rules.duplicateWindow) {
+          return { text, shouldSpeak: false, reason: 'Duplicate message' };
+        }
+      }
+    }
+
+    // 7. Check user cooldown
+    if (rules.userCooldown) {
+      const lastUserTime = this.lastUserTTS.get(message.viewer_id);
+      if (lastUserTime) {
+        const timeDiff = (Date.now() - lastUserTime) / 1000;
+        if (timeDiff < rules.userCooldownSeconds) {
+          return { 
+            text, 
+            shouldSpeak: false, 
+            reason: `User on cooldown (${Math.ceil(rules.userCooldownSeconds - timeDiff)}s remaining)` 
+          };
+        }
+      }
+    }
+
+    // 8. Check global cooldown
+    if (rules.globalCooldown) {
+      const timeDiff = (Date.now() - this.lastGlobalTTS) / 1000;
+      if (timeDiff < rules.globalCooldownSeconds) {
+        return { 
+          text, 
+          shouldSpeak: false, 
+          reason: `Global cooldown (${Math.ceil(rules.globalCooldownSeconds - timeDiff)}s remaining)` 
+        };
+      }
+    }
+
+    // 9. Limit emotes - remove extra emotes but keep the first N
+    if (rules.limitEmotes && message.emotes) {
+      text = this.limitEmotesInText(text, message.emotes, rules.maxEmotes);
+    }
+
+    // 10. Limit emojis (Unicode emojis like 😀, 🎉, etc.)
+    if (rules.limitEmojis) {
+      text = this.limitEmojis(text, rules.maxEmojis);
+    }
+
+    // 11. Limit long numbers (before repeated chars to avoid affecting it)
+    if (rules.limitLongNumbers) {
+      text = this.limitLongNumbers(text, rules.maxNumberLength);
+    }
+
+    // 12. Limit repeated characters (only for letters, not numbers)
+    if (rules.limitRepeatedChars) {
+      text = this.limitRepeatedCharacters(text, rules.maxRepeatedChars);
+    }
+
+    // 13. Normalize chat-speak, currency, times, numbers and mentions (after emote limits, which use Twitch's positions)
+    if (Object.values(rules.normalization).some(enabled => enabled)) {
+      text = normalizeText(text, rules.normalization, {
+        replyParentLogin: message.reply_parent_login,
+        speakMention: login => this.getMentionName(login, rules.cleanUsernames)
+      });
+      if (!text) {
+        return { text, shouldSpeak: false, reason: 'Message empty after normalization' };
+      }
+    }
+
+    // 14. Apply replacement rules (pronunciations, abbreviations, stripped words), also after the emote limits
+    if (rules.replacementRules.length > 0) {
+      text = applyReplacementRules(text, rules.replacementRules);
+      if (!text) {
+        return { text, shouldSpeak: false, reason: 'Message empty after replacements' };
+      }
+    }
+
+    // 15. Add username announcement
+    const announcement = rules.announceUsername
+      ? this.formatAnnouncement(this.getSpokenName(message, rules.cleanUsernames), rules.usernameStyle)
+      : '';
+
+    return {
+      text: `${announcement}${text}`,
+      shouldSpeak: true,
+      announcement,
+      body: text,
+      maxLength: rules.maxLength,
+      mergeWindowSeconds: rules.mergeMessages ? rules.mergeWindowSeconds : 0,
+      duplicateKey
+    };
+  }
+
+  /**
+   * Remember a message that is being spoken for duplicate detection, and start the cooldowns
+   */
+  recordSpoken(message: ChatMessage, processed: ProcessedMessage): void {
+    const rules = this.loadRules();
+
+    if (processed.duplicateKey) {
+      this.recentMessages.set(processed.duplicateKey, Date.now());
+      this.cleanupOldMessages(rules.duplicateWindow);
+    }
+    if (rules.userCooldown) {
+      this.lastUserTTS.set(message.viewer_id, Date.now());
+    }
+    if (rules.globalCooldown) {
+      this.lastGlobalTTS = Date.now();
+    }
+  }
+
+  /**
+   * Build the spoken username prefix for the configured style
+   */
+  private formatAnnouncement(displayName: string, style: string): string {
+    switch (style) {
+      case 'says':
+        return `${displayName} says: `;
+      case 'from':
+        return `From ${displayName}: `;
+      case 'colon':
+        return `${displayName}: `;
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * The viewer's spoken name override, or their display name (cleaned up if enabled)
+   */
+  private getSpokenName(message: ChatMessage, clean: boolean): string {
+    const displayName = message.display_name || message.username;
+    try {
+      const spokenName = DatabaseService.getViewerById(message.viewer_id)?.spoken_name;
+      if (spokenName) return spokenName;
+    } catch (err) {
+      console.error('Failed to look up spoken name:', err);
+    }
+    return clean ? cleanSpokenName(displayName) : displayName;
+  }
+
+  /**
+   * How to say an @mentioned viewer: their spoken name override, or the login (cleaned up if enabled)
+   */
+  private getMentionName(login: string, clean: boolean): string {
+    try {
+      const viewer = DatabaseService.getViewerByUsername(login);
+      if (viewer?.spoken_name) return viewer.spoken_name;
+      const name = viewer?.display_name || login;
+      return clean ? cleanSpokenName(name) : name;
+    } catch (err) {
+      console.error('Failed to look up mentioned viewer:', err);
+      return login;
+    }
+  }
+
+  private containsUrl(text: string): boolean {
+    // Match http://, https://, www., or common TLDs
+    const urlRegex = /(https?:\/\/[^\s]+)|(www\.[^\s]+\.[a-z]{2,})|([a-zA-Z0-9-]+\.(com|net|org|io|tv|gg|xyz|co\.uk|edu|gov|me|info)(\/[^\s]*)?)/gi;
+    return urlRegex.test(text);
+  }
+
+  private countEmotes(emotesStr: string): number {
+    try {
+      const emotesData = JSON.parse(emotesStr);
+      // Count total emote instances by counting all position arrays
+      return Object.values(emotesData).reduce((sum: number, positions: any) => {
+        return sum + (Array.isArray(positions) ? positions.length : 0);
+      }, 0);
+    } catch (err) {
+      console.error('Failed to parse emotes:', err);
+      return 0;
+    }
+  }
+
+  private limitEmotesInText(text: string, emotesStr: string, maxEmotes: number): string {
+    try {
+      const emotesData = JSON.parse(emotesStr);
+      
+      // Collect all emote positions with their ranges
+      const emotePositions: Array<{ start: number; end: number }> = [];
+      for (const positions of Object.values(emotesData)) {
+        if (Array.isArray(positions)) {
+          for (const pos of positions) {
+            const [start, end] = pos.split('-').map(Number);
+            emotePositions.push({ start, end });
+          }
+        }
+      }
+      
+      // Sort by position (earliest first)
+      emotePositions.sort((a, b) => a.start - b.start);
+      
+      const emoteCount = emotePositions.length;
+      console.log(`Detected ${emoteCount} emotes, limit is ${maxEmotes}`);
+      
+      if (emoteCount <= maxEmotes) {
+        return text; // Within limit, return as-is
+      }
+      
+      // Remove emotes beyond the limit (working backwards to preserve indices)
+      const emotesToRemove = emotePositions.slice(maxEmotes);
+      emotesToRemove.reverse(); // Remove from end to start
+      
+      let result = text;
+      for (const { start, end } of emotesToRemove) {
+        // Replace emote with empty string
+        result = result.substring(0, start) + result.substring(end + 1);
+      }
+      
+      // Clean up extra spaces
+      result = result.replace(/\s+/g, ' ').trim();
+      
+      console.log(`Removed ${emotesToRemove.length} emotes, kept first ${maxEmotes}`);
+      return result;
+    } catch (err) {
+      console.error('Failed to limit emotes:', err);
+      return text;
+    }
+  }
+
+  private limitEmotes(text: string, maxEmotes: number): string {
+    // Simple heuristic: words that are all caps or contain no spaces are likely emotes
+    const words = text.split(/\s+/);
+    let emoteCount = 0;
+    const result: string[] = [];
+
+    for (const word of words) {
+      // Consider it an emote if it's all caps and more than 2 chars (rough heuristic)
+      const isLikelyEmote = /^[A-Z0-9]+$/.test(word) && word.length > 2;
+      
+      if (isLikelyEmote) {
+        emoteCount++;
+        if (emoteCount <= maxEmotes) {
+          result.push(word);
+        }
+        // Skip emotes beyond the limit
+      } else {
+        result.push(word);
+      }
+    }
+
+    return result.join(' ');
+  }
+
+  private limitEmojis(text: string, maxEmojis: number): string {
+    // Unicode emoji regex (covers most common emojis)
+    const emojiRegex = /[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F700}-\u{1F77F}\u{1F780}-\u{1F7FF}\u{1F800}-\u{1F8FF}\u{1F900}-\u{1F9FF}\u{1FA00}-\u{1FA6F}\u{1FA70}-\u{1FAFF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu;
+    
+    let count = 0;
+    return text.replace(emojiRegex, (emoji) => {
+      count++;
+      return count <= maxEmojis ? emoji : '';
+    });
+  }
+
+  private limitRepeatedCharacters(text: string, maxRepeat: number): string {
+    // Replace sequences of repeated LETTERS ONLY (not digits)
+    // This prevents affecting numbers like 10000
+    const regex = new RegExp(`([a-zA-Z])\\1{${maxRepeat},}`, 'gi');
+    return text.replace(regex, (match, char) => char.repeat(maxRepeat));
+  }
+
+  private limitLongNumbers(text: string, maxLength: number): string {
+    // Replace long sequences of digits with [number]
+    // Example: 123456789 with maxLength=6 becomes [number]
+    const regex = new RegExp(`\\b\\d{${maxLength + 1},}\\b`, 'g');
+    return text.replace(regex, '[number]');
+  }
+
+  private cleanupOldMessages(windowSeconds: number): void {
+    const cutoff = Date.now() - (windowSeconds * 1000);
+    for (const [key, time] of this.recentMessages.entries()) {
+      if (time < cutoff) {
+        this.recentMessages.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Make a Twitch handle speakable: drop xX_..._Xx wrappers, underscores and leading or trailing
+ * digits, and split camelCase, e.g. "xX_N1nja_Xx" -> "N1nja", "CoolGuy_2000" -> "Cool Guy"
+ */
+export function cleanSpokenName(name: string): string {
+  const cleaned = name
+    .replace(/^xX[_-]*(.+?)[_-]*Xx$/, '$1')
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2') // Acronym before a word, e.g. "TTSBot"
+    .replace(/^\d+\s*|\s*\d+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned || name;
+}
+
+// Singleton instance
+let ttsRulesService: TTSRulesService | null = null;
+
+export function getTTSRulesService(): TTSRulesService {
+  if (!ttsRulesService) {
+    ttsRulesService = new TTSRulesService();
+  }
+  return ttsRulesService;
+}
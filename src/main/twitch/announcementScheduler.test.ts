@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ChatAnnouncementRow } from '../database/announcementService';
+
+const mocks = vi.hoisted(() => ({
+  announcements: [] as ChatAnnouncementRow[],
+  connected: true,
+  say: vi.fn()
+}));
+
+vi.mock('../database/announcementService', () => ({
+  AnnouncementService: {
+    getAllAnnouncements: () => mocks.announcements,
+    getAnnouncement: (id: number) => mocks.announcements.find(a => a.id === id) ?? null,
+    markSent: (id: number, sentAt: string) => {
+      const announcement = mocks.announcements.find(a => a.id === id);
+      if (announcement) announcement.last_sent_at = sentAt;
+    }
+  }
+}));
+vi.mock('./twitchService', () => ({
+  getTwitchService: () => ({
+    isConnected: () => mocks.connected,
+    getChannels: () => ['#streamer'],
+    say: mocks.say
+  })
+}));
+
+import { AnnouncementScheduler } from './announcementScheduler';
+
+const TICK_MS = 30_000;
+const MINUTE = 60_000;
+
+function announcement(id: number, overrides: Partial<ChatAnnouncementRow> = {}): ChatAnnouncementRow {
+  return {
+    id,
+    message: `announcement ${id}`,
+    interval_minutes: 5,
+    min_chat_messages: 0,
+    enabled: 1,
+    last_sent_at: null,
+    created_at: '',
+    updated_at: '',
+    ...overrides
+  };
+}
+
+describe('AnnouncementScheduler', () => {
+  let scheduler: AnnouncementScheduler;
+
+  const posted = () => mocks.say.mock.calls.map(([, message]) => message);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mocks.announcements = [];
+    mocks.connected = true;
+    mocks.say.mockReset();
+    scheduler = new AnnouncementScheduler();
+  });
+
+  afterEach(() => {
+    scheduler.destroy();
+    vi.useRealTimers();
+  });
+
+  it('waits a full interval before posting a new announcement, then repeats it', () => {
+    scheduler.start();
+    mocks.announcements = [announcement(1)];
+
+    vi.advanceTimersByTime(TICK_MS); // First seen here
+    vi.advanceTimersByTime(5 * MINUTE - TICK_MS);
+    expect(posted()).toEqual([]);
+
+    vi.advanceTimersByTime(TICK_MS);
+    expect(posted()).toEqual(['announcement 1']);
+    expect(mocks.say).toHaveBeenCalledWith('#streamer', 'announcement 1');
+
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect(posted()).toEqual(['announcement 1', 'announcement 1']);
+  });
+
+  it('counts the interval and chat activity from startup, not from a post in an earlier run', () => {
+    mocks.announcements = [announcement(1, { last_sent_at: new Date(Date.now() - 60 * MINUTE).toISOString() })];
+    scheduler.start();
+
+    vi.advanceTimersByTime(5 * MINUTE - TICK_MS);
+    expect(posted()).toEqual([]);
+    vi.advanceTimersByTime(TICK_MS);
+    expect(posted()).toEqual(['announcement 1']);
+  });
+
+  it('holds an announcement until chat has been active enough since it last posted', () => {
+    mocks.announcements = [announcement(1, { min_chat_messages: 3 })];
+    scheduler.start();
+
+    scheduler.recordChatMessage();
+    scheduler.recordChatMessage();
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect(posted()).toEqual([]);
+
+    scheduler.recordChatMessage();
+    vi.advanceTimersByTime(TICK_MS);
+    expect(posted()).toEqual(['announcement 1']);
+
+    // Messages before the post don't count towards the next one
+    vi.advanceTimersByTime(10 * MINUTE);
+    expect(posted()).toEqual(['announcement 1']);
+  });
+
+  it('posts one due announcement per tick, the longest-waiting first', () => {
+    mocks.announcements = [announcement(2)];
+    scheduler.start();
+    mocks.announcements.unshift(announcement(1));
+    vi.advanceTimersByTime(TICK_MS); // 1 first seen here
+
+    mocks.connected = false;
+    vi.advanceTimersByTime(10 * MINUTE);
+    mocks.connected = true;
+
+    vi.advanceTimersByTime(TICK_MS);
+    expect(posted()).toEqual(['announcement 2']);
+    vi.advanceTimersByTime(TICK_MS);
+    expect(posted()).toEqual(['announcement 2', 'announcement 1']);
+  });
+
+  it('skips disabled announcements and stays quiet while disconnected', () => {
+    mocks.announcements = [announcement(1, { enabled: 0 }), announcement(2)];
+    scheduler.start();
+    mocks.connected = false;
+    vi.advanceTimersByTime(10 * MINUTE);
+    expect(posted()).toEqual([]);
+
+    mocks.connected = true;
+    vi.advanceTimersByTime(TICK_MS);
+    expect(posted()).toEqual(['announcement 2']);
+  });
+
+  it('posts on demand regardless of interval and activity', () => {
+    mocks.announcements = [announcement(1, { min_chat_messages: 100 })];
+    scheduler.start();
+
+    expect(scheduler.sendNow(1)).toBe(true);
+    expect(scheduler.sendNow(2)).toBe(false);
+    expect(posted()).toEqual(['announcement 1']);
+    expect(mocks.announcements[0].last_sent_at).not.toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+// Timed Chat Announcements
+// Posts recurring bot messages to chat once their interval has passed and chat has been active enough
+
+import { AnnouncementService, ChatAnnouncementRow } from '../database/announcementService';
+import { getTwitchService } from './twitchService';
+
+const TICK_INTERVAL_MS = 30 * 1000;
+
+// Where an announcement's interval and activity threshold count from
+interface AnnouncementBaseline {
+  time: number;
+  chatMessageCount: number;
+}
+
+export class AnnouncementScheduler {
+  private tickInterval: NodeJS.Timeout | null = null;
+  private chatMessageCount = 0;
+  private baselines: Map<number, AnnouncementBaseline> = new Map(); // Last post this run, or when first seen
+
+  /**
+   * Start checking for due announcements. Chat activity isn't kept between runs, so the
+   * interval restarts along with it rather than counting from the stored last_sent_at.
+   */
+  start(): void {
+    if (this.tickInterval) return;
+
+    try {
+      AnnouncementService.getAllAnnouncements().forEach(announcement => this.getBaseline(announcement));
+    } catch (error) {
+      console.error('Failed to load chat announcements:', error);
+    }
+
+    this.tickInterval = setInterval(() => {
+      this.tick();
+    }, TICK_INTERVAL_MS);
+  }
+
+  /**
+   * Count a viewer chat message towards every announcement's activity threshold
+   */
+  recordChatMessage(): void {
+    this.chatMessageCount++;
+  }
+
+  /**
+   * Post an announcement right away, ignoring its interval and activity threshold
+   */
+  sendNow(id: number): boolean {
+    const announcement = AnnouncementService.getAnnouncement(id);
+    if (!announcement) return false;
+    return this.send(announcement);
+  }
+
+  /**
+   * Forget in-memory state for a deleted announcement
+   */
+  forget(id: number): void {
+    this.baselines.delete(id);
+  }
+
+  /**
+   * Stop the background timer
+   */
+  destroy(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  private tick(): void {
+    const twitchService = getTwitchService();
+    if (!twitchService.isConnected()) return;
+
+    try {
+      const now = Date.now();
+      const due = AnnouncementService.getAllAnnouncements().filter(announcement =>
+        announcement.enabled && this.isDue(announcement, now)
+      );
+
+      // One announcement per tick so several due at once don't flood chat
+      const next = due.sort((a, b) => this.getBaseline(a).time - this.getBaseline(b).time)[0];
+      if (next) {
+        this.send(next);
+      }
+    } catch (error) {
+      console.error('Failed to process chat announcements:', error);
+    }
+  }
+
+  private isDue(announcement: ChatAnnouncementRow, now: number): boolean {
+    const baseline = this.getBaseline(announcement);
+    const intervalMs = announcement.interval_minutes * 60 * 1000;
+    if (now - baseline.time < intervalMs) return false;
+
+    // Don't talk to an empty room
+    return this.chatMessageCount - baseline.chatMessageCount >= announcement.min_chat_messages;
+  }
+
+  /**
+   * Last post this run, or when the scheduler first saw the announcement
+   */
+  private getBaseline(announcement: ChatAnnouncementRow): AnnouncementBaseline {
+    let baseline = this.baselines.get(announcement.id);
+    if (!baseline) {
+      baseline = { time: Date.now(), chatMessageCount: this.chatMessageCount };
+      this.baselines.set(announcement.id, baseline);
+    }
+    return baseline;
+  }
+
+  private send(announcement: ChatAnnouncementRow): boolean {
+    const twitchService = getTwitchService();
+    const channel = twitchService.getChannels()[0];
+    if (!channel || !twitchService.isConnected()) return false;
+
+    twitchService.say(channel, announcement.message);
+    const now = Date.now();
+    AnnouncementService.markSent(announcement.id, new Date(now).toISOString());
+    this.baselines.set(announcement.id, { time: now, chatMessageCount: this.chatMessageCount });
+    console.log(`Posted chat announcement ${announcement.id}`);
+    return true;
+  }
+}
+
+// Singleton instance
+let announcementScheduler: AnnouncementScheduler | null = null;
+
+export function getAnnouncementScheduler(): AnnouncementScheduler {
+  if (!announcementScheduler) {
+    announcementScheduler = new AnnouncementScheduler();
+  }
+  return announcementScheduler;
+}
@@ -14,7 +14,9 @@ const SCOPES = [
   'moderation:read',
   'channel:manage:moderators',
   'channel:manage:vips',
-  'moderator:manage:banned_users'
+  'moderator:manage:banned_users',
+  'whispers:read',
+  'user:manage:whispers'
 ];
 
 interface TokenResponse {
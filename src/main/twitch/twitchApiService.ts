@@ -40,6 +40,12 @@ interface TwitchBannedUser {
   moderator_name: string;
 }
 
+interface TwitchStream {
+  id: string;
+  user_id: string;
+  started_at: string;
+}
+
 interface TwitchSubscriber {
   user_id: string;
   user_login: string;
@@ -135,6 +141,38 @@ export class TwitchApiService {
     }
   }
 
+  /**
+   * Get the broadcaster's current stream start time (null when offline)
+   */
+  async getStreamStartedAt(): Promise<string | null> {
+    if (!this.config) return null;
+
+    try {
+      const data = await this.makeRequest<{ data: TwitchStream[] }>(
+        `/streams?user_id=${this.config.broadcasterId}`
+      );
+      return data.data[0]?.started_at || null;
+    } catch (error) {
+      console.error('Error fetching stream info:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Send a whisper from the authenticated account
+   */
+  async sendWhisper(toUserId: string, message: string): Promise<void> {
+    if (!this.config) throw new Error('Not configured');
+
+    await this.makeRequest(
+      `/whispers?from_user_id=${this.config.broadcasterId}&to_user_id=${toUserId}`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ message })
+      }
+    );
+  }
+
   /**
    * Sync all moderators from Twitch API (with pagination)
    */
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  client: null as any,
+  processMessage: vi.fn(),
+  sendWhisper: vi.fn(),
+  viewers: new Map<string, Record<string, unknown>>()
+}));
+
+vi.mock('tmi.js', () => {
+  // Records handlers and outgoing chat instead of talking to Twitch
+  class FakeClient {
+    handlers = new Map<string, (...args: any[]) => void>();
+    say = vi.fn(async () => []);
+    raw = vi.fn(async () => []);
+
+    constructor() {
+      mocks.client = this;
+    }
+
+    on(event: string, handler: (...args: any[]) => void): this {
+      this.handlers.set(event, handler);
+      return this;
+    }
+
+    emit(event: string, ...args: any[]): void {
+      this.handlers.get(event)?.(...args);
+    }
+
+    async connect() {}
+    async disconnect() {}
+    readyState() {
+      return 'OPEN';
+    }
+  }
+  return { default: { Client: FakeClient } };
+});
+vi.mock('../database/service', () => ({
+  DatabaseService: {
+    upsertViewer: vi.fn(),
+    incrementViewerMessageCount: vi.fn(),
+    insertChatMessages: vi.fn(),
+    getViewerById: vi.fn((id: string) => mocks.viewers.get(id) ?? null)
+  }
+}));
+vi.mock('../commands/commandProcessor', () => ({
+  getCommandProcessor: () => ({
+    isCommandMessage: (message: string) => message.startsWith('~'),
+    processMessage: mocks.processMessage
+  })
+}));
+vi.mock('./twitchApiService', () => ({
+  getTwitchApiService: () => ({ sendWhisper: mocks.sendWhisper })
+}));
+
+import { TwitchService } from './twitchService';
+
+const alice = { 'user-id': 'viewer-alice', username: 'alice', 'display-name': 'Alice', id: 'msg-1', 'message-type': 'chat' };
+const aliceWhisper = { 'user-id': 'viewer-alice', username: 'alice', 'display-name': 'Alice', 'message-type': 'whisper' };
+
+// Let the async message handlers finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('TwitchService', () => {
+  let service: TwitchService;
+
+  beforeEach(async () => {
+    mocks.processMessage.mockReset();
+    mocks.sendWhisper.mockReset().mockResolvedValue(undefined);
+    mocks.viewers.clear();
+    service = new TwitchService();
+    await service.connect({ username: 'bot', token: 'oauth:token', channels: ['Streamer'] });
+  });
+
+  afterEach(() => {
+    service.destroy();
+  });
+
+  describe('chat messages', () => {
+    it('passes cheers and channel point redeems on with their bits and reward', async () => {
+      const onMessage = vi.fn();
+      service.onMessage(onMessage);
+
+      mocks.client.emit('cheer', '#streamer', { ...alice, bits: '500' }, 'cheer500 hello');
+      mocks.client.emit('message', '#streamer', { ...alice, 'custom-reward-id': 'reward-tts' }, 'read this', false);
+      await settle();
+
+      expect(onMessage.mock.calls.map(([message]) => [message.message, message.bits, message.reward_id])).toEqual([
+        ['cheer500 hello', 500, undefined],
+        ['read this', undefined, 'reward-tts']
+      ]);
+    });
+
+    it('passes on who a reply was written to', async () => {
+      const onMessage = vi.fn();
+      service.onMessage(onMessage);
+
+      mocks.client.emit('message', '#streamer', { ...alice, 'reply-parent-user-login': 'bob' }, '@bob nice one', false);
+      await settle();
+
+      expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ message: '@bob nice one', reply_parent_login: 'bob' }));
+    });
+  });
+
+  describe('command responses', () => {
+    it('answers in chat for public commands and mentions the viewer on errors', async () => {
+      mocks.processMessage.mockResolvedValueOnce({ success: true, response: 'Hello!', responseMode: 'public' });
+      mocks.client.emit('message', '#streamer', alice, '~hello', false);
+      await settle();
+      expect(mocks.client.say).toHaveBeenCalledWith('#streamer', 'Hello!');
+
+      mocks.processMessage.mockResolvedValueOnce({ success: false, error: 'Command is disabled', responseMode: 'public' });
+      mocks.client.emit('message', '#streamer', alice, '~hello', false);
+      await settle();
+      expect(mocks.client.say).toHaveBeenLastCalledWith('#streamer', '@Alice Command is disabled');
+    });
+
+    it('threads the answer under the command in reply mode', async () => {
+      mocks.processMessage.mockResolvedValueOnce({ success: true, response: 'Your voice is Brian', responseMode: 'reply' });
+      mocks.client.emit('message', '#streamer', alice, '~myvoice', false);
+      await settle();
+
+      expect(mocks.client.raw).toHaveBeenCalledWith('@reply-parent-msg-id=msg-1 PRIVMSG #streamer :Your voice is Brian');
+      expect(mocks.client.say).not.toHaveBeenCalled();
+    });
+
+    it('whispers the answer in whisper mode, falling back to a reply if the whisper fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mocks.processMessage.mockResolvedValue({ success: true, response: 'Your voice is Brian', responseMode: 'whisper' });
+
+      mocks.client.emit('message', '#streamer', alice, '~myvoice', false);
+      await settle();
+      expect(mocks.sendWhisper).toHaveBeenCalledWith('viewer-alice', 'Your voice is Brian');
+      expect(mocks.client.raw).not.toHaveBeenCalled();
+
+      mocks.sendWhisper.mockRejectedValueOnce(new Error('missing scope'));
+      mocks.client.emit('message', '#streamer', alice, '~myvoice', false);
+      await settle();
+      expect(mocks.client.raw).toHaveBeenCalledWith('@reply-parent-msg-id=msg-1 PRIVMSG #streamer :Your voice is Brian');
+    });
+  });
+
+  describe('whispered commands', () => {
+    it('runs them with the viewer\'s known statuses and whispers the answer back', async () => {
+      mocks.viewers.set('viewer-alice', { id: 'viewer-alice', is_moderator: 1, is_vip: 0, is_subscriber: 1 });
+      mocks.processMessage.mockResolvedValueOnce({ success: true, response: 'Skipped', responseMode: 'public' });
+
+      mocks.client.emit('whisper', 'alice', aliceWhisper, '~skip', false);
+      await settle();
+
+      expect(mocks.processMessage).toHaveBeenCalledWith(expect.objectContaining({
+        viewerId: 'viewer-alice',
+        isModerator: true,
+        isSubscriber: true,
+        isBroadcaster: false,
+        channel: 'streamer'
+      }));
+      expect(mocks.sendWhisper).toHaveBeenCalledWith('viewer-alice', 'Skipped');
+      expect(mocks.client.say).not.toHaveBeenCalled();
+    });
+
+    it('never answers a whisper in chat', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mocks.sendWhisper.mockRejectedValueOnce(new Error('missing scope'));
+      mocks.processMessage.mockResolvedValueOnce({ success: true, response: 'Your voice is Brian', responseMode: 'public' });
+
+      mocks.client.emit('whisper', 'alice', aliceWhisper, '~myvoice', false);
+      await settle();
+
+      expect(mocks.client.say).not.toHaveBeenCalled();
+      expect(mocks.client.raw).not.toHaveBeenCalled();
+    });
+
+    it('handles each whisper once, not again as a channel message', async () => {
+      const onMessage = vi.fn();
+      service.onMessage(onMessage);
+      mocks.processMessage.mockResolvedValue({ success: true, response: 'Your voice is Brian', responseMode: 'public' });
+
+      // tmi.js emits 'message' for whispers too, with the whisperer as the channel
+      mocks.client.emit('message', '#alice', aliceWhisper, '~myvoice', false);
+      mocks.client.emit('whisper', 'alice', aliceWhisper, '~myvoice', false);
+      await settle();
+
+      expect(mocks.processMessage).toHaveBeenCalledTimes(1);
+      expect(mocks.sendWhisper).toHaveBeenCalledTimes(1);
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it('ignores whispers that are not commands', async () => {
+      mocks.client.emit('whisper', 'alice', aliceWhisper, 'hi there', false);
+      await settle();
+
+      expect(mocks.processMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moderation', () => {
+    it('reports deleted messages, timeouts, bans and chat clears', () => {
+      const onModeration = vi.fn();
+      service.onModeration(onModeration);
+
+      mocks.client.emit('messagedeleted', '#streamer', 'alice', 'bad words', { 'target-msg-id': 'msg-1' });
+      mocks.client.emit('timeout', '#streamer', 'Alice', '', 600, { 'target-user-id': 'viewer-alice' });
+      mocks.client.emit('ban', '#streamer', 'Bob', '', { 'target-user-id': 'viewer-bob' });
+      mocks.client.emit('clearchat', '#streamer');
+
+      expect(onModeration.mock.calls.map(([event]) => event)).toEqual([
+        { type: 'delete', messageId: 'msg-1' },
+        { type: 'timeout', viewerId: 'viewer-alice', username: 'alice' },
+        { type: 'ban', viewerId: 'viewer-bob', username: 'bob' },
+        { type: 'clear' }
+      ]);
+    });
+
+    it('passes on the chat message id so it can be matched later', async () => {
+      const onMessage = vi.fn();
+      service.onMessage(onMessage);
+
+      mocks.client.emit('message', '#streamer', alice, 'hello', false);
+      await settle();
+
+      expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ message_id: 'msg-1' }));
+    });
+  });
+});
@@ -1,6 +1,14 @@
 import tmi from 'tmi.js';
 import { DatabaseService, ChatMessage, Viewer } from '../database/service';
-import { CommandProcessor, CommandContext } from '../commands/commandProcessor';
+import { CommandProcessor, CommandContext, CommandResult, getCommandProcessor } from '../commands/commandProcessor';
+import { ResponseMode } from '../database/commandService';
+import { getTwitchApiService } from './twitchApiService';
+
+// Moderator actions that should pull messages from TTS
+export type ChatModerationEvent =
+  | { type: 'delete'; messageId: string }
+  | { type: 'timeout' | 'ban'; viewerId?: string; username: string }
+  | { type: 'clear' };
 
 interface TwitchServiceConfig {
   username: string;
@@ -10,15 +18,17 @@ interface TwitchServiceConfig {
 
 export class TwitchService {
   private client: tmi.Client | null = null;
+  private channels: string[] = [];
   private messageQueue: ChatMessage[] = [];
   private batchInterval: NodeJS.Timeout | null = null;
   private onMessageCallback?: (message: ChatMessage) => void;
   private onConnectionStatusCallback?: (connected: boolean, error?: string) => void;
   private onCommandResponseCallback?: (response: string) => void;
+  private onModerationCallback?: (event: ChatModerationEvent) => void;
   private commandProcessor: CommandProcessor;
 
   constructor() {
-    this.commandProcessor = new CommandProcessor();
+    this.commandProcessor = getCommandProcessor();
     
     // Batch write messages every 5 seconds
     this.batchInterval = setInterval(() => {
@@ -48,6 +58,8 @@ export class TwitchService {
       channels: config.channels.map(ch => ch.toLowerCase())
     });
 
+    this.channels = config.channels.map(ch => ch.toLowerCase());
+
     // Set up event handlers
     this.setupEventHandlers();
 
@@ -89,6 +101,13 @@ export class TwitchService {
     return this.client?.readyState() === 'OPEN';
   }
 
+  /**
+   * Channels joined by the current connection (lowercase, without #)
+   */
+  getChannels(): string[] {
+    return [...this.channels];
+  }
+
   /**
    * Set up TMI.js event handlers
    */
@@ -99,10 +118,44 @@ export class TwitchService {
     this.client.on('message', (channel, userstate, message, self) => {
       // Ignore messages from the bot itself
       if (self) return;
+      // tmi.js also emits whispers here with the whisperer as the channel; those go through 'whisper' only
+      if (userstate['message-type'] === 'whisper') return;
 
       this.handleMessage(channel, userstate, message);
     });
 
+    // Cheers arrive as their own event instead of 'message'
+    this.client.on('cheer', (channel, userstate, message) => {
+      this.handleMessage(channel, userstate, message);
+    });
+
+    // Moderator actions
+    this.client.on('messagedeleted', (_channel, _username, _deletedMessage, userstate) => {
+      const messageId = userstate['target-msg-id'];
+      if (messageId) {
+        this.onModerationCallback?.({ type: 'delete', messageId });
+      }
+    });
+
+    this.client.on('timeout', (_channel, username, _reason, _duration, userstate) => {
+      this.onModerationCallback?.({ type: 'timeout', viewerId: userstate['target-user-id'], username: username.toLowerCase() });
+    });
+
+    this.client.on('ban', (_channel, username, _reason, userstate) => {
+      this.onModerationCallback?.({ type: 'ban', viewerId: userstate['target-user-id'], username: username.toLowerCase() });
+    });
+
+    this.client.on('clearchat', () => {
+      this.onModerationCallback?.({ type: 'clear' });
+    });
+
+    // Handle whispered commands
+    this.client.on('whisper', (_from, userstate, message, self) => {
+      if (self) return;
+
+      this.handleWhisper(userstate, message);
+    });
+
     // Handle connection events
     this.client.on('connected', () => {
       console.log('TMI.js connected');
@@ -130,8 +183,8 @@ export class TwitchService {
 
     if (!userId || !username) return;
 
-    // Check if message is a command
-    if (message.trim().startsWith('~')) {
+    // Check if message is a command (uses any configured command prefix)
+    if (this.commandProcessor.isCommandMessage(message)) {
       await this.handleCommand(channel, userstate, message);
       return; // Don't process commands as regular messages
     }
@@ -160,7 +213,11 @@ export class TwitchService {
       timestamp: new Date().toISOString(),
       emotes: userstate.emotes ? JSON.stringify(userstate.emotes) : undefined,
       badges: userstate.badges ? JSON.stringify(userstate.badges) : undefined,
-      was_read_by_tts: false
+      was_read_by_tts: false,
+      bits: userstate.bits ? parseInt(userstate.bits) : undefined,
+      reward_id: userstate['custom-reward-id'],
+      message_id: userstate.id,
+      reply_parent_login: userstate['reply-parent-user-login']
     };
 
     // Add to queue for batched DB insert
@@ -182,7 +239,17 @@ export class TwitchService {
 
     // Get broadcaster username from channel (remove #)
     const broadcasterUsername = channel.replace('#', '');
-    
+
+    // Make sure the viewer exists (command_usage references viewers)
+    DatabaseService.upsertViewer({
+      id: userId,
+      username: username.toLowerCase(),
+      display_name: displayName || username,
+      is_moderator: userstate.mod || false,
+      is_vip: userstate.badges?.vip === '1',
+      is_subscriber: userstate.subscriber || false
+    });
+
     // Build command context
     const context: CommandContext = {
       username: username.toLowerCase(),
@@ -200,19 +267,88 @@ export class TwitchService {
     const result = await this.commandProcessor.processMessage(context);
     
     if (result) {
-      if (result.success && result.response) {
-        // Send response to chat
-        this.say(channel, result.response);
-      } else if (!result.success && result.error) {
-        // Send error as whisper or chat (for now, chat)
-        this.say(channel, `@${displayName} ${result.error}`);
-      }
+      await this.sendCommandResult(channel, userstate, result, result.responseMode || 'public');
+    }
+  }
 
-      // Notify callback
-      if (result.response) {
-        this.onCommandResponseCallback?.(result.response);
+  /**
+   * Handle a command whispered to the bot; replies always go back by whisper
+   */
+  private async handleWhisper(userstate: tmi.ChatUserstate, message: string): Promise<void> {
+    const userId = userstate['user-id'];
+    const username = userstate.username;
+    const displayName = userstate['display-name'];
+
+    if (!userId || !username || this.channels.length === 0) return;
+    if (!this.commandProcessor.isCommandMessage(message)) return;
+
+    // Whispers carry no channel badges, so use the statuses we already know
+    DatabaseService.upsertViewer({
+      id: userId,
+      username: username.toLowerCase(),
+      display_name: displayName || username
+    });
+    const viewer = DatabaseService.getViewerById(userId);
+    const broadcasterUsername = this.channels[0].replace('#', '');
+
+    const context: CommandContext = {
+      username: username.toLowerCase(),
+      displayName: displayName || username,
+      viewerId: userId,
+      isModerator: !!viewer?.is_moderator,
+      isBroadcaster: username.toLowerCase() === broadcasterUsername,
+      isVip: !!viewer?.is_vip,
+      isSubscriber: !!viewer?.is_subscriber,
+      message,
+      channel: broadcasterUsername
+    };
+
+    const result = await this.commandProcessor.processMessage(context);
+    if (result) {
+      await this.sendCommandResult(broadcasterUsername, userstate, result, 'whisper');
+    }
+  }
+
+  /**
+   * Deliver a command response or error publicly, as a threaded reply, or by whisper
+   */
+  private async sendCommandResult(
+    channel: string,
+    userstate: tmi.ChatUserstate,
+    result: CommandResult,
+    mode: ResponseMode
+  ): Promise<void> {
+    const displayName = userstate['display-name'] || userstate.username;
+    const userId = userstate['user-id'];
+    const text = result.success ? result.response : result.error;
+    if (!text) return;
+
+    if (mode === 'whisper' && userId) {
+      try {
+        await getTwitchApiService().sendWhisper(userId, text);
+        if (result.response) {
+          this.onCommandResponseCallback?.(result.response);
+        }
+        return;
+      } catch (error) {
+        // Whispers need the user:manage:whispers scope and a verified phone number
+        console.error('Failed to send whisper:', error);
+        if (userstate['message-type'] === 'whisper') return;
       }
     }
+
+    // Errors mention the viewer so they know it was meant for them
+    const chatText = result.success ? text : `@${displayName} ${text}`;
+    if (mode !== 'public' && userstate.id) {
+      this.reply(channel, userstate.id, chatText);
+    } else {
+      this.say(channel, chatText);
+    }
+
+    // Notify callback
+    if (result.response) {
+      this.onCommandResponseCallback?.(result.response);
+    }
   }
 
   /**
@@ -229,6 +365,19 @@ export class TwitchService {
     });
   }
 
+  /**
+   * Send a reply threaded under another chat message
+   */
+  reply(channel: string, parentMessageId: string, message: string): void {
+    if (!this.client) return;
+
+    const channelName = channel.startsWith('#') ? channel : `#${channel}`;
+
+    this.client.raw(`@reply-parent-msg-id=${parentMessageId} PRIVMSG ${channelName} :${message}`).catch(err => {
+      console.error('Error sending reply:', err);
+    });
+  }
+
   /**
    * Flush message queue to database
    */
@@ -269,6 +418,13 @@ export class TwitchService {
     this.onCommandResponseCallback = callback;
   }
 
+  /**
+   * Set callback for deleted messages, timeouts, bans and chat clears
+   */
+  onModeration(callback: (event: ChatModerationEvent) => void): void {
+    this.onModerationCallback = callback;
+  }
+
   /**
    * Clean up resources
    */
@@ -1,100 +1,335 @@
 import React, { useState, useEffect } from 'react';
 
-interface Command {
+type ResponseMode = 'public' | 'reply' | 'whisper';
+
+const responseModeLabels: Record<ResponseMode, string> = {
+  public: 'Public chat',
+  reply: 'Threaded reply',
+  whisper: 'Whisper'
+};
+
+interface CommandInfo {
   name: string;
+  prefix: string;
+  aliases: string[];
   permission: string;
+  rateLimit: number;
+  cooldownMode: 'user' | 'global';
+  responseMode: ResponseMode;
+  enabled: boolean;
   description: string;
   usage: string;
-  rateLimit: number;
+  isCustom: boolean;
+  customResponse?: string;
+  usageCount: number;
+}
+
+interface CommandSettingsForm {
+  command_prefix: string;
+  aliases: string;
+  permission_level: string;
+  rate_limit_seconds: number;
+  cooldown_mode: 'user' | 'global';
+  response_mode: ResponseMode;
+  enabled: boolean;
+}
+
+interface CustomCommandForm extends CommandSettingsForm {
+  command_name: string;
+  description: string;
+  custom_response: string;
+}
+
+const emptyCustomForm: CustomCommandForm = {
+  command_name: '',
+  description: '',
+  command_prefix: '~',
+  aliases: '',
+  permission_level: 'viewer',
+  rate_limit_seconds: 5,
+  cooldown_mode: 'user',
+  response_mode: 'public',
+  custom_response: '',
+  enabled: true
+};
+
+interface CommandAnalytics {
+  dailyUsage: { date: string; total: number; failures: number }[];
+  commands: {
+    command_name: string;
+    total: number;
+    failures: number;
+    last_used_at: string | null;
+    top_users: { username: string; count: number }[];
+  }[];
+  recentFailures: {
+    command_name: string;
+    username: string;
+    outcome: string;
+    error_message: string | null;
+    timestamp: string;
+  }[];
+}
+
+interface Announcement {
+  id: number;
+  message: string;
+  interval_minutes: number;
+  min_chat_messages: number;
+  enabled: number;
+  last_sent_at: string | null;
+}
+
+interface AnnouncementForm {
+  id?: number;
+  message: string;
+  interval_minutes: number;
+  min_chat_messages: number;
+  enabled: boolean;
 }
 
+const emptyAnnouncementForm: AnnouncementForm = {
+  message: '',
+  interval_minutes: 20,
+  min_chat_messages: 5,
+  enabled: true
+};
+
+const outcomeLabels: Record<string, string> = {
+  invalid: 'Invalid usage',
+  error: 'Error',
+  permission_denied: 'No permission',
+  cooldown: 'On cooldown',
+  disabled: 'Disabled'
+};
+
+// Aliases are edited as a comma-separated string and sent as a list
+const parseAliasInput = (value: string): string[] =>
+  value.split(',').map(a => a.trim()).filter(a => a);
+
 const Commands: React.FC = () => {
-  const [commands] = useState<Command[]>([
-    {
-      name: 'hello',
-      permission: 'Viewer',
-      description: 'Greet the user',
-      usage: '~hello',
-      rateLimit: 5
-    },
-    {
-      name: 'voices',
-      permission: 'Viewer',
-      description: 'Show link to available TTS voices',
-      usage: '~voices',
-      rateLimit: 10
-    },
-    {
-      name: 'setvoice',
-      permission: 'Viewer',
-      description: 'Set your TTS voice (case-insensitive)',
-      usage: '~setvoice <voice_name>',
-      rateLimit: 5
-    },
-    {
-      name: 'setvoicepitch',
-      permission: 'Viewer',
-      description: 'Set your voice pitch',
-      usage: '~setvoicepitch <0 to 2>',
-      rateLimit: 5
-    },
-    {
-      name: 'setvoicespeed',
-      permission: 'Viewer',
-      description: 'Set your voice speed',
-      usage: '~setvoicespeed <0.5 to 2.0>',
-      rateLimit: 5
-    },
-    {
-      name: 'mutevoice',
-      permission: 'Moderator',
-      description: 'Mute a user from TTS',
-      usage: '~mutevoice @username [minutes]',
-      rateLimit: 0
-    },
-    {
-      name: 'unmutevoice',
-      permission: 'Moderator',
-      description: 'Unmute a user from TTS',
-      usage: '~unmutevoice @username',
-      rateLimit: 0
-    },
-    {
-      name: 'cooldownvoice',
-      permission: 'Moderator',
-      description: 'Apply TTS cooldown to a user',
-      usage: '~cooldownvoice @username <seconds> [minutes]',
-      rateLimit: 0
-    },
-    {
-      name: 'uncooldownvoice',
-      permission: 'Moderator',
-      description: 'Remove TTS cooldown from a user',
-      usage: '~uncooldownvoice @username',
-      rateLimit: 0
-    },
-    {
-      name: 'mutetts',
-      permission: 'Moderator',
-      description: 'Disable all TTS globally',
-      usage: '~mutetts',
-      rateLimit: 0
-    },
-    {
-      name: 'unmutetts',
-      permission: 'Moderator',
-      description: 'Enable all TTS globally',
-      usage: '~unmutetts',
-      rateLimit: 0
-    },
-    {
-      name: 'clearqueue',
-      permission: 'Moderator',
-      description: 'Clear the TTS queue',
-      usage: '~clearqueue',
-      rateLimit: 0
+  const [commands, setCommands] = useState<CommandInfo[]>([]);
+  const [globalPrefix, setGlobalPrefix] = useState('~');
+  const [persistCooldowns, setPersistCooldowns] = useState(true);
+  const [editingBuiltIn, setEditingBuiltIn] = useState<string | null>(null);
+  const [builtInForm, setBuiltInForm] = useState<CommandSettingsForm | null>(null);
+  const [builtInError, setBuiltInError] = useState<string | null>(null);
+  const [customForm, setCustomForm] = useState<CustomCommandForm>(emptyCustomForm);
+  const [editingCommand, setEditingCommand] = useState<string | null>(null);
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [analytics, setAnalytics] = useState<CommandAnalytics | null>(null);
+  const [analyticsDays, setAnalyticsDays] = useState(7);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [announcementForm, setAnnouncementForm] = useState<AnnouncementForm>(emptyAnnouncementForm);
+  const [announcementError, setAnnouncementError] = useState<string | null>(null);
+
+  const builtInCommands = commands.filter(cmd => !cmd.isCustom);
+  const customCommands = commands.filter(cmd => cmd.isCustom);
+
+  useEffect(() => {
+    loadCommands();
+    loadCooldownPersistence();
+    loadAnnouncements();
+  }, []);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [analyticsDays]);
+
+  const loadCommands = async () => {
+    try {
+      const list: CommandInfo[] = await window.api.invoke('commands:getAll');
+      setCommands(list || []);
+      if (list && list.length > 0) {
+        setGlobalPrefix(list[0].prefix);
+      }
+    } catch (err) {
+      console.error('Failed to load commands:', err);
+    }
+  };
+
+  const loadCooldownPersistence = async () => {
+    try {
+      const value = await window.api.invoke('db:getSetting', 'command_cooldowns_persist');
+      setPersistCooldowns(value !== 'false');
+    } catch (err) {
+      console.error('Failed to load cooldown persistence setting:', err);
+    }
+  };
+
+  const loadAnalytics = async () => {
+    try {
+      const result = await window.api.invoke('commands:getAnalytics', analyticsDays);
+      if (result.success) {
+        setAnalytics(result.analytics);
+      } else {
+        console.error('Failed to load command analytics:', result.error);
+      }
+    } catch (err) {
+      console.error('Failed to load command analytics:', err);
+    }
+  };
+
+  const loadAnnouncements = async () => {
+    try {
+      const list: Announcement[] = await window.api.invoke('announcements:getAll');
+      setAnnouncements(list || []);
+    } catch (err) {
+      console.error('Failed to load announcements:', err);
+    }
+  };
+
+  const handleSaveAnnouncement = async () => {
+    setAnnouncementError(null);
+    const result = await window.api.invoke('announcements:save', announcementForm);
+    if (!result.success) {
+      setAnnouncementError(result.error || 'Failed to save announcement');
+      return;
+    }
+    setAnnouncementForm(emptyAnnouncementForm);
+    loadAnnouncements();
+  };
+
+  const handleEditAnnouncement = (announcement: Announcement) => {
+    setAnnouncementError(null);
+    setAnnouncementForm({
+      id: announcement.id,
+      message: announcement.message,
+      interval_minutes: announcement.interval_minutes,
+      min_chat_messages: announcement.min_chat_messages,
+      enabled: !!announcement.enabled
+    });
+  };
+
+  const handleToggleAnnouncement = async (announcement: Announcement) => {
+    const result = await window.api.invoke('announcements:setEnabled', announcement.id, !announcement.enabled);
+    if (!result.success) {
+      alert(`Failed to update announcement: ${result.error}`);
+      return;
+    }
+    loadAnnouncements();
+  };
+
+  const handleSendAnnouncement = async (announcement: Announcement) => {
+    const result = await window.api.invoke('announcements:sendNow', announcement.id);
+    if (!result.success) {
+      alert(`Failed to send announcement: ${result.error}`);
+      return;
+    }
+    loadAnnouncements();
+  };
+
+  const handleDeleteAnnouncement = async (announcement: Announcement) => {
+    if (!confirm('Delete this announcement?')) return;
+    const result = await window.api.invoke('announcements:delete', announcement.id);
+    if (!result.success) {
+      alert(`Failed to delete announcement: ${result.error}`);
+      return;
+    }
+    if (announcementForm.id === announcement.id) {
+      setAnnouncementForm(emptyAnnouncementForm);
+    }
+    loadAnnouncements();
+  };
+
+  const handlePersistCooldownsToggle = async (persistent: boolean) => {
+    const result = await window.api.invoke('commands:setCooldownPersistence', persistent);
+    if (!result.success) {
+      alert(`Failed to update cooldown setting: ${result.error}`);
+      return;
+    }
+    setPersistCooldowns(persistent);
+  };
+
+  const handleApplyPrefix = async () => {
+    const result = await window.api.invoke('commands:setPrefix', globalPrefix);
+    if (!result.success) {
+      alert(`Failed to update prefix: ${result.error}`);
+      return;
+    }
+    loadCommands();
+  };
+
+  const handleEditBuiltIn = (cmd: CommandInfo) => {
+    setBuiltInError(null);
+    setEditingBuiltIn(cmd.name);
+    setBuiltInForm({
+      command_prefix: cmd.prefix,
+      aliases: cmd.aliases.join(', '),
+      permission_level: cmd.permission,
+      rate_limit_seconds: cmd.rateLimit,
+      cooldown_mode: cmd.cooldownMode,
+      response_mode: cmd.responseMode,
+      enabled: cmd.enabled
+    });
+  };
+
+  const handleSaveBuiltIn = async () => {
+    if (!editingBuiltIn || !builtInForm) return;
+    setBuiltInError(null);
+    const result = await window.api.invoke('commands:updateSettings', editingBuiltIn, {
+      ...builtInForm,
+      aliases: parseAliasInput(builtInForm.aliases)
+    });
+    if (!result.success) {
+      setBuiltInError(result.error || 'Failed to save command');
+      return;
+    }
+    setEditingBuiltIn(null);
+    setBuiltInForm(null);
+    loadCommands();
+  };
+
+  const handleSaveCustomCommand = async () => {
+    setCustomError(null);
+    const result = await window.api.invoke('commands:saveCustom', {
+      ...customForm,
+      aliases: parseAliasInput(customForm.aliases)
+    });
+    if (!result.success) {
+      setCustomError(result.error || 'Failed to save command');
+      return;
+    }
+    setCustomForm({ ...emptyCustomForm, command_prefix: globalPrefix });
+    setEditingCommand(null);
+    loadCommands();
+  };
+
+  const handleEditCustomCommand = (cmd: CommandInfo) => {
+    setCustomError(null);
+    setEditingCommand(cmd.name);
+    setCustomForm({
+      command_name: cmd.name,
+      description: cmd.description,
+      command_prefix: cmd.prefix,
+      aliases: cmd.aliases.join(', '),
+      permission_level: cmd.permission,
+      rate_limit_seconds: cmd.rateLimit,
+      cooldown_mode: cmd.cooldownMode,
+      response_mode: cmd.responseMode,
+      custom_response: cmd.customResponse || '',
+      enabled: cmd.enabled
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setCustomError(null);
+    setEditingCommand(null);
+    setCustomForm({ ...emptyCustomForm, command_prefix: globalPrefix });
+  };
+
+  const handleDeleteCustomCommand = async (cmd: CommandInfo) => {
+    if (!confirm(`Delete ${cmd.prefix}${cmd.name}?`)) return;
+    const result = await window.api.invoke('commands:deleteCustom', cmd.name);
+    if (!result.success) {
+      alert(`Failed to delete command: ${result.error}`);
+      return;
+    }
+    if (editingCommand === cmd.name) {
+      handleCancelEdit();
     }
-  ]);
+    loadCommands();
+  };
 
   const getPermissionColor = (permission: string) => {
     switch (permission.toLowerCase()) {
@@ -109,6 +344,126 @@ const Commands: React.FC = () => {
     }
   };
 
+  const renderPermissionBadge = (permission: string) => (
+    <span
+      style={{
+        padding: '4px 12px',
+        borderRadius: '12px',
+        fontSize: '12px',
+        fontWeight: 'bold',
+        color: 'white',
+        textTransform: 'capitalize',
+        backgroundColor: getPermissionColor(permission)
+      }}
+    >
+      {permission}
+    </span>
+  );
+
+  const renderSettingsFields = (
+    form: CommandSettingsForm,
+    onChange: (form: CommandSettingsForm) => void
+  ) => (
+    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px', marginBottom: '10px' }}>
+      <label style={{ fontSize: '12px', color: '#999' }}>
+        Prefix
+        <input
+          type="text"
+          value={form.command_prefix}
+          maxLength={3}
+          onChange={(e) => onChange({ ...form, command_prefix: e.target.value })}
+          style={{ width: '100%', marginTop: '4px' }}
+        />
+      </label>
+      <label style={{ fontSize: '12px', color: '#999' }}>
+        Aliases (comma-separated)
+        <input
+          type="text"
+          value={form.aliases}
+          onChange={(e) => onChange({ ...form, aliases: e.target.value })}
+          placeholder="sv, voice"
+          style={{ width: '100%', marginTop: '4px' }}
+        />
+      </label>
+      <label style={{ fontSize: '12px', color: '#999' }}>
+        Permission
+        <select
+          value={form.permission_level}
+          onChange={(e) => onChange({ ...form, permission_level: e.target.value })}
+          style={{ width: '100%', marginTop: '4px' }}
+        >
+          <option value="viewer">Viewer</option>
+          <option value="moderator">Moderator</option>
+          <option value="broadcaster">Broadcaster</option>
+        </select>
+      </label>
+      <label style={{ fontSize: '12px', color: '#999' }}>
+        Rate limit (seconds)
+        <input
+          type="number"
+          min="0"
+          value={form.rate_limit_seconds}
+          onChange={(e) => onChange({ ...form, rate_limit_seconds: parseInt(e.target.value) || 0 })}
+          style={{ width: '100%', marginTop: '4px' }}
+        />
+      </label>
+      <label style={{ fontSize: '12px', color: '#999' }}>
+        Cooldown applies
+        <select
+          value={form.cooldown_mode}
+          onChange={(e) => onChange({ ...form, cooldown_mode: e.target.value as 'user' | 'global' })}
+          style={{ width: '100%', marginTop: '4px' }}
+        >
+          <option value="user">Per user</option>
+          <option value="global">To everyone (global)</option>
+        </select>
+      </label>
+      <label style={{ fontSize: '12px', color: '#999' }}>
+        Reply with
+        <select
+          value={form.response_mode}
+          onChange={(e) => onChange({ ...form, response_mode: e.target.value as ResponseMode })}
+          style={{ width: '100%', marginTop: '4px' }}
+        >
+          {(Object.keys(responseModeLabels) as ResponseMode[]).map(mode => (
+            <option key={mode} value={mode}>{responseModeLabels[mode]}</option>
+          ))}
+        </select>
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#ccc', cursor: 'pointer' }}>
+        <input
+          type="checkbox"
+          checked={form.enabled}
+          onChange={(e) => onChange({ ...form, enabled: e.target.checked })}
+        />
+        Enabled
+      </label>
+    </div>
+  );
+
+  const renderCommandFooter = (cmd: CommandInfo, actions: React.ReactNode) => (
+    <div style={{
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      fontSize: '12px',
+      color: '#999',
+      marginTop: '10px',
+      paddingTop: '10px',
+      borderTop: '1px solid #444'
+    }}>
+      <span>
+        {!cmd.enabled && '⏸️ Disabled · '}
+        {cmd.aliases.length > 0 && `Aliases: ${cmd.aliases.map(a => cmd.prefix + a).join(', ')} · `}
+        {cmd.rateLimit > 0
+          ? `⏱️ ${cmd.rateLimit}s ${cmd.cooldownMode === 'global' ? 'global' : 'per user'}`
+          : 'No rate limit'}
+        {cmd.responseMode !== 'public' && ` · 💬 ${responseModeLabels[cmd.responseMode]}`}
+      </span>
+      <span style={{ display: 'flex', gap: '8px' }}>{actions}</span>
+    </div>
+  );
+
   return (
     <div style={{ padding: '20px', backgroundColor: '#1a1a1a', minHeight: '100vh' }}>
       <h1 style={{ color: '#fff' }}>Chat Commands</h1>
@@ -120,9 +475,33 @@ const Commands: React.FC = () => {
         marginBottom: '20px',
         color: '#a8d8ff'
       }}>
-        <strong>ℹ️ Command Prefix:</strong> All commands use the <code>~</code> prefix (e.g., <code>~hello</code>)
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px', flexWrap: 'wrap' }}>
+          <strong>ℹ️ Command Prefix:</strong>
+          <input
+            type="text"
+            value={globalPrefix}
+            maxLength={3}
+            onChange={(e) => setGlobalPrefix(e.target.value)}
+            style={{ width: '60px' }}
+          />
+          <button className="secondary" onClick={handleApplyPrefix}>Apply to all commands</button>
+          <span>Change this if another bot in your channel already uses <code>~</code></span>
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '10px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={persistCooldowns}
+            onChange={(e) => handlePersistCooldownsToggle(e.target.checked)}
+          />
+          Remember command cooldowns across app restarts
+        </label>
         <br />
         <strong>📝 Note:</strong> All command arguments are case-insensitive (usernames, voice names, etc.)
+        <br />
+        <strong>🛡️ Cooldowns:</strong> Moderators and the broadcaster are never rate limited
+        <br />
+        <strong>🤫 Whispers:</strong> Viewers can whisper any command to the bot; the reply comes back by whisper.
+        Sending whispers needs a verified phone number on the Twitch account; log in again if whispers fail.
       </div>
 
       <div style={{
@@ -131,55 +510,393 @@ const Commands: React.FC = () => {
         gap: '20px',
         marginTop: '20px'
       }}>
-        {commands.map(cmd => (
+        {builtInCommands.map(cmd => (
           <div
             key={cmd.name}
             style={{
               border: '1px solid #444',
               borderRadius: '8px',
               padding: '15px',
-              backgroundColor: '#2a2a2a'
+              backgroundColor: '#2a2a2a',
+              opacity: cmd.enabled ? 1 : 0.6
             }}
           >
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
               <h3 style={{ margin: 0, color: '#fff' }}>
                 <code style={{ backgroundColor: '#1a1a1a', padding: '4px 8px', borderRadius: '4px', color: '#9147ff' }}>
-                  {cmd.usage}
+                  {cmd.prefix}{cmd.name}{cmd.usage && ` ${cmd.usage}`}
                 </code>
               </h3>
-              <span
-                style={{
-                  padding: '4px 12px',
-                  borderRadius: '12px',
-                  fontSize: '12px',
-                  fontWeight: 'bold',
-                  color: 'white',
-                  backgroundColor: getPermissionColor(cmd.permission)
-                }}
-              >
-                {cmd.permission}
-              </span>
+              {renderPermissionBadge(cmd.permission)}
             </div>
 
             <p style={{ color: '#ccc', margin: '10px 0' }}>
               {cmd.description}
             </p>
 
-            {cmd.rateLimit > 0 && (
-              <div style={{
-                fontSize: '12px',
-                color: '#999',
-                marginTop: '10px',
-                paddingTop: '10px',
-                borderTop: '1px solid #444'
-              }}>
-                ⏱️ Rate limit: {cmd.rateLimit}s per user
+            {editingBuiltIn === cmd.name && builtInForm ? (
+              <div style={{ marginTop: '10px', paddingTop: '10px', borderTop: '1px solid #444' }}>
+                {renderSettingsFields(builtInForm, setBuiltInForm)}
+                {builtInError && (
+                  <div style={{ color: '#ff6b6b', fontSize: '13px', marginBottom: '10px' }}>{builtInError}</div>
+                )}
+                <div style={{ display: 'flex', gap: '10px' }}>
+                  <button onClick={handleSaveBuiltIn}>Save</button>
+                  <button className="secondary" onClick={() => { setEditingBuiltIn(null); setBuiltInForm(null); }}>
+                    Cancel
+                  </button>
+                </div>
               </div>
+            ) : (
+              renderCommandFooter(cmd, (
+                <button className="secondary" onClick={() => handleEditBuiltIn(cmd)}>Edit</button>
+              ))
             )}
           </div>
         ))}
       </div>
 
+      <h2 style={{ color: '#fff', marginTop: '30px' }}>Custom Commands</h2>
+
+      <div style={{
+        border: '1px solid #444',
+        borderRadius: '8px',
+        padding: '15px',
+        backgroundColor: '#2a2a2a',
+        color: '#ccc'
+      }}>
+        <h3 style={{ marginTop: 0, color: '#fff' }}>
+          {editingCommand ? `Edit ${customForm.command_prefix}${editingCommand}` : 'Add Custom Command'}
+        </h3>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px', marginBottom: '10px' }}>
+          <label style={{ fontSize: '12px', color: '#999' }}>
+            Command name
+            <input
+              type="text"
+              value={customForm.command_name}
+              disabled={editingCommand !== null}
+              onChange={(e) => setCustomForm({ ...customForm, command_name: e.target.value })}
+              placeholder="discord"
+              style={{ width: '100%', marginTop: '4px' }}
+            />
+          </label>
+          <label style={{ fontSize: '12px', color: '#999' }}>
+            Description
+            <input
+              type="text"
+              value={customForm.description}
+              onChange={(e) => setCustomForm({ ...customForm, description: e.target.value })}
+              placeholder="Link to our Discord server"
+              style={{ width: '100%', marginTop: '4px' }}
+            />
+          </label>
+        </div>
+
+        {renderSettingsFields(customForm, (settings) => setCustomForm({ ...customForm, ...settings }))}
+
+        <label style={{ display: 'block', fontSize: '12px', color: '#999', marginBottom: '10px' }}>
+          Response
+          <textarea
+            value={customForm.custom_response}
+            onChange={(e) => setCustomForm({ ...customForm, custom_response: e.target.value })}
+            placeholder="Join the Discord, {user}: https://discord.gg/example"
+            rows={3}
+            style={{ width: '100%', marginTop: '4px' }}
+          />
+        </label>
+
+        <div style={{ fontSize: '12px', color: '#999', marginBottom: '10px' }}>
+          Placeholders: <code>{'{user}'}</code> <code>{'{channel}'}</code> <code>{'{args}'}</code>{' '}
+          <code>{'{arg1}'}</code> <code>{'{arg2}'}</code> <code>{'{count}'}</code>{' '}
+          <code>{'{voice}'}</code> <code>{'{uptime}'}</code>
+        </div>
+
+        {customError && (
+          <div style={{ color: '#ff6b6b', fontSize: '13px', marginBottom: '10px' }}>{customError}</div>
+        )}
+
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <button onClick={handleSaveCustomCommand}>
+            {editingCommand ? 'Save Changes' : 'Add Command'}
+          </button>
+          {editingCommand && (
+            <button className="secondary" onClick={handleCancelEdit}>Cancel</button>
+          )}
+        </div>
+      </div>
+
+      {customCommands.length === 0 ? (
+        <p style={{ color: '#888', fontSize: '14px' }}>No custom commands yet</p>
+      ) : (
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fill, minmax(350px, 1fr))',
+          gap: '20px',
+          marginTop: '20px'
+        }}>
+          {customCommands.map(cmd => (
+            <div
+              key={cmd.name}
+              style={{
+                border: '1px solid #444',
+                borderRadius: '8px',
+                padding: '15px',
+                backgroundColor: '#2a2a2a',
+                opacity: cmd.enabled ? 1 : 0.6
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+                <h3 style={{ margin: 0, color: '#fff' }}>
+                  <code style={{ backgroundColor: '#1a1a1a', padding: '4px 8px', borderRadius: '4px', color: '#9147ff' }}>
+                    {cmd.prefix}{cmd.name}
+                  </code>
+                </h3>
+                {renderPermissionBadge(cmd.permission)}
+              </div>
+
+              {cmd.description && (
+                <p style={{ color: '#ccc', margin: '10px 0' }}>{cmd.description}</p>
+              )}
+
+              <p style={{ color: '#aaa', margin: '10px 0', fontSize: '13px', fontStyle: 'italic' }}>
+                {cmd.customResponse}
+              </p>
+
+              <div style={{ fontSize: '12px', color: '#999' }}>Used {cmd.usageCount} times</div>
+
+              {renderCommandFooter(cmd, (
+                <>
+                  <button className="secondary" onClick={() => handleEditCustomCommand(cmd)}>Edit</button>
+                  <button className="secondary" onClick={() => handleDeleteCustomCommand(cmd)}>Delete</button>
+                </>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <h2 style={{ color: '#fff', marginTop: '30px' }}>📢 Timed Announcements</h2>
+
+      <div style={{
+        border: '1px solid #444',
+        borderRadius: '8px',
+        padding: '15px',
+        backgroundColor: '#2a2a2a',
+        color: '#ccc'
+      }}>
+        <h3 style={{ marginTop: 0, color: '#fff' }}>
+          {announcementForm.id ? 'Edit Announcement' : 'Add Announcement'}
+        </h3>
+
+        <label style={{ display: 'block', fontSize: '12px', color: '#999', marginBottom: '10px' }}>
+          Message
+          <textarea
+            value={announcementForm.message}
+            maxLength={500}
+            onChange={(e) => setAnnouncementForm({ ...announcementForm, message: e.target.value })}
+            placeholder="Want your own TTS voice? Type ~voices to see what's available!"
+            rows={2}
+            style={{ width: '100%', marginTop: '4px' }}
+          />
+        </label>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px', marginBottom: '10px' }}>
+          <label style={{ fontSize: '12px', color: '#999' }}>
+            Every (minutes)
+            <input
+              type="number"
+              min="5"
+              value={announcementForm.interval_minutes}
+              onChange={(e) => setAnnouncementForm({ ...announcementForm, interval_minutes: parseInt(e.target.value) || 0 })}
+              style={{ width: '100%', marginTop: '4px' }}
+            />
+          </label>
+          <label style={{ fontSize: '12px', color: '#999' }}>
+            Minimum chat messages since last post
+            <input
+              type="number"
+              min="0"
+              value={announcementForm.min_chat_messages}
+              onChange={(e) => setAnnouncementForm({ ...announcementForm, min_chat_messages: parseInt(e.target.value) || 0 })}
+              style={{ width: '100%', marginTop: '4px' }}
+            />
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#ccc', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={announcementForm.enabled}
+              onChange={(e) => setAnnouncementForm({ ...announcementForm, enabled: e.target.checked })}
+            />
+            Enabled
+          </label>
+        </div>
+
+        {announcementError && (
+          <div style={{ color: '#ff6b6b', fontSize: '13px', marginBottom: '10px' }}>{announcementError}</div>
+        )}
+
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <button onClick={handleSaveAnnouncement}>
+            {announcementForm.id ? 'Save Changes' : 'Add Announcement'}
+          </button>
+          {announcementForm.id && (
+            <button
+              className="secondary"
+              onClick={() => { setAnnouncementError(null); setAnnouncementForm(emptyAnnouncementForm); }}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {announcements.length === 0 ? (
+        <p style={{ color: '#888', fontSize: '14px' }}>No announcements yet</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', marginTop: '20px' }}>
+          {announcements.map(announcement => (
+            <div
+              key={announcement.id}
+              style={{
+                border: '1px solid #444',
+                borderRadius: '8px',
+                padding: '15px',
+                backgroundColor: '#2a2a2a',
+                opacity: announcement.enabled ? 1 : 0.6
+              }}
+            >
+              <p style={{ color: '#ccc', margin: '0 0 10px 0' }}>{announcement.message}</p>
+              <div style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                fontSize: '12px',
+                color: '#999'
+              }}>
+                <span>
+                  {!announcement.enabled && '⏸️ Disabled · '}
+                  ⏱️ Every {announcement.interval_minutes} min
+                  {announcement.min_chat_messages > 0 && ` · 💬 After ${announcement.min_chat_messages}+ chat messages`}
+                  {' · '}
+                  {announcement.last_sent_at
+                    ? `Last posted ${new Date(announcement.last_sent_at).toLocaleString()}`
+                    : 'Not posted yet'}
+                </span>
+                <span style={{ display: 'flex', gap: '8px' }}>
+                  <button className="secondary" onClick={() => handleSendAnnouncement(announcement)}>Send now</button>
+                  <button className="secondary" onClick={() => handleToggleAnnouncement(announcement)}>
+                    {announcement.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button className="secondary" onClick={() => handleEditAnnouncement(announcement)}>Edit</button>
+                  <button className="secondary" onClick={() => handleDeleteAnnouncement(announcement)}>Delete</button>
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '30px' }}>
+        <h2 style={{ color: '#fff', margin: 0 }}>📊 Command Analytics</h2>
+        <select value={analyticsDays} onChange={(e) => setAnalyticsDays(parseInt(e.target.value))}>
+          <option value={1}>Last 24 hours</option>
+          <option value={7}>Last 7 days</option>
+          <option value={30}>Last 30 days</option>
+        </select>
+        <button className="secondary" onClick={loadAnalytics}>Refresh</button>
+      </div>
+
+      {analytics && analytics.commands.length === 0 && (
+        <p style={{ color: '#999' }}>No commands have been used in this period.</p>
+      )}
+
+      {analytics && analytics.commands.length > 0 && (
+        <div style={{
+          border: '1px solid #444',
+          borderRadius: '8px',
+          padding: '15px',
+          backgroundColor: '#2a2a2a',
+          marginTop: '15px',
+          color: '#ccc'
+        }}>
+          <h3 style={{ marginTop: 0, color: '#fff' }}>Usage Over Time</h3>
+          {(() => {
+            const maxTotal = Math.max(...analytics.dailyUsage.map(d => d.total), 1);
+            return (
+              <div style={{ display: 'flex', alignItems: 'flex-end', gap: '6px', height: '120px' }}>
+                {analytics.dailyUsage.map(day => (
+                  <div
+                    key={day.date}
+                    title={`${day.date}: ${day.total} uses, ${day.failures} failed`}
+                    style={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'flex-end', height: '100%' }}
+                  >
+                    <div style={{ height: `${((day.total - day.failures) / maxTotal) * 100}%`, backgroundColor: '#9147ff' }} />
+                    <div style={{ height: `${(day.failures / maxTotal) * 100}%`, backgroundColor: '#dc3545' }} />
+                    <div style={{ fontSize: '10px', color: '#999', textAlign: 'center', marginTop: '4px' }}>
+                      {day.date.slice(5)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            );
+          })()}
+          <div style={{ fontSize: '12px', color: '#999', marginTop: '8px' }}>
+            <span style={{ color: '#9147ff' }}>■</span> Successful &nbsp;
+            <span style={{ color: '#dc3545' }}>■</span> Failed
+          </div>
+
+          <h3 style={{ color: '#fff' }}>By Command</h3>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', color: '#999', borderBottom: '1px solid #444' }}>
+                <th style={{ padding: '6px' }}>Command</th>
+                <th style={{ padding: '6px' }}>Uses</th>
+                <th style={{ padding: '6px' }}>Failed</th>
+                <th style={{ padding: '6px' }}>Top Users</th>
+                <th style={{ padding: '6px' }}>Last Used</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analytics.commands.map(row => (
+                <tr key={row.command_name} style={{ borderBottom: '1px solid #333' }}>
+                  <td style={{ padding: '6px' }}><code>{row.command_name}</code></td>
+                  <td style={{ padding: '6px' }}>{row.total}</td>
+                  <td style={{ padding: '6px', color: row.failures > 0 ? '#ff6b6b' : undefined }}>{row.failures}</td>
+                  <td style={{ padding: '6px' }}>
+                    {row.top_users.length > 0
+                      ? row.top_users.map(u => `${u.username} (${u.count})`).join(', ')
+                      : '—'}
+                  </td>
+                  <td style={{ padding: '6px' }}>
+                    {row.last_used_at ? new Date(row.last_used_at).toLocaleString() : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {analytics.recentFailures.length > 0 && (
+            <>
+              <h3 style={{ color: '#fff' }}>Recent Failures</h3>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '13px' }}>
+                {analytics.recentFailures.map((failure, index) => (
+                  <div key={index} style={{ display: 'flex', gap: '10px' }}>
+                    <span style={{ color: '#999', minWidth: '150px' }}>
+                      {new Date(failure.timestamp).toLocaleString()}
+                    </span>
+                    <code>{failure.command_name}</code>
+                    <span>{failure.username}</span>
+                    <span style={{ color: '#ff6b6b' }}>{outcomeLabels[failure.outcome] || failure.outcome}</span>
+                    {failure.error_message && <span style={{ color: '#aaa' }}>{failure.error_message}</span>}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       <div style={{
         marginTop: '30px',
         padding: '20px',
@@ -250,10 +967,20 @@ const Commands: React.FC = () => {
           <li><code>~setvoice Samantha</code> - Set voice to Samantha</li>
           <li><code>~setvoicepitch 5</code> - Increase pitch by 5</li>
           <li><code>~setvoicespeed 1.5</code> - Speed up voice to 1.5x</li>
+          <li><code>~previewvoice Brian</code> - Hear Brian without switching to it</li>
+          <li><code>~sayname Ninja</code> - Have TTS call you Ninja (<code>~sayname</code> alone resets it)</li>
+          <li><code>~resetvoice</code> - Go back to the channel default voice</li>
           <li><code>~mutevoice @trolluser 30</code> - Mute user for 30 minutes</li>
+          <li><code>~mutevoice @trolluser 2h</code> - Durations also accept <code>90s</code>, <code>10m</code> or <code>1h30m</code></li>
           <li><code>~unmutevoice @trolluser</code> - Unmute user (also removes cooldown)</li>
           <li><code>~cooldownvoice @spammer 60 15</code> - 60s cooldown for 15 minutes</li>
           <li><code>~uncooldownvoice @spammer</code> - Remove cooldown</li>
+          <li><code>~setvoicefor @loudguy Brian pitch=1 speed=1</code> - Change someone else's voice</li>
+          <li><code>~lockvoice @loudguy</code> - Stop them changing it back (<code>~unlockvoice</code> to undo)</li>
+          <li><code>~history</code> - List the last messages TTS read out</li>
+          <li><code>~replay 3</code> - Read the last 3 messages again</li>
+          <li><code>~queue</code> - Show your place in the TTS queue</li>
+          <li><code>~help setvoice</code> - Show how to use a command (<code>~help</code> lists them all)</li>
         </ul>
       </div>
     </div>
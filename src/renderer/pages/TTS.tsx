@@ -1,6 +1,23 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { getWebSpeechService, WebSpeechVoice } from '../services/webSpeechService';
-import { getTTSQueue, TTSQueueItem } from '../services/ttsQueue';
+import {
+  getTTSQueue,
+  TTSQueueItem,
+  TTSLane,
+  TTS_LANE_LABELS,
+  DEFAULT_LANE_ORDER,
+  BacklogSettings,
+  OverflowPolicy,
+  FairnessSettings,
+  FairnessMode,
+  TTSQueueState,
+  TTSHistoryEntry,
+  DEFAULT_BACKLOG_SETTINGS,
+  DEFAULT_FAIRNESS_SETTINGS
+} from '../services/ttsQueue';
+import { getApprovalQueue, HeldMessage } from '../services/approvalQueue';
+import { ReplacementRule, parseReplacementRules, getPatternError, applyReplacementRules } from '../services/replacementRules';
+import { DETECTABLE_LANGUAGES, voiceMatchesLanguage, parseLanguageVoices } from '../services/languageVoices';
 import AwsPollyGuide from '../components/guides/AwsPollyGuide';
 import AzureTtsGuide from '../components/guides/AzureTtsGuide';
 import GoogleTtsGuide from '../components/guides/GoogleTtsGuide';
@@ -18,7 +35,28 @@ const TTS: React.FC = () => {
   const [pitch, setPitch] = useState(1.0);
   const [testText, setTestText] = useState('Hello! This is a test message.');
   const [queue, setQueue] = useState<TTSQueueItem[]>([]);
+  const [queuePaused, setQueuePaused] = useState(false);
+  const [laneOrder, setLaneOrder] = useState<TTSLane[]>(DEFAULT_LANE_ORDER);
+  const [backlogSettings, setBacklogSettings] = useState<BacklogSettings>(DEFAULT_BACKLOG_SETTINGS);
+  const [fairnessSettings, setFairnessSettings] = useState<FairnessSettings>(DEFAULT_FAIRNESS_SETTINGS);
+  const [drainSeconds, setDrainSeconds] = useState(0);
+  const [catchUpRate, setCatchUpRate] = useState(1.0);
+  const [droppedCount, setDroppedCount] = useState(0);
+  const [cacheStats, setCacheStats] = useState<{ hits: number; misses: number; entries: number; sizeBytes: number; maxBytes: number } | null>(null);
+  const [cacheMaxMb, setCacheMaxMb] = useState(100);
   const [currentItem, setCurrentItem] = useState<TTSQueueItem | null>(null);
+  const [spokenHistory, setSpokenHistory] = useState<TTSHistoryEntry[]>([]);
+  const [heldMessages, setHeldMessages] = useState<HeldMessage[]>([]);
+  const [approvalEnabled, setApprovalEnabled] = useState(false);
+  const [approvalTimeout, setApprovalTimeout] = useState(300);
+  const [approvalBypassRedeems, setApprovalBypassRedeems] = useState(false);
+  const [approvalBypassBits, setApprovalBypassBits] = useState(false);
+  const [languageDetectionEnabled, setLanguageDetectionEnabled] = useState(false);
+  const [languageVoices, setLanguageVoices] = useState<Record<string, string>>({});
+  const [languageAllowlist, setLanguageAllowlist] = useState<string[]>([]);
+  const [editingHeldId, setEditingHeldId] = useState<string | null>(null);
+  const [editingHeldText, setEditingHeldText] = useState('');
+  const [clockNow, setClockNow] = useState(Date.now());
   const [isScanning, setIsScanning] = useState(false);
   const [lastScanTime, setLastScanTime] = useState<string | null>(null);
   const [obsRunning, setObsRunning] = useState(false);
@@ -82,6 +120,23 @@ const TTS: React.FC = () => {
   const [blockedWords, setBlockedWords] = useState<string[]>([]);
   const [newBlockedWord, setNewBlockedWord] = useState('');
   const [blockedWordReplacement, setBlockedWordReplacement] = useState('[censored]');
+  const [mergeMessages, setMergeMessages] = useState(false);
+  const [mergeWindowSeconds, setMergeWindowSeconds] = useState(10);
+  const [cleanUsernames, setCleanUsernames] = useState(true);
+  const [normalization, setNormalization] = useState({
+    replies: false,
+    mentions: false,
+    abbreviations: false,
+    currency: false,
+    times: false,
+    numbers: false
+  });
+  const [replacementRules, setReplacementRules] = useState<ReplacementRule[]>([]);
+  const [newRulePattern, setNewRulePattern] = useState('');
+  const [newRuleReplacement, setNewRuleReplacement] = useState('');
+  const [newRuleIsRegex, setNewRuleIsRegex] = useState(false);
+  const [replacementPreviewText, setReplacementPreviewText] = useState('gg that was lol so good');
+  const replacementImportRef = useRef<HTMLInputElement>(null);
 
   // TTS Access state
   const [accessRestricted, setAccessRestricted] = useState(false);
@@ -115,6 +170,7 @@ const TTS: React.FC = () => {
 
   const webSpeechService = getWebSpeechService();
   const ttsQueue = getTTSQueue();
+  const approvalQueue = getApprovalQueue();
 
   useEffect(() => {
     // Load settings
@@ -144,23 +200,35 @@ const TTS: React.FC = () => {
     // Load viewer voice preferences
     loadViewerVoicePreferences();
 
+    // Load synthesized audio cache stats
+    loadCacheStats();
+
     // Poll for restrictions updates every 30 seconds
     const restrictionsInterval = setInterval(() => {
       loadRestrictions();
     }, 30000);
     
-    // Set up queue update listener
-    ttsQueue.onQueueUpdate((updatedQueue) => {
-      setQueue(updatedQueue);
-    });
-    
-    ttsQueue.onItemStart((item) => {
-      setCurrentItem(item);
-    });
-    
-    ttsQueue.onItemComplete(() => {
-      setCurrentItem(null);
+    // Mirror the main process queue
+    const applyQueueState = (state: TTSQueueState) => {
+      setQueue(state.items);
+      setCurrentItem(state.currentItem);
+      setQueuePaused(state.paused);
+      setLaneOrder(state.laneOrder);
+      setDrainSeconds(state.drainSeconds);
+      setCatchUpRate(state.catchUpRate);
+      setDroppedCount(state.droppedCount);
+      setSpokenHistory(state.history);
+    };
+    ttsQueue.getState().then(state => {
+      applyQueueState(state);
+      setBacklogSettings(state.backlog);
+      setFairnessSettings(state.fairness);
     });
+    const unsubscribeQueue = ttsQueue.onStateChange(applyQueueState);
+
+    // Mirror messages held for approval
+    approvalQueue.getHeld().then(setHeldMessages);
+    const unsubscribeHeld = approvalQueue.onChange(setHeldMessages);
 
     // Listen for TTS status changes from HTTP endpoint or chat commands
     const handleTtsStatusChange = (enabled: boolean) => {
@@ -170,10 +238,19 @@ const TTS: React.FC = () => {
 
     return () => {
       clearInterval(restrictionsInterval);
+      unsubscribeQueue();
+      unsubscribeHeld();
       unsubscribeTtsStatus();
     };
   }, []);
 
+  // Tick the held message countdowns
+  useEffect(() => {
+    if (heldMessages.length === 0) return;
+    const clockInterval = setInterval(() => setClockNow(Date.now()), 1000);
+    return () => clearInterval(clockInterval);
+  }, [heldMessages.length]);
+
   const initVoices = async () => {
     const loadedVoices = await loadVoices();
     
@@ -213,6 +290,13 @@ const TTS: React.FC = () => {
       const googleEn = await window.api.invoke('db:getSetting', 'tts_google_enabled');
       const googleJson = await window.api.invoke('db:getSetting', 'tts_google_service_account_json');
       const lastScan = await window.api.invoke('db:getSetting', 'tts_voices_last_scanned');
+      const approvalEn = await window.api.invoke('db:getSetting', 'tts_approval_enabled');
+      const approvalTimeoutSecs = await window.api.invoke('db:getSetting', 'tts_approval_timeout_seconds');
+      const approvalRedeems = await window.api.invoke('db:getSetting', 'tts_approval_bypass_redeems');
+      const approvalBits = await window.api.invoke('db:getSetting', 'tts_approval_bypass_bits');
+      const langDetection = await window.api.invoke('db:getSetting', 'tts_language_detection_enabled');
+      const langVoices = await window.api.invoke('db:getSetting', 'tts_language_voices');
+      const langAllowlist = await window.api.invoke('db:getSetting', 'tts_language_allowlist');
 
       if (wsEnabled !== null) setWebspeechEnabled(wsEnabled === 'true');
       if (awsEn !== null) setAwsEnabled(awsEn === 'true');
@@ -228,6 +312,13 @@ const TTS: React.FC = () => {
       if (googleEn !== null) setGoogleEnabled(googleEn === 'true');
       if (googleJson) setGoogleServiceAccountJson(googleJson);
       if (lastScan) setLastScanTime(new Date(lastScan).toLocaleString());
+      if (approvalEn !== null) setApprovalEnabled(approvalEn === 'true');
+      if (approvalTimeoutSecs) setApprovalTimeout(parseInt(approvalTimeoutSecs));
+      if (approvalRedeems !== null) setApprovalBypassRedeems(approvalRedeems === 'true');
+      if (approvalBits !== null) setApprovalBypassBits(approvalBits === 'true');
+      if (langDetection !== null) setLanguageDetectionEnabled(langDetection === 'true');
+      setLanguageVoices(parseLanguageVoices(langVoices));
+      if (langAllowlist) setLanguageAllowlist(langAllowlist.split(',').map((code: string) => code.trim()).filter(Boolean));
     } catch (err) {
       console.error('Failed to load TTS settings:', err);
     }
@@ -241,6 +332,7 @@ const TTS: React.FC = () => {
         const voiceList = dbVoices.map((v: any) => ({
           voice_id: v.voice_id,
           name: v.name,
+          language_code: v.language_code,
           language_name: v.language_name,
           provider: v.provider
         }));
@@ -307,6 +399,25 @@ const TTS: React.FC = () => {
     saveSetting('tts_default_voice', voiceId);
   };
 
+  const handleLanguageVoiceChange = (language: string, voiceId: string) => {
+    const updated = { ...languageVoices };
+    if (voiceId) {
+      updated[language] = voiceId;
+    } else {
+      delete updated[language];
+    }
+    setLanguageVoices(updated);
+    saveSetting('tts_language_voices', JSON.stringify(updated));
+  };
+
+  const handleLanguageAllowedChange = (language: string, allowed: boolean) => {
+    const updated = allowed
+      ? [...languageAllowlist, language]
+      : languageAllowlist.filter(code => code !== language);
+    setLanguageAllowlist(updated);
+    saveSetting('tts_language_allowlist', updated.join(','));
+  };
+
   const handleVolumeChange = (val: number) => {
     setVolume(val);
     saveSetting('tts_default_volume', val.toString());
@@ -333,6 +444,7 @@ const TTS: React.FC = () => {
           text: testText,
           voiceId: selectedVoice,
           provider,
+          pitch,
           speed,
           volume
         });
@@ -359,7 +471,8 @@ const TTS: React.FC = () => {
         provider: 'webspeech',
         speed,
         pitch,
-        volume
+        volume,
+        lane: 'broadcaster'
       });
     }
   };
@@ -564,6 +677,94 @@ const TTS: React.FC = () => {
     return Array.from(genders).sort();
   };
 
+  const loadCacheStats = async () => {
+    try {
+      const stats = await window.api.invoke('tts:cache:getStats');
+      setCacheStats(stats);
+      setCacheMaxMb(Math.round(stats.maxBytes / (1024 * 1024)));
+    } catch (err) {
+      console.error('Failed to load audio cache stats:', err);
+    }
+  };
+
+  const handleCacheMaxSizeSave = async () => {
+    const result = await window.api.invoke('tts:cache:setMaxSize', cacheMaxMb);
+    if (!result.success) {
+      alert(`Failed to update cache size: ${result.error}`);
+      return;
+    }
+    loadCacheStats();
+  };
+
+  const handleClearCache = async () => {
+    if (!confirm('Delete all cached TTS audio?')) return;
+    const result = await window.api.invoke('tts:cache:clear');
+    if (!result.success) {
+      alert(`Failed to clear cache: ${result.error}`);
+      return;
+    }
+    loadCacheStats();
+  };
+
+  const handleBacklogSettingChange = (changes: Partial<BacklogSettings>) => {
+    const updated = { ...backlogSettings, ...changes };
+    setBacklogSettings(updated);
+    ttsQueue.setBacklogSettings(updated);
+    saveSetting('tts_queue_max_size', updated.maxSize.toString());
+    saveSetting('tts_queue_overflow_policy', updated.overflowPolicy);
+    saveSetting('tts_catchup_enabled', updated.catchUpEnabled ? 'true' : 'false');
+    saveSetting('tts_catchup_start_at', updated.catchUpStartAt.toString());
+    saveSetting('tts_catchup_step', updated.catchUpStep.toString());
+    saveSetting('tts_catchup_max_rate', updated.catchUpMaxRate.toString());
+  };
+
+  const handleFairnessSettingChange = (changes: Partial<FairnessSettings>) => {
+    const updated = { ...fairnessSettings, ...changes };
+    setFairnessSettings(updated);
+    ttsQueue.setFairnessSettings(updated);
+    saveSetting('tts_fairness_mode', updated.mode);
+    saveSetting('tts_fairness_max_per_user', updated.maxPerUser.toString());
+    saveSetting('tts_fairness_over_cap', updated.overCapPolicy);
+  };
+
+  const formatDrainTime = (seconds: number) => {
+    if (seconds < 60) return `${seconds}s`;
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  };
+
+  const handleMoveLane = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= laneOrder.length) return;
+
+    const order = [...laneOrder];
+    [order[index], order[target]] = [order[target], order[index]];
+    setLaneOrder(order);
+    ttsQueue.setLaneOrder(order);
+    saveSetting('tts_lane_order', order.join(','));
+  };
+
+  const handleResetLaneOrder = () => {
+    setLaneOrder(DEFAULT_LANE_ORDER);
+    ttsQueue.setLaneOrder(DEFAULT_LANE_ORDER);
+    saveSetting('tts_lane_order', DEFAULT_LANE_ORDER.join(','));
+  };
+
+  const renderLaneBadge = (lane?: TTSLane) => {
+    if (!lane || lane === 'chat') return null;
+    return (
+      <span style={{
+        padding: '2px 8px',
+        borderRadius: '10px',
+        fontSize: '11px',
+        backgroundColor: '#9147ff44',
+        color: '#c9a8ff',
+        marginLeft: '6px'
+      }}>
+        {TTS_LANE_LABELS[lane]}
+      </span>
+    );
+  };
+
   const handleClearQueue = () => {
     ttsQueue.clear();
   };
@@ -572,6 +773,35 @@ const TTS: React.FC = () => {
     ttsQueue.skip();
   };
 
+  const handleTogglePause = () => {
+    if (queuePaused) {
+      ttsQueue.resume();
+    } else {
+      ttsQueue.pause();
+    }
+  };
+
+  const handleApproveHeld = async (id: string, editedText?: string) => {
+    const result = await approvalQueue.approve(id, editedText);
+    if (!result.success) {
+      alert(`Failed to approve message: ${result.error}`);
+    }
+    setEditingHeldId(null);
+  };
+
+  const handleRejectHeld = async (id: string) => {
+    const result = await approvalQueue.reject(id);
+    if (!result.success) {
+      alert(`Failed to reject message: ${result.error}`);
+    }
+    if (editingHeldId === id) setEditingHeldId(null);
+  };
+
+  const handleEditHeld = (message: HeldMessage) => {
+    setEditingHeldId(message.id);
+    setEditingHeldText(message.body ?? message.text);
+  };
+
   const checkObsStatus = async () => {
     try {
       const status = await window.api.invoke('obs:getStatus');
@@ -670,7 +900,17 @@ const TTS: React.FC = () => {
         window.api.invoke('db:getSetting', 'tts_limit_long_numbers'),
         window.api.invoke('db:getSetting', 'tts_max_number_length'),
         window.api.invoke('db:getSetting', 'tts_blocked_words'),
-        window.api.invoke('db:getSetting', 'tts_blocked_word_replacement')
+        window.api.invoke('db:getSetting', 'tts_blocked_word_replacement'),
+        window.api.invoke('db:getSetting', 'tts_merge_messages'),
+        window.api.invoke('db:getSetting', 'tts_merge_window_seconds'),
+        window.api.invoke('db:getSetting', 'tts_replacement_rules'),
+        window.api.invoke('db:getSetting', 'tts_clean_usernames'),
+        window.api.invoke('db:getSetting', 'tts_normalize_replies'),
+        window.api.invoke('db:getSetting', 'tts_normalize_mentions'),
+        window.api.invoke('db:getSetting', 'tts_normalize_abbreviations'),
+        window.api.invoke('db:getSetting', 'tts_normalize_currency'),
+        window.api.invoke('db:getSetting', 'tts_normalize_times'),
+        window.api.invoke('db:getSetting', 'tts_normalize_numbers')
       ]);
 
       if (rules[0]) setFilterCommands(rules[0] === 'true');
@@ -697,6 +937,18 @@ const TTS: React.FC = () => {
       if (rules[21]) setMaxNumberLength(parseInt(rules[21]));
       if (rules[22]) setBlockedWords(rules[22] ? rules[22].split(',').filter((w: string) => w.trim()) : []);
       if (rules[23]) setBlockedWordReplacement(rules[23] || '[censored]');
+      if (rules[24]) setMergeMessages(rules[24] === 'true');
+      if (rules[25]) setMergeWindowSeconds(parseInt(rules[25]));
+      if (rules[26]) setReplacementRules(parseReplacementRules(rules[26]));
+      if (rules[27]) setCleanUsernames(rules[27] === 'true');
+      setNormalization({
+        replies: rules[28] === 'true',
+        mentions: rules[29] === 'true',
+        abbreviations: rules[30] === 'true',
+        currency: rules[31] === 'true',
+        times: rules[32] === 'true',
+        numbers: rules[33] === 'true'
+      });
     } catch (error) {
       console.error('Failed to load TTS rules:', error);
     }
@@ -769,6 +1021,79 @@ const TTS: React.FC = () => {
     saveTTSRule('tts_blocked_words', updated.join(','));
   };
 
+  const saveReplacementRules = (updated: ReplacementRule[]) => {
+    setReplacementRules(updated);
+    saveTTSRule('tts_replacement_rules', JSON.stringify(updated));
+  };
+
+  const handleAddReplacementRule = () => {
+    if (!newRulePattern) return;
+    saveReplacementRules([...replacementRules, {
+      id: `rule-${Date.now()}`,
+      pattern: newRulePattern,
+      replacement: newRuleReplacement,
+      isRegex: newRuleIsRegex,
+      caseSensitive: false,
+      wholeWord: !newRuleIsRegex,
+      enabled: true
+    }]);
+    setNewRulePattern('');
+    setNewRuleReplacement('');
+  };
+
+  const handleUpdateReplacementRule = (id: string, changes: Partial<ReplacementRule>) => {
+    saveReplacementRules(replacementRules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+
+  const handleMoveReplacementRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= replacementRules.length) return;
+
+    const updated = [...replacementRules];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    saveReplacementRules(updated);
+  };
+
+  const handleExportReplacementRules = () => {
+    const blob = new Blob([JSON.stringify(replacementRules, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `tts-replacement-rules-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportReplacementRules = async (file: File) => {
+    const imported = parseReplacementRules(await file.text());
+    if (imported.length === 0) {
+      alert('No replacement rules found in that file');
+      return;
+    }
+
+    const replace = replacementRules.length > 0 &&
+      confirm(`Replace your ${replacementRules.length} existing rules? Cancel adds the imported rules after them.`);
+    const existingIds = new Set(replace ? [] : replacementRules.map(rule => rule.id));
+    const renamed = imported.map((rule, index) =>
+      existingIds.has(rule.id) ? { ...rule, id: `rule-${Date.now()}-${index}` } : rule
+    );
+    saveReplacementRules(replace ? renamed : [...replacementRules, ...renamed]);
+  };
+
+  const NORMALIZATION_OPTIONS: { key: keyof typeof normalization; label: string; example: string }[] = [
+    { key: 'replies', label: 'Strip reply prefixes', example: 'the "@name" Twitch adds to replies' },
+    { key: 'mentions', label: 'Say @mentions as names', example: '@xX_N1nja_Xx → N1nja' },
+    { key: 'abbreviations', label: 'Expand chat abbreviations', example: 'brb w/ u 2nite → be right back with you tonight' },
+    { key: 'currency', label: 'Speak currency', example: '$5 → 5 dollars, $4.99 → 4 dollars 99 cents' },
+    { key: 'times', label: 'Speak times', example: '3:30pm → 3 30 PM, 3:05 → 3 oh 5' },
+    { key: 'numbers', label: 'Speak percentages, thousands and ranks', example: '50% → 50 percent, 5k → 5 thousand, #1 → number 1' }
+  ];
+
+  const handleNormalizationChange = (key: keyof typeof normalization, enabled: boolean) => {
+    setNormalization({ ...normalization, [key]: enabled });
+    saveTTSRule(`tts_normalize_${key}`, enabled);
+  };
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'main':
@@ -1197,6 +1522,51 @@ const TTS: React.FC = () => {
         </div>
       </div>
 
+      {/* Audio Cache */}
+      <div className="card">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+          <h3 style={{ margin: 0 }}>Audio Cache</h3>
+          <div>
+            <button className="secondary" onClick={loadCacheStats} style={{ marginRight: '10px' }}>
+              Refresh
+            </button>
+            <button className="secondary" onClick={handleClearCache}>
+              Clear Cache
+            </button>
+          </div>
+        </div>
+        <p style={{ fontSize: '13px', color: '#888', marginBottom: '15px' }}>
+          Cloud voices reuse audio for text they have already spoken with the same voice and settings,
+          which saves time and provider costs.
+        </p>
+        {cacheStats && (
+          <div style={{ display: 'flex', gap: '20px', fontSize: '14px', marginBottom: '15px' }}>
+            <span>📦 {cacheStats.entries} clips</span>
+            <span>
+              💾 {(cacheStats.sizeBytes / (1024 * 1024)).toFixed(1)} / {(cacheStats.maxBytes / (1024 * 1024)).toFixed(0)} MB
+            </span>
+            <span>✅ {cacheStats.hits} hits</span>
+            <span>❌ {cacheStats.misses} misses</span>
+            {cacheStats.hits + cacheStats.misses > 0 && (
+              <span>
+                🎯 {Math.round((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100)}% hit rate
+              </span>
+            )}
+          </div>
+        )}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+          <label style={{ fontSize: '13px' }}>Max size (MB, 0 = off)</label>
+          <input
+            type="number"
+            min="0"
+            value={cacheMaxMb}
+            onChange={(e) => setCacheMaxMb(parseInt(e.target.value) || 0)}
+            style={{ width: '100px', padding: '6px' }}
+          />
+          <button className="secondary" onClick={handleCacheMaxSizeSave}>Save</button>
+        </div>
+      </div>
+
       {/* Voice Selection */}
       <div className="card">
         <h3 style={{ marginBottom: '15px' }}>Default Voice Settings</h3>
@@ -1377,6 +1747,78 @@ const TTS: React.FC = () => {
         </div>
       </div>
 
+      {/* Language Detection */}
+      <div className="card">
+        <h3 style={{ marginBottom: '10px' }}>Language Detection</h3>
+        <p style={{ fontSize: '12px', color: '#888', marginBottom: '15px' }}>
+          Detects each message's language offline and reads it with that language's voice. Only applies to viewers without their own voice; messages that can't be detected use the default voice above.
+        </p>
+
+        <label style={{ display: 'flex', alignItems: 'center', marginBottom: '15px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={languageDetectionEnabled}
+            onChange={(e) => {
+              setLanguageDetectionEnabled(e.target.checked);
+              saveSetting('tts_language_detection_enabled', e.target.checked ? 'true' : 'false');
+            }}
+            style={{ marginRight: '10px' }}
+          />
+          <span>Enable language detection</span>
+        </label>
+
+        {languageDetectionEnabled && (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: '24px 120px 1fr', gap: '8px 10px', alignItems: 'center' }}>
+              <span style={{ fontSize: '12px', color: '#888' }} title="Allowed">✓</span>
+              <span style={{ fontSize: '12px', color: '#888' }}>Language</span>
+              <span style={{ fontSize: '12px', color: '#888' }}>Voice</span>
+              {DETECTABLE_LANGUAGES.map(language => {
+                const matchingVoices = voices.filter(voice => voiceMatchesLanguage(voice.language_code, language));
+                return (
+                  <React.Fragment key={language.code}>
+                    <input
+                      type="checkbox"
+                      checked={languageAllowlist.includes(language.code)}
+                      onChange={(e) => handleLanguageAllowedChange(language.code, e.target.checked)}
+                      title="Only speak allowed languages"
+                    />
+                    <span>{language.name}</span>
+                    <select
+                      value={languageVoices[language.code] || ''}
+                      onChange={(e) => handleLanguageVoiceChange(language.code, e.target.value)}
+                      disabled={matchingVoices.length === 0}
+                      style={{
+                        padding: '6px',
+                        backgroundColor: '#1a1a1a',
+                        color: 'white',
+                        border: '1px solid #505050',
+                        borderRadius: '4px',
+                        fontSize: '13px'
+                      }}
+                    >
+                      <option value="">
+                        {matchingVoices.length === 0 ? 'No voices available' : 'Default voice'}
+                      </option>
+                      {matchingVoices.map(voice => (
+                        <option key={voice.voice_id} value={voice.voice_id}>
+                          {voice.name} - {voice.language_name} ({voice.provider})
+                        </option>
+                      ))}
+                    </select>
+                  </React.Fragment>
+                );
+              })}
+            </div>
+            <p style={{ fontSize: '12px', color: '#888', marginTop: '10px' }}>
+              {languageAllowlist.length === 0
+                ? 'No languages ticked: messages in any language are spoken.'
+                : 'Messages detected in unticked languages are skipped.'}
+            </p>
+          </>
+        )}
+      </div>
+
       {/* Test Voice */}
       <div className="card">
         <h3 style={{ marginBottom: '15px' }}>Test Voice</h3>
@@ -1475,11 +1917,326 @@ const TTS: React.FC = () => {
         </details>
       </div>
 
+      {/* Queue Priority */}
+      <div className="card">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+          <h3>Queue Priority</h3>
+          <button className="secondary" onClick={handleResetLaneOrder}>Reset to Default</button>
+        </div>
+        <p style={{ color: '#888', fontSize: '13px', marginBottom: '10px' }}>
+          Messages from higher lanes play first. Within a lane, messages play in the order they arrived.
+        </p>
+        {laneOrder.map((lane, index) => (
+          <div
+            key={lane}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '10px',
+              padding: '6px 10px',
+              backgroundColor: '#252525',
+              border: '1px solid #404040',
+              borderRadius: '6px',
+              marginBottom: '6px',
+              fontSize: '14px'
+            }}
+          >
+            <span style={{ color: '#888', width: '20px' }}>{index + 1}.</span>
+            <span style={{ flex: 1 }}>{TTS_LANE_LABELS[lane]}</span>
+            <button className="secondary" onClick={() => handleMoveLane(index, -1)} disabled={index === 0}>↑</button>
+            <button className="secondary" onClick={() => handleMoveLane(index, 1)} disabled={index === laneOrder.length - 1}>↓</button>
+          </div>
+        ))}
+      </div>
+
+      {/* Backlog Handling */}
+      <div className="card">
+        <h3 style={{ marginBottom: '10px' }}>Backlog Handling</h3>
+        <p style={{ color: '#888', fontSize: '13px', marginBottom: '15px' }}>
+          Keep TTS close to live chat during raids and busy moments.
+        </p>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '15px', marginBottom: '15px' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', fontSize: '13px' }}>
+              Max queued messages (0 = unlimited)
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={backlogSettings.maxSize}
+              onChange={(e) => handleBacklogSettingChange({ maxSize: Math.max(0, parseInt(e.target.value) || 0) })}
+              style={{ width: '100%', padding: '8px' }}
+            />
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', fontSize: '13px' }}>
+              When the queue is full
+            </label>
+            <select
+              value={backlogSettings.overflowPolicy}
+              onChange={(e) => handleBacklogSettingChange({ overflowPolicy: e.target.value as OverflowPolicy })}
+              style={{ width: '100%', padding: '8px' }}
+            >
+              <option value="drop-oldest">Drop the oldest message</option>
+              <option value="drop-newest">Drop the newest message</option>
+              <option value="latest-per-user">Keep only each viewer's latest message per lane</option>
+            </select>
+          </div>
+        </div>
+        <p style={{ color: '#888', fontSize: '12px', marginBottom: '15px' }}>
+          Messages are dropped from the lowest priority lane first, so chat never pushes out a redeem.
+        </p>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '15px', marginBottom: '15px' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', fontSize: '13px' }}>
+              Message order
+            </label>
+            <select
+              value={fairnessSettings.mode}
+              onChange={(e) => handleFairnessSettingChange({ mode: e.target.value as FairnessMode })}
+              style={{ width: '100%', padding: '8px' }}
+            >
+              <option value="fifo">First come, first served</option>
+              <option value="round-robin">Take turns between viewers</option>
+            </select>
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', fontSize: '13px' }}>
+              Max queued per viewer (0 = unlimited)
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={fairnessSettings.maxPerUser}
+              onChange={(e) => handleFairnessSettingChange({ maxPerUser: Math.max(0, parseInt(e.target.value) || 0) })}
+              style={{ width: '100%', padding: '8px' }}
+            />
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', fontSize: '13px' }}>
+              Over the per-viewer limit
+            </label>
+            <select
+              value={fairnessSettings.overCapPolicy}
+              onChange={(e) => handleFairnessSettingChange({ overCapPolicy: e.target.value as 'drop' | 'merge' })}
+              style={{ width: '100%', padding: '8px' }}
+              disabled={fairnessSettings.maxPerUser === 0}
+            >
+              <option value="drop">Drop the new message</option>
+              <option value="merge">Add it to their last queued message</option>
+            </select>
+          </div>
+        </div>
+
+        <label style={{ display: 'flex', alignItems: 'center', marginBottom: '10px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={backlogSettings.catchUpEnabled}
+            onChange={(e) => handleBacklogSettingChange({ catchUpEnabled: e.target.checked })}
+            style={{ marginRight: '10px' }}
+          />
+          <span>Catch-up mode: speed up playback while the queue is backed up</span>
+        </label>
+
+        {backlogSettings.catchUpEnabled && (
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '15px', paddingLeft: '10px', borderLeft: '2px solid #505050' }}>
+            <div>
+              <label style={{ display: 'block', marginBottom: '5px', fontSize: '13px' }}>
+                Speed up every N queued
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={backlogSettings.catchUpStartAt}
+                onChange={(e) => handleBacklogSettingChange({ catchUpStartAt: Math.max(1, parseInt(e.target.value) || 1) })}
+                style={{ width: '100%', padding: '8px' }}
+              />
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: '5px', fontSize: '13px' }}>
+                Speed step: +{Math.round(backlogSettings.catchUpStep * 100)}%
+              </label>
+              <input
+                type="range"
+                min="0.05"
+                max="0.5"
+                step="0.05"
+                value={backlogSettings.catchUpStep}
+                onChange={(e) => handleBacklogSettingChange({ catchUpStep: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: '5px', fontSize: '13px' }}>
+                Max speed: {backlogSettings.catchUpMaxRate.toFixed(2)}x
+              </label>
+              <input
+                type="range"
+                min="1.1"
+                max="2.5"
+                step="0.1"
+                value={backlogSettings.catchUpMaxRate}
+                onChange={(e) => handleBacklogSettingChange({ catchUpMaxRate: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Held for Approval */}
+      <div className="card">
+        <h3 style={{ marginBottom: '10px' }}>Held for Approval ({heldMessages.length})</h3>
+        <p style={{ color: '#888', fontSize: '13px', marginBottom: '15px' }}>
+          Messages that pass the rules wait here until a moderator approves, edits or rejects them.
+        </p>
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '10px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={approvalEnabled}
+            onChange={(e) => {
+              setApprovalEnabled(e.target.checked);
+              saveSetting('tts_approval_enabled', e.target.checked ? 'true' : 'false');
+            }}
+          />
+          <span>Require moderator approval</span>
+        </label>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '15px', marginBottom: '15px' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', fontSize: '13px' }}>
+              Discard unanswered messages after (seconds)
+            </label>
+            <input
+              type="number"
+              min="10"
+              value={approvalTimeout}
+              onChange={(e) => {
+                const seconds = Math.max(10, parseInt(e.target.value) || 300);
+                setApprovalTimeout(seconds);
+                saveSetting('tts_approval_timeout_seconds', seconds.toString());
+              }}
+              disabled={!approvalEnabled}
+              style={{ width: '100%', padding: '8px' }}
+            />
+          </div>
+          <div>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={approvalBypassRedeems}
+                onChange={(e) => {
+                  setApprovalBypassRedeems(e.target.checked);
+                  saveSetting('tts_approval_bypass_redeems', e.target.checked ? 'true' : 'false');
+                }}
+                disabled={!approvalEnabled}
+              />
+              <span style={{ fontSize: '13px' }}>Channel point redeems skip approval</span>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={approvalBypassBits}
+                onChange={(e) => {
+                  setApprovalBypassBits(e.target.checked);
+                  saveSetting('tts_approval_bypass_bits', e.target.checked ? 'true' : 'false');
+                }}
+                disabled={!approvalEnabled}
+              />
+              <span style={{ fontSize: '13px' }}>Bits messages skip approval</span>
+            </label>
+          </div>
+        </div>
+
+        {heldMessages.length === 0 ? (
+          <p style={{ color: '#888', fontSize: '14px' }}>No messages waiting for approval</p>
+        ) : (
+          <div>
+            {heldMessages.map((message) => (
+              <div
+                key={message.id}
+                style={{
+                  padding: '10px',
+                  backgroundColor: '#252525',
+                  border: '1px solid #404040',
+                  borderRadius: '6px',
+                  marginBottom: '8px',
+                  fontSize: '14px'
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', color: '#888', fontSize: '12px', marginBottom: '4px' }}>
+                  <span>
+                    Expires in {formatDrainTime(Math.max(0, Math.ceil((message.expiresAt - clockNow) / 1000)))}
+                    {renderLaneBadge(message.lane)}
+                  </span>
+                  <span>
+                    {editingHeldId === message.id ? (
+                      <>
+                        <button onClick={() => handleApproveHeld(message.id, editingHeldText)} style={{ padding: '2px 8px', fontSize: '12px', marginRight: '6px' }}>
+                          Approve Edit
+                        </button>
+                        <button className="secondary" onClick={() => setEditingHeldId(null)} style={{ padding: '2px 8px', fontSize: '12px', marginRight: '6px' }}>
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button onClick={() => handleApproveHeld(message.id)} style={{ padding: '2px 8px', fontSize: '12px', marginRight: '6px' }}>
+                          Approve
+                        </button>
+                        <button className="secondary" onClick={() => handleEditHeld(message)} style={{ padding: '2px 8px', fontSize: '12px', marginRight: '6px' }}>
+                          Edit
+                        </button>
+                      </>
+                    )}
+                    <button className="secondary" onClick={() => handleRejectHeld(message.id)} style={{ padding: '2px 8px', fontSize: '12px' }}>
+                      Reject
+                    </button>
+                  </span>
+                </div>
+                {editingHeldId === message.id ? (
+                  <textarea
+                    value={editingHeldText}
+                    onChange={(e) => setEditingHeldText(e.target.value)}
+                    rows={2}
+                    style={{ width: '100%', padding: '8px', fontSize: '14px' }}
+                  />
+                ) : (
+                  <div>
+                    {message.username && <strong>{message.username}: </strong>}
+                    {message.body ?? message.text}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p style={{ fontSize: '12px', color: '#888', marginTop: '10px', marginBottom: 0 }}>
+          Also available over the API: <code>GET {apiUrl}/tts/held</code>, <code>POST {apiUrl}/tts/held/:id/approve</code> (optional JSON <code>{'{"text": "..."}'}</code>) and <code>POST {apiUrl}/tts/held/:id/reject</code>
+        </p>
+      </div>
+
       {/* TTS Queue */}
       <div className="card">
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
-          <h3>TTS Queue ({queue.length})</h3>
           <div>
+            <h3>TTS Queue ({queue.length})</h3>
+            {queue.length > 0 && (
+              <div style={{ fontSize: '12px', color: '#888', marginTop: '4px' }}>
+                ⏳ ~{formatDrainTime(drainSeconds)} to drain
+                {catchUpRate > 1 && ` · ⏩ Catching up at ${catchUpRate.toFixed(2)}x`}
+                {droppedCount > 0 && ` · ${droppedCount} dropped`}
+              </div>
+            )}
+          </div>
+          <div>
+            <button className="secondary" onClick={handleTogglePause} style={{ marginRight: '10px' }}>
+              {queuePaused ? 'Resume' : 'Pause'}
+            </button>
             <button className="secondary" onClick={handleSkipCurrent} style={{ marginRight: '10px' }}>
               Skip Current
             </button>
@@ -1498,7 +2255,7 @@ const TTS: React.FC = () => {
             marginBottom: '10px'
           }}>
             <div style={{ fontSize: '12px', color: '#9147ff', marginBottom: '5px' }}>
-              🔊 Now Playing
+              🔊 Now Playing{renderLaneBadge(currentItem.lane)}
             </div>
             <div style={{ fontSize: '14px' }}>
               {currentItem.username && <strong>{currentItem.username}: </strong>}
@@ -1523,8 +2280,16 @@ const TTS: React.FC = () => {
                   fontSize: '14px'
                 }}
               >
-                <div style={{ color: '#888', fontSize: '12px', marginBottom: '4px' }}>
-                  #{index + 1} - {item.status}
+                <div style={{ display: 'flex', justifyContent: 'space-between', color: '#888', fontSize: '12px', marginBottom: '4px' }}>
+                  <span>
+                    #{index + 1} - {item.status}{item.status === 'pending' && item.audioReady && ' · audio ready'}
+                    {renderLaneBadge(item.lane)}
+                  </span>
+                  {item.status === 'pending' && (
+                    <button className="secondary" onClick={() => ttsQueue.remove(item.id)} style={{ padding: '2px 8px', fontSize: '12px' }}>
+                      Remove
+                    </button>
+                  )}
                 </div>
                 <div>
                   {item.username && <strong>{item.username}: </strong>}
@@ -1536,6 +2301,52 @@ const TTS: React.FC = () => {
         )}
       </div>
 
+      {/* Recently Spoken */}
+      <div className="card">
+        <h3 style={{ marginBottom: '10px' }}>Recently Spoken ({spokenHistory.length})</h3>
+        <p style={{ color: '#888', fontSize: '13px', marginBottom: '15px' }}>
+          Replay a message that was just read out. Cloud voices reuse the audio already synthesized.
+        </p>
+
+        {spokenHistory.length === 0 ? (
+          <p style={{ color: '#888', fontSize: '14px' }}>Nothing has been spoken yet</p>
+        ) : (
+          <div>
+            {[...spokenHistory].reverse().map((entry) => (
+              <div
+                key={entry.id}
+                style={{
+                  padding: '10px',
+                  backgroundColor: '#252525',
+                  border: '1px solid #404040',
+                  borderRadius: '6px',
+                  marginBottom: '8px',
+                  fontSize: '14px'
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', color: '#888', fontSize: '12px', marginBottom: '4px' }}>
+                  <span>
+                    {new Date(entry.spokenAt).toLocaleTimeString()}{entry.audioReady && ' · audio kept'}
+                    {renderLaneBadge(entry.lane)}
+                  </span>
+                  <button className="secondary" onClick={() => ttsQueue.replay(entry.id)} style={{ padding: '2px 8px', fontSize: '12px' }}>
+                    Replay
+                  </button>
+                </div>
+                <div>
+                  {entry.username && <strong>{entry.username}: </strong>}
+                  {entry.text}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p style={{ fontSize: '12px', color: '#888', marginTop: '10px', marginBottom: 0 }}>
+          Also available over the API: <code>GET {apiUrl}/tts/history</code> and <code>POST {apiUrl}/tts/history/:id/replay</code>, and in chat with <code>~history</code> and <code>~replay</code>
+        </p>
+      </div>
+
       {/* Setup Guides */}
       {showWebSpeechGuide && <WebSpeechGuide onClose={() => setShowWebSpeechGuide(false)} />}
       {showAwsGuide && <AwsPollyGuide onClose={() => setShowAwsGuide(false)} />}
@@ -1641,6 +2452,58 @@ const TTS: React.FC = () => {
               <option value="from">From Username: message</option>
               <option value="colon">Username: message</option>
             </select>
+
+            <label style={{ display: 'flex', alignItems: 'center', marginTop: '10px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={cleanUsernames}
+                onChange={(e) => {
+                  setCleanUsernames(e.target.checked);
+                  saveTTSRule('tts_clean_usernames', e.target.checked);
+                }}
+                style={{ marginRight: '10px' }}
+              />
+              <span>Clean up usernames (CoolGuy_2000 is read as "Cool Guy")</span>
+            </label>
+            <p style={{ fontSize: '12px', color: '#888', marginTop: '5px' }}>
+              Viewers can pick how their name is said with ~sayname, and mods can set it from the Viewers page.
+            </p>
+          </div>
+        )}
+
+        <label style={{ display: 'flex', alignItems: 'center', marginTop: '15px', marginBottom: '10px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={mergeMessages}
+            onChange={(e) => {
+              setMergeMessages(e.target.checked);
+              saveTTSRule('tts_merge_messages', e.target.checked);
+            }}
+            style={{ marginRight: '10px' }}
+          />
+          <span>Merge consecutive messages from the same viewer</span>
+        </label>
+
+        {mergeMessages && (
+          <div style={{ marginLeft: '30px' }}>
+            <label style={{ display: 'block', marginBottom: '5px' }}>
+              Merge window: {mergeWindowSeconds} seconds
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="60"
+              value={mergeWindowSeconds}
+              onChange={(e) => {
+                setMergeWindowSeconds(parseInt(e.target.value));
+                saveTTSRule('tts_merge_window_seconds', parseInt(e.target.value));
+              }}
+              style={{ width: '100%' }}
+            />
+            <p style={{ fontSize: '12px', color: '#888', marginTop: '5px' }}>
+              Messages that arrive while the previous one is still waiting are read as one, with the username announced once.
+              The merged message is cut at the max length.
+            </p>
           </div>
         )}
       </div>
@@ -2017,6 +2880,199 @@ const TTS: React.FC = () => {
           </p>
         )}
       </div>
+      {/* Text Normalization */}
+      <div className="card">
+        <h3 style={{ marginBottom: '10px' }}>Text Normalization</h3>
+        <p style={{ fontSize: '12px', color: '#888', marginBottom: '15px' }}>
+          Rewrite chat-speak so voices read it naturally. Runs after the limits above and before your replacement rules.
+        </p>
+
+        {NORMALIZATION_OPTIONS.map(option => (
+          <label key={option.key} style={{ display: 'flex', alignItems: 'center', marginBottom: '10px', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={normalization[option.key]}
+              onChange={(e) => handleNormalizationChange(option.key, e.target.checked)}
+              style={{ marginRight: '10px' }}
+            />
+            <span>
+              {option.label}
+              <span style={{ fontSize: '12px', color: '#888', marginLeft: '8px' }}>{option.example}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {/* Replacement Rules */}
+      <div className="card">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+          <h3>Pronunciation & Replacements</h3>
+          <div>
+            <button className="secondary" onClick={() => replacementImportRef.current?.click()} style={{ marginRight: '10px' }}>
+              Import
+            </button>
+            <button className="secondary" onClick={handleExportReplacementRules} disabled={replacementRules.length === 0}>
+              Export
+            </button>
+            <input
+              ref={replacementImportRef}
+              type="file"
+              accept=".json,application/json"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportReplacementRules(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+        <p style={{ fontSize: '12px', color: '#888', marginBottom: '10px' }}>
+          Rewrite text before it is spoken, top to bottom. Leave the replacement empty to strip a word.
+          Regex replacements can use <code>$1</code> for captured groups.
+        </p>
+
+        <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '15px' }}>
+          <input
+            type="text"
+            placeholder={newRuleIsRegex ? 'Pattern, e.g. \\bl+o+l+\\b' : 'Text, e.g. gg'}
+            value={newRulePattern}
+            onChange={(e) => setNewRulePattern(e.target.value)}
+            style={{ flex: 1 }}
+          />
+          <input
+            type="text"
+            placeholder="Say instead, e.g. good game"
+            value={newRuleReplacement}
+            onChange={(e) => setNewRuleReplacement(e.target.value)}
+            onKeyPress={(e) => {
+              if (e.key === 'Enter') {
+                handleAddReplacementRule();
+              }
+            }}
+            style={{ flex: 1 }}
+          />
+          <label style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '13px', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={newRuleIsRegex}
+              onChange={(e) => setNewRuleIsRegex(e.target.checked)}
+            />
+            Regex
+          </label>
+          <button onClick={handleAddReplacementRule}>Add</button>
+        </div>
+
+        {replacementRules.length === 0 ? (
+          <p style={{ fontSize: '12px', color: '#666', fontStyle: 'italic' }}>
+            No replacement rules configured
+          </p>
+        ) : (
+          <div style={{ marginBottom: '15px' }}>
+            {replacementRules.map((rule, index) => {
+              const patternError = getPatternError(rule);
+              return (
+                <div
+                  key={rule.id}
+                  style={{
+                    padding: '8px 10px',
+                    backgroundColor: '#1a1a1a',
+                    border: `1px solid ${patternError ? '#ff4444' : '#333'}`,
+                    borderRadius: '4px',
+                    marginBottom: '6px',
+                    opacity: rule.enabled ? 1 : 0.5
+                  }}
+                >
+                  <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => handleUpdateReplacementRule(rule.id, { enabled: e.target.checked })}
+                      title="Enabled"
+                    />
+                    <input
+                      type="text"
+                      value={rule.pattern}
+                      onChange={(e) => handleUpdateReplacementRule(rule.id, { pattern: e.target.value })}
+                      style={{ flex: 1, fontFamily: rule.isRegex ? 'monospace' : undefined }}
+                    />
+                    <span style={{ color: '#888' }}>→</span>
+                    <input
+                      type="text"
+                      value={rule.replacement}
+                      placeholder="(remove)"
+                      onChange={(e) => handleUpdateReplacementRule(rule.id, { replacement: e.target.value })}
+                      style={{ flex: 1 }}
+                    />
+                    <button className="secondary" onClick={() => handleMoveReplacementRule(index, -1)} disabled={index === 0} style={{ padding: '2px 8px' }}>
+                      ↑
+                    </button>
+                    <button className="secondary" onClick={() => handleMoveReplacementRule(index, 1)} disabled={index === replacementRules.length - 1} style={{ padding: '2px 8px' }}>
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => saveReplacementRules(replacementRules.filter(r => r.id !== rule.id))}
+                      style={{
+                        background: 'transparent',
+                        border: 'none',
+                        color: '#ff4444',
+                        cursor: 'pointer',
+                        padding: '0',
+                        fontSize: '16px'
+                      }}
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <div style={{ display: 'flex', gap: '15px', marginTop: '6px', fontSize: '12px', color: '#888' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '5px', cursor: 'pointer' }}>
+                      <input
+                        type="checkbox"
+                        checked={rule.isRegex}
+                        onChange={(e) => handleUpdateReplacementRule(rule.id, { isRegex: e.target.checked })}
+                      />
+                      Regex
+                    </label>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '5px', cursor: 'pointer' }}>
+                      <input
+                        type="checkbox"
+                        checked={rule.caseSensitive}
+                        onChange={(e) => handleUpdateReplacementRule(rule.id, { caseSensitive: e.target.checked })}
+                      />
+                      Case sensitive
+                    </label>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '5px', cursor: 'pointer' }}>
+                      <input
+                        type="checkbox"
+                        checked={rule.wholeWord}
+                        onChange={(e) => handleUpdateReplacementRule(rule.id, { wholeWord: e.target.checked })}
+                      />
+                      Whole word
+                    </label>
+                    {patternError && <span style={{ color: '#ff4444' }}>Invalid regex, skipped: {patternError}</span>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div>
+          <label style={{ display: 'block', fontSize: '12px', color: '#888', marginBottom: '5px' }}>
+            Preview:
+          </label>
+          <input
+            type="text"
+            value={replacementPreviewText}
+            onChange={(e) => setReplacementPreviewText(e.target.value)}
+            placeholder="Type a message to test the rules"
+            style={{ width: '100%', marginBottom: '8px' }}
+          />
+          <div style={{ padding: '8px 10px', backgroundColor: '#252525', borderRadius: '4px', fontSize: '14px', minHeight: '20px' }}>
+            {applyReplacementRules(replacementPreviewText, replacementRules) || <span style={{ color: '#666', fontStyle: 'italic' }}>(nothing left to speak)</span>}
+          </div>
+        </div>
+      </div>
     </>
   );
 
@@ -2616,6 +3672,9 @@ const TTS: React.FC = () => {
                       <tr key={pref.viewer_id} style={{ borderBottom: '1px solid #333' }}>
                         <td style={{ padding: '10px', fontSize: '14px' }}>
                           {pref.display_name || pref.username}
+                          {pref.voice_locked === 1 && (
+                            <span title={`Locked by ${pref.locked_by || 'a moderator'}`} style={{ marginLeft: '6px' }}>🔒</span>
+                          )}
                         </td>
                         <td style={{ padding: '10px', fontSize: '12px', color: '#888' }}>
                           {voice ? voice.name : pref.voice_id}
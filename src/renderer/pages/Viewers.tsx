@@ -9,6 +9,7 @@ interface Viewer {
   is_subscriber: boolean;
   is_banned: boolean;
   message_count: number;
+  spoken_name?: string | null;
   first_seen_at?: string;
   last_seen_at?: string;
   created_at: string;
@@ -30,6 +31,8 @@ const Viewers: React.FC = () => {
   const [showBanModal, setShowBanModal] = useState(false);
   const [banModalViewer, setBanModalViewer] = useState<Viewer | null>(null);
   const [banReason, setBanReason] = useState('');
+  const [nameModalViewer, setNameModalViewer] = useState<Viewer | null>(null);
+  const [spokenName, setSpokenName] = useState('');
 
   useEffect(() => {
     loadViewers();
@@ -234,6 +237,32 @@ const Viewers: React.FC = () => {
     }
   };
 
+  const openSpokenNameModal = (viewer: Viewer) => {
+    setNameModalViewer(viewer);
+    setSpokenName(viewer.spoken_name || '');
+  };
+
+  const saveSpokenName = async (name: string | null) => {
+    if (!nameModalViewer) return;
+
+    const viewer = nameModalViewer;
+    setNameModalViewer(null);
+    try {
+      setActionLoading(`name-${viewer.id}`);
+      const result = await window.api.invoke('db:setViewerSpokenName', viewer.id, name);
+      if (!result.success) {
+        alert(result.error || 'Action failed');
+      } else {
+        await loadViewers();
+      }
+    } catch (err) {
+      console.error('Spoken name update failed:', err);
+      alert('Action failed');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const getBadges = (viewer: Viewer): string[] => {
     const badges: string[] = [];
     if (viewer.is_moderator) badges.push('MOD');
@@ -366,6 +395,9 @@ const Viewers: React.FC = () => {
                       {viewer.display_name && viewer.display_name.toLowerCase() !== viewer.username && (
                         <span className="username-small">({viewer.username})</span>
                       )}
+                      {viewer.spoken_name && (
+                        <span className="username-small" title="Spoken name">🔊 {viewer.spoken_name}</span>
+                      )}
                     </div>
                   </td>
                   <td>
@@ -415,6 +447,14 @@ const Viewers: React.FC = () => {
                       >
                         {actionLoading === `ban-${viewer.id}` ? '...' : viewer.is_banned ? 'Unban' : 'Ban'}
                       </button>
+                      <button 
+                        className="action-btn"
+                        onClick={() => openSpokenNameModal(viewer)}
+                        disabled={actionLoading === `name-${viewer.id}`}
+                        title="Set how TTS says this name"
+                      >
+                        {actionLoading === `name-${viewer.id}` ? '...' : 'Name'}
+                      </button>
                     </div>
                   </td>
                 </tr>
@@ -450,6 +490,36 @@ const Viewers: React.FC = () => {
         </div>
       )}
 
+      {/* Spoken Name Modal */}
+      {nameModalViewer && (
+        <div className="modal-overlay" onClick={() => setNameModalViewer(null)}>
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <h3>Spoken name for {nameModalViewer.display_name || nameModalViewer.username}</h3>
+            <p>How TTS announces this viewer. Leave empty to use a cleaned-up version of their name.</p>
+            <input
+              type="text"
+              value={spokenName}
+              onChange={(e) => setSpokenName(e.target.value)}
+              placeholder={nameModalViewer.display_name || nameModalViewer.username}
+              className="modal-input"
+              maxLength={30}
+              autoFocus
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') saveSpokenName(spokenName.trim() || null);
+                if (e.key === 'Escape') setNameModalViewer(null);
+              }}
+            />
+            <div className="modal-buttons">
+              <button onClick={() => saveSpokenName(spokenName.trim() || null)} className="modal-btn-save">Save</button>
+              {nameModalViewer.spoken_name && (
+                <button onClick={() => saveSpokenName(null)} className="modal-btn-secondary">Reset</button>
+              )}
+              <button onClick={() => setNameModalViewer(null)} className="modal-btn-secondary">Cancel</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <style>{`
         .viewers-container {
           padding: 2rem;
@@ -743,7 +813,7 @@ const Viewers: React.FC = () => {
           justify-content: flex-end;
         }
 
-        .modal-btn-primary, .modal-btn-secondary {
+        .modal-btn-primary, .modal-btn-save, .modal-btn-secondary {
           padding: 0.5rem 1rem;
           border: none;
           border-radius: 4px;
@@ -760,6 +830,15 @@ const Viewers: React.FC = () => {
           background: #b91c1c;
         }
 
+        .modal-btn-save {
+          background: #9147ff;
+          color: white;
+        }
+
+        .modal-btn-save:hover {
+          background: #7c3aed;
+        }
+
         .modal-btn-secondary {
           background: #444;
           color: white;
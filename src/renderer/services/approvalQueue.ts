@@ -0,0 +1,49 @@
+// TTS Approval Queue client
+// Messages held for moderator approval live in the main process; this lists and resolves them
+
+import { TTSRequest } from './ttsQueue';
+
+export interface HeldMessage extends TTSRequest {
+  heldAt: number;     // ms timestamps
+  expiresAt: number;
+}
+
+export class ApprovalQueue {
+  /**
+   * Get held messages, oldest first
+   */
+  getHeld(): Promise<HeldMessage[]> {
+    return window.api.invoke('tts:approval:getHeld');
+  }
+
+  /**
+   * Send a held message to the TTS queue, optionally with edited text
+   */
+  approve(id: string, editedText?: string): Promise<{ success: boolean; error?: string }> {
+    return window.api.invoke('tts:approval:approve', id, editedText);
+  }
+
+  /**
+   * Discard a held message
+   */
+  reject(id: string): Promise<{ success: boolean; error?: string }> {
+    return window.api.invoke('tts:approval:reject', id);
+  }
+
+  /**
+   * Register callback for changes to the held messages. Returns an unsubscribe function.
+   */
+  onChange(callback: (held: HeldMessage[]) => void): () => void {
+    return window.api.on('tts:approval:held', callback);
+  }
+}
+
+// Singleton instance
+let approvalQueue: ApprovalQueue | null = null;
+
+export function getApprovalQueue(): ApprovalQueue {
+  if (!approvalQueue) {
+    approvalQueue = new ApprovalQueue();
+  }
+  return approvalQueue;
+}
@@ -0,0 +1,50 @@
+// TTS Language Voices
+// Languages the main process can detect in chat, and matching them to voices in the catalog
+
+export interface DetectableLanguage {
+  code: string;            // ISO 639-1, as stored in tts_language_voices and tts_language_allowlist
+  name: string;
+  voicePrefixes: string[]; // Voice language_code prefixes for this language
+}
+
+// Keep in step with the main process language detector
+export const DETECTABLE_LANGUAGES: DetectableLanguage[] = [
+  { code: 'en', name: 'English', voicePrefixes: ['en'] },
+  { code: 'es', name: 'Spanish', voicePrefixes: ['es'] },
+  { code: 'de', name: 'German', voicePrefixes: ['de'] },
+  { code: 'fr', name: 'French', voicePrefixes: ['fr'] },
+  { code: 'pt', name: 'Portuguese', voicePrefixes: ['pt'] },
+  { code: 'it', name: 'Italian', voicePrefixes: ['it'] },
+  { code: 'nl', name: 'Dutch', voicePrefixes: ['nl'] },
+  { code: 'ja', name: 'Japanese', voicePrefixes: ['ja'] },
+  { code: 'ko', name: 'Korean', voicePrefixes: ['ko'] },
+  { code: 'zh', name: 'Chinese', voicePrefixes: ['zh', 'cmn', 'yue'] },
+  { code: 'ru', name: 'Russian', voicePrefixes: ['ru'] },
+  { code: 'el', name: 'Greek', voicePrefixes: ['el'] },
+  { code: 'ar', name: 'Arabic', voicePrefixes: ['ar'] },
+  { code: 'he', name: 'Hebrew', voicePrefixes: ['he', 'iw'] },
+  { code: 'hi', name: 'Hindi', voicePrefixes: ['hi'] },
+  { code: 'th', name: 'Thai', voicePrefixes: ['th'] }
+];
+
+/**
+ * Check whether a voice's language_code (e.g. "es-MX") is a variant of the language
+ */
+export function voiceMatchesLanguage(voiceLanguageCode: string, language: DetectableLanguage): boolean {
+  const prefix = voiceLanguageCode.toLowerCase().split(/[-_]/)[0];
+  return language.voicePrefixes.includes(prefix);
+}
+
+/**
+ * Parse the stored language-to-voice map, ignoring anything malformed
+ */
+export function parseLanguageVoices(value: string | null | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (err) {
+    console.error('Failed to parse TTS language voices:', err);
+    return {};
+  }
+}
@@ -0,0 +1,4 @@
+// TTS Replacement Rules client
+// Rules are parsed, checked and previewed with the same shared module the main process uses
+
+export * from '../../shared/replacementRules';
@@ -0,0 +1,187 @@
+// TTS Player
+// Plays the items the main-process queue hands to the app window and reports when each one ends
+
+import { TTSQueueItem } from './ttsQueue';
+
+// Items arrive with their synthesized cloud audio
+interface PlaybackItem extends TTSQueueItem {
+  audioData?: string;
+}
+
+export class TTSPlayer {
+  private paused = false;
+  private currentAudio: HTMLAudioElement | null = null;
+  private stopCurrentAudio: (() => void) | null = null;
+
+  /**
+   * Start taking items from the main process. Returns a function that stops listening.
+   */
+  start(): () => void {
+    const unsubscribers = [
+      window.api.on('tts:player:play', (item: PlaybackItem) => this.play(item)),
+      window.api.on('tts:player:stop', () => this.stop()),
+      window.api.on('tts:player:pause', () => this.pause()),
+      window.api.on('tts:player:resume', () => this.resume())
+    ];
+
+    window.api.invoke('tts:player:ready').catch((err: unknown) => {
+      console.error('Failed to register TTS player:', err);
+    });
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  private async play(item: PlaybackItem): Promise<void> {
+    this.paused = false;
+    let error: string | undefined;
+    try {
+      if (item.provider === 'webspeech') {
+        await this.speakWebSpeech(item);
+      } else {
+        await this.speakCloudProvider(item);
+      }
+    } catch (err) {
+      console.error('TTS error:', err);
+      error = String(err);
+    }
+
+    window.api.invoke('tts:player:complete', item.id, error).catch((err: unknown) => {
+      console.error('Failed to report TTS playback:', err);
+    });
+  }
+
+  private stop(): void {
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+    }
+    this.stopCurrentAudio?.();
+  }
+
+  private pause(): void {
+    this.paused = true;
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.pause();
+    }
+    this.currentAudio?.pause();
+  }
+
+  private resume(): void {
+    this.paused = false;
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.resume();
+    }
+    this.currentAudio?.play().catch(err => {
+      console.error('Failed to resume audio:', err);
+    });
+  }
+
+  /**
+   * Play audio synthesized by a cloud provider (AWS/Azure/Google)
+   */
+  private speakCloudProvider(item: PlaybackItem): Promise<void> {
+    if (!item.audioData) {
+      return Promise.reject(new Error('Failed to synthesize audio'));
+    }
+
+    const audio = new Audio(`data:audio/mp3;base64,${item.audioData}`);
+    audio.volume = item.volume ?? 1.0;
+    audio.playbackRate = item.playbackRate ?? 1.0;
+
+    return new Promise<void>((resolve, reject) => {
+      const finish = () => {
+        this.currentAudio = null;
+        this.stopCurrentAudio = null;
+      };
+      audio.onended = () => {
+        console.log('TTS completed:', item.text.substring(0, 50));
+        finish();
+        resolve();
+      };
+      audio.onerror = (err) => {
+        console.error('Audio playback error:', err);
+        finish();
+        reject(err);
+      };
+
+      this.currentAudio = audio;
+      this.stopCurrentAudio = () => {
+        audio.pause();
+        finish();
+        resolve();
+      };
+
+      if (!this.paused) {
+        audio.play().catch(reject);
+      }
+    });
+  }
+
+  /**
+   * Speak using WebSpeech API
+   */
+  private speakWebSpeech(item: PlaybackItem): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!('speechSynthesis' in window)) {
+        reject(new Error('WebSpeech API not supported'));
+        return;
+      }
+
+      // Wait for voices to be loaded
+      const ensureVoices = () => {
+        const voices = window.speechSynthesis.getVoices();
+
+        if (voices.length === 0) {
+          // Voices not loaded yet, wait a bit
+          setTimeout(() => ensureVoices(), 100);
+          return;
+        }
+
+        const utterance = new SpeechSynthesisUtterance(item.text);
+
+        // Find voice by ID (case-insensitive)
+        if (item.voiceId) {
+          const voiceId = item.voiceId; // Cache for TypeScript narrowing
+          const voice = voices.find(v => v.name.toLowerCase() === voiceId.toLowerCase());
+          if (voice) {
+            utterance.voice = voice;
+          } else {
+            console.warn(`Voice not found: ${voiceId}, using default`);
+          }
+        }
+
+        // Set parameters
+        utterance.rate = Math.min((item.speed ?? 1.0) * (item.playbackRate ?? 1.0), 10);
+        utterance.pitch = item.pitch ?? 1.0;
+        utterance.volume = item.volume ?? 1.0;
+
+        utterance.onend = () => {
+          console.log('TTS completed:', item.text.substring(0, 50));
+          resolve();
+        };
+
+        utterance.onerror = (event) => {
+          console.error('TTS error:', event);
+          reject(event.error || 'Unknown TTS error');
+        };
+
+        console.log('Speaking:', item.text.substring(0, 50), 'Voice:', utterance.voice?.name || 'default');
+        window.speechSynthesis.speak(utterance);
+        if (this.paused) {
+          window.speechSynthesis.pause();
+        }
+      };
+
+      ensureVoices();
+    });
+  }
+}
+
+// Singleton instance
+let ttsPlayer: TTSPlayer | null = null;
+
+export function getTTSPlayer(): TTSPlayer {
+  if (!ttsPlayer) {
+    ttsPlayer = new TTSPlayer();
+  }
+  return ttsPlayer;
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ReplacementRule, applyReplacementRules, getPatternError, parseReplacementRules } from './replacementRules';
+
+function rule(overrides: Partial<ReplacementRule>): ReplacementRule {
+  return {
+    id: 'rule',
+    pattern: '',
+    replacement: '',
+    isRegex: false,
+    caseSensitive: false,
+    wholeWord: false,
+    enabled: true,
+    ...overrides
+  };
+}
+
+describe('applyReplacementRules', () => {
+  it('replaces literal text case-insensitively by default', () => {
+    expect(applyReplacementRules('GG everyone, gg', [rule({ pattern: 'gg', replacement: 'good game' })]))
+      .toBe('good game everyone, good game');
+  });
+
+  it('treats literal patterns and replacements as plain text', () => {
+    expect(applyReplacementRules('1+1 = 2', [rule({ pattern: '1+1', replacement: '$&$&' })])).toBe('$&$& = 2');
+  });
+
+  it('respects case sensitivity and whole words', () => {
+    const rules = [rule({ pattern: 'AI', replacement: 'A I', caseSensitive: true, wholeWord: true })];
+    expect(applyReplacementRules('AI said hi to RAID and ai', rules)).toBe('A I said hi to RAID and ai');
+  });
+
+  it('lets regex rules reference groups', () => {
+    const rules = [rule({ pattern: '(\\d+)hp', replacement: '$1 health', isRegex: true })];
+    expect(applyReplacementRules('only 20hp left', rules)).toBe('only 20 health left');
+  });
+
+  it('applies rules in order, each seeing the previous result', () => {
+    const rules = [
+      rule({ pattern: 'lol', replacement: 'laugh out loud' }),
+      rule({ pattern: 'loud', replacement: 'quietly', wholeWord: true })
+    ];
+    expect(applyReplacementRules('lol', rules)).toBe('laugh out quietly');
+  });
+
+  it('skips disabled rules and invalid regexes', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const rules = [
+      rule({ pattern: 'gg', replacement: 'good game', enabled: false }),
+      rule({ pattern: '(', replacement: 'x', isRegex: true })
+    ];
+    expect(applyReplacementRules('gg (', rules)).toBe('gg (');
+  });
+
+  it('collapses the gaps left by stripped words', () => {
+    expect(applyReplacementRules('well  um  okay', [rule({ pattern: 'um', replacement: '', wholeWord: true })]))
+      .toBe('well okay');
+  });
+});
+
+describe('parseReplacementRules', () => {
+  it('fills in defaults and drops malformed entries', () => {
+    const rules = parseReplacementRules(JSON.stringify([
+      { id: 'a', pattern: 'gg' },
+      { replacement: 'no pattern' },
+      null
+    ]));
+    expect(rules).toEqual([rule({ id: 'a', pattern: 'gg' })]);
+  });
+
+  it('returns no rules for empty or invalid JSON', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(parseReplacementRules(null)).toEqual([]);
+    expect(parseReplacementRules('{')).toEqual([]);
+    expect(parseReplacementRules('{"pattern":"gg"}')).toEqual([]);
+  });
+});
+
+describe('getPatternError', () => {
+  it('reports regexes that do not compile', () => {
+    expect(getPatternError(rule({ pattern: '(', isRegex: true }))).toMatch(/Invalid regular expression/);
+    expect(getPatternError(rule({ pattern: '(', isRegex: false }))).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+// TTS Replacement Rules
+// Pronunciation fixes and other rewrites, applied to messages in order. Shared so the rules page
+// parses and checks rules exactly as the main process applies them.
+
+export interface ReplacementRule {
+  id: string;
+  pattern: string;      // Literal text, or a regular expression when isRegex is set
+  replacement: string;  // Regex rules may use $1-style group references
+  isRegex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;   // Only match where the pattern isn't part of a longer word
+  enabled: boolean;
+}
+
+/**
+ * Parse stored or imported rules (a JSON array), ignoring malformed entries
+ */
+export function parseReplacementRules(value: string | null | undefined): ReplacementRule[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(rule => rule && typeof rule.pattern === 'string')
+      .map((rule, index) => ({
+        id: typeof rule.id === 'string' ? rule.id : `rule-${Date.now()}-${index}`,
+        pattern: rule.pattern,
+        replacement: typeof rule.replacement === 'string' ? rule.replacement : '',
+        isRegex: !!rule.isRegex,
+        caseSensitive: !!rule.caseSensitive,
+        wholeWord: !!rule.wholeWord,
+        enabled: rule.enabled !== false
+      }));
+  } catch (err) {
+    console.error('Failed to parse TTS replacement rules:', err);
+    return [];
+  }
+}
+
+/**
+ * Check a regex rule's pattern. Returns the error message, or null if it compiles.
+ */
+export function getPatternError(rule: ReplacementRule): string | null {
+  if (!rule.isRegex) return null;
+  try {
+    new RegExp(rule.pattern);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/**
+ * Run text through the enabled replacement rules in order. Rules with an invalid regex are skipped.
+ */
+export function applyReplacementRules(text: string, rules: ReplacementRule[]): string {
+  let result = text;
+  for (const rule of rules) {
+    if (!rule.enabled || !rule.pattern) continue;
+
+    const source = rule.isRegex ? rule.pattern : rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    let regex: RegExp;
+    try {
+      regex = new RegExp(rule.wholeWord ? `(?<!\\w)(?:${source})(?!\\w)` : source, rule.caseSensitive ? 'g' : 'gi');
+    } catch (err) {
+      console.error(`Skipping invalid TTS replacement pattern "${rule.pattern}":`, err);
+      continue;
+    }
+
+    // Literal rules insert the replacement as-is; regex rules may reference groups
+    result = rule.isRegex
+      ? result.replace(regex, rule.replacement)
+      : result.replace(regex, () => rule.replacement);
+  }
+
+  // Stripped words leave gaps behind
+  return result.replace(/\s{2,}/g, ' ').trim();
+}
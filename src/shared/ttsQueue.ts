@@ -0,0 +1,113 @@
+// TTS Queue types
+// Shared by the main-process queue and the app window, which mirrors the queue's state over IPC
+
+// Priority lanes; items play in lane order, first-in first-out within a lane
+export type TTSLane = 'broadcaster' | 'redeem' | 'bits' | 'moderator' | 'subscriber' | 'chat';
+
+export const DEFAULT_LANE_ORDER: TTSLane[] = ['broadcaster', 'redeem', 'bits', 'moderator', 'subscriber', 'chat'];
+
+export const TTS_LANE_LABELS: Record<TTSLane, string> = {
+  broadcaster: 'Broadcaster / Test',
+  redeem: 'Channel Point Redeem',
+  bits: 'Bits',
+  moderator: 'Moderator',
+  subscriber: 'Subscriber',
+  chat: 'Chat'
+};
+
+/**
+ * Parse the stored tts_lane_order setting, falling back to the default order for unknown or missing lanes
+ */
+export function parseLaneOrder(value: string | null | undefined): TTSLane[] {
+  const lanes = (value || '').split(',')
+    .map(lane => lane.trim())
+    .filter((lane): lane is TTSLane => DEFAULT_LANE_ORDER.includes(lane as TTSLane));
+  const unique = Array.from(new Set(lanes));
+  return [...unique, ...DEFAULT_LANE_ORDER.filter(lane => !unique.includes(lane))];
+}
+
+// What to drop when the queue is full
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'latest-per-user';
+
+export interface BacklogSettings {
+  maxSize: number;            // Pending items allowed (0 = unlimited)
+  overflowPolicy: OverflowPolicy;
+  catchUpEnabled: boolean;
+  catchUpStartAt: number;     // Pending items before playback speeds up, and per extra step
+  catchUpStep: number;        // Playback rate added per step
+  catchUpMaxRate: number;
+}
+
+export const DEFAULT_BACKLOG_SETTINGS: BacklogSettings = {
+  maxSize: 0,
+  overflowPolicy: 'drop-oldest',
+  catchUpEnabled: false,
+  catchUpStartAt: 5,
+  catchUpStep: 0.15,
+  catchUpMaxRate: 1.6
+};
+
+// How pending messages are ordered within a lane
+export type FairnessMode = 'fifo' | 'round-robin';
+
+export interface FairnessSettings {
+  mode: FairnessMode;
+  maxPerUser: number;         // Pending items per viewer per lane (0 = unlimited)
+  overCapPolicy: 'drop' | 'merge';
+}
+
+export const DEFAULT_FAIRNESS_SETTINGS: FairnessSettings = {
+  mode: 'fifo',
+  maxPerUser: 0,
+  overCapPolicy: 'drop'
+};
+
+export interface TTSRequest {
+  id: string;
+  text: string;
+  voiceId?: string;
+  provider: string;
+  speed?: number;
+  pitch?: number;
+  volume?: number;
+  viewerId?: string;
+  username?: string;
+  lane?: TTSLane; // Defaults to 'chat'
+  announcement?: string;       // Username prefix spoken once, even when messages are merged
+  body?: string;               // Text without the announcement
+  maxLength?: number;          // Cap on the merged body
+  mergeWindowSeconds?: number; // Merge into this viewer's pending item if it arrived within the window
+  messageIds?: string[];       // Twitch chat messages spoken by this item (several once merged)
+  replayOf?: string;           // History entry this item replays
+}
+
+export type TTSQueueItemStatus = 'pending' | 'playing' | 'completed' | 'error';
+
+// A queued item as reported to the app window; cloud audio stays in the main process
+export interface TTSQueueItemState extends TTSRequest {
+  status: TTSQueueItemStatus;
+  error?: string;
+  audioReady?: boolean;  // Cloud audio already synthesized
+  playbackRate?: number; // Catch-up multiplier applied when the item started
+  sequence?: number;     // Arrival order
+  receivedAt?: number;   // ms timestamp of the latest message merged into the item
+}
+
+// A recently spoken item as reported to the app window
+export interface TTSHistoryEntryState extends TTSRequest {
+  spokenAt: number;    // ms timestamp playback finished
+  audioReady: boolean; // Cloud audio kept for replay
+}
+
+export interface TTSQueueState {
+  items: TTSQueueItemState[];
+  currentItem: TTSQueueItemState | null;
+  paused: boolean;
+  laneOrder: TTSLane[];
+  backlog: BacklogSettings;
+  fairness: FairnessSettings;
+  drainSeconds: number;
+  catchUpRate: number;
+  droppedCount: number;
+  history: TTSHistoryEntryState[]; // Oldest first
+}